@@ -0,0 +1,34 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { ModerationEventService } from '../shared/services/ModerationEventService.ts';
+import { ApiError, createHandler } from '../shared/utils/handler.ts';
+
+const appealModerationSchema = {
+  eventId: { type: 'string', required: true }, // moderationEventId from the CONTENT_REJECTED error
+  message: { type: 'string', trim: true, maxLength: 1000 }
+} as const;
+
+serve(createHandler({
+  name: 'Moderation appeal',
+  methods: ['POST'],
+  auth: 'required',
+  rateLimit: 'appeal',
+  body: appealModerationSchema,
+  handler: async ({ user, body }) => {
+    const { eventId, message } = body;
+    const eventService = new ModerationEventService();
+
+    const result = await eventService.createAppeal(eventId, user!.id, message);
+
+    if (!result.success) {
+      if (result.notFound) {
+        throw new ApiError(404, 'NOT_FOUND', result.error || 'Moderation event not found');
+      }
+      if (result.conflict) {
+        throw new ApiError(409, 'CONFLICT', result.error || 'Cannot appeal this decision');
+      }
+      throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to file appeal');
+    }
+
+    return { success: true, appeal: result.appeal };
+  }
+}));
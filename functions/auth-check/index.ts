@@ -1,66 +1,26 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'npm:@supabase/supabase-js@2';
-
-serve(async (req) => {
-  try {
-    // Initialize Supabase client with service role for admin operations
-    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
-    
-    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
-
-    // Get the authorization header
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'No authorization header' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Extract the token
-    const token = authHeader.replace('Bearer ', '');
-    
-    // Verify the token using service role client
-    const { data: { user }, error } = await supabaseClient.auth.getUser(token);
-
-    if (error || !user) {
-      console.error('Auth verification failed:', error);
-      return new Response(JSON.stringify({ 
-        error: 'Invalid or expired token',
-        details: error?.message 
-      }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+import { createHandler } from '../shared/utils/handler.ts';
 
+serve(createHandler({
+  name: 'Authentication check',
+  methods: ['GET', 'POST'],
+  auth: 'required',
+  handler: async ({ supabase, user }) => {
     // Get user profile from database
-    const { data: profile, error: profileError } = await supabaseClient
+    const { data: profile } = await supabase
       .from('profiles')
       .select('*')
-      .eq('id', user.id)
+      .eq('id', user!.id)
       .single();
 
-    return new Response(JSON.stringify({ 
+    return {
       success: true,
       user: {
-        id: user.id,
-        email: user.email,
-        created_at: user.created_at,
+        id: user!.id,
+        email: user!.email,
+        created_at: user!.created_at,
         profile: profile || null
       }
-    }), {
-      headers: { 'Content-Type': 'application/json' },
-    });
-
-  } catch (error) {
-    return new Response(JSON.stringify({ 
-      error: 'Authentication check failed',
-      details: error.message 
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    };
   }
-});
+}));
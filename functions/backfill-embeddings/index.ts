@@ -0,0 +1,150 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { EmbeddingBackfillService } from '../shared/services/EmbeddingBackfillService.ts';
+import { DreamEmbeddingService } from '../shared/services/DreamEmbeddingService.ts';
+import { ApiError, createHandler } from '../shared/utils/handler.ts';
+
+// Stop starting new batches once this much of the invocation has been used
+const TIME_BUDGET_MS = 40_000;
+
+const backfillEmbeddingsSchema = {
+  action: { type: 'string', default: 'run', enum: ['start', 'run', 'status', 'cutover', 'cancel', 'vocabulary'] },
+  jobId: { type: 'string' },
+  batchSize: { type: 'integer', default: 100, min: 1, max: 500, clamp: true }
+} as const;
+
+serve(createHandler({
+  name: 'Backfill embeddings',
+  methods: ['POST'],
+  auth: 'service', // Operators, and the pg_cron job in migration 027 ({"action": "run"})
+  body: backfillEmbeddingsSchema,
+  handler: async ({ body }) => {
+    const { action, jobId, batchSize } = body;
+    const backfillService = new EmbeddingBackfillService();
+
+    switch (action) {
+      case 'start': {
+        const result = await backfillService.startJob();
+        if (!result.success) {
+          if (result.error === 'A backfill job is already active') {
+            throw new ApiError(409, 'CONFLICT', result.error, { job: result.job });
+          }
+          throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to start backfill job');
+        }
+        return { success: true, job: result.job };
+      }
+
+      case 'status': {
+        const result = await backfillService.getStatus(jobId);
+        if (!result.success) {
+          if (result.error === 'Backfill job not found') {
+            throw new ApiError(404, 'NOT_FOUND', result.error);
+          }
+          throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to load backfill job');
+        }
+        return { success: true, job: result.job, coverage: result.coverage };
+      }
+
+      case 'cutover': {
+        if (!jobId) {
+          throw new ApiError(400, 'VALIDATION_ERROR', 'jobId is required for cutover', [
+            { field: 'jobId', message: 'jobId is required for cutover' }
+          ]);
+        }
+        const result = await backfillService.cutover(jobId);
+        if (!result.success) {
+          if (result.error === 'Backfill job not found') {
+            throw new ApiError(404, 'NOT_FOUND', result.error);
+          }
+          if (result.error?.includes('not ready for cutover')) {
+            throw new ApiError(409, 'CONFLICT', result.error);
+          }
+          throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Cutover failed');
+        }
+        return {
+          success: true,
+          swapped: result.swapped,
+          postsSwapped: result.postsSwapped,
+          dreamsSwapped: result.dreamsSwapped,
+          rowsRemaining: result.rowsRemaining
+        };
+      }
+
+      case 'cancel': {
+        const result = await backfillService.cancel();
+        if (!result.success) {
+          if (result.error === 'No active backfill job') {
+            throw new ApiError(404, 'NOT_FOUND', result.error);
+          }
+          throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to cancel backfill job');
+        }
+        return { success: true, job: result.job };
+      }
+
+      case 'vocabulary': {
+        // Current-model vectors for dream_symbols / dream_emotions rows that lack one
+        const dreamEmbeddings = new DreamEmbeddingService();
+        const startedAt = Date.now();
+        let embedded = 0;
+        let failed = 0;
+        let done = false;
+
+        while (!done && Date.now() - startedAt < TIME_BUDGET_MS) {
+          const result = await dreamEmbeddings.backfillVocabulary(batchSize);
+          embedded += result.embedded;
+          failed += result.failed;
+
+          if (!result.success) {
+            throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Vocabulary backfill failed', {
+              embedded,
+              failed
+            });
+          }
+          done = result.done;
+        }
+
+        return { success: true, embedded, failed, done, durationMs: Date.now() - startedAt };
+      }
+
+      case 'run':
+      default: {
+        const startedAt = Date.now();
+        let embedded = 0;
+        let failed = 0;
+        let batches = 0;
+        let job;
+
+        while (Date.now() - startedAt < TIME_BUDGET_MS) {
+          const result = await backfillService.runBatch(batchSize);
+
+          if (!result.success) {
+            throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Backfill batch failed', {
+              embedded,
+              failed,
+              batches
+            });
+          }
+
+          job = result.job;
+          batches++;
+          embedded += result.embedded;
+          failed += result.failed;
+
+          if (result.done) {
+            break;
+          }
+        }
+
+        console.log(`✅ Backfill run finished: ${embedded} embedded, ${failed} failed in ${batches} batches`);
+
+        return {
+          success: true,
+          job: job ?? null,
+          embedded,
+          failed,
+          batches,
+          durationMs: Date.now() - startedAt
+        };
+      }
+    }
+  }
+}));
@@ -2,63 +2,45 @@
 declare const Deno: any;
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { DreamPostService } from '../shared/services/DreamPostService.ts';
 import { DreamCommunityService } from '../shared/services/DreamCommunityService.ts';
-import { CreateDreamRequest } from '../shared/types/DreamTypes.ts';
+import { getUnauthenticatedPostPolicy } from '../shared/utils/auth.ts';
+import { ApiError, createHandler, enforceRateLimit } from '../shared/utils/handler.ts';
 
-interface CreateDreamPostRequest {
-  content: string;
-  dreamType: 'night_dream' | 'daydream' | 'lucid_dream' | 'nightmare';
-  emotions?: string[];
-  symbols?: string[];
-  clarity: number;
-  interpretation?: string;
-  isAnonymous?: boolean;
-  scope: 'city' | 'state' | 'country' | 'world';
-  locationCity?: string;
-  locationState?: string;
-  locationCountry?: string;
-  supportMessage?: string; // Optional support message for the community
-}
+const createDreamPostSchema = {
+  content: { type: 'string', required: true },
+  dreamType: {
+    type: 'string',
+    required: true,
+    enum: ['night_dream', 'daydream', 'lucid_dream', 'nightmare']
+  },
+  emotions: { type: 'string[]', default: [] },
+  symbols: { type: 'string[]', default: [] },
+  clarity: { type: 'number', required: true, min: 1, max: 10, message: 'Clarity must be between 1 and 10' },
+  interpretation: { type: 'string' },
+  isAnonymous: { type: 'boolean', default: false },
+  scope: { type: 'string', required: true, enum: ['city', 'state', 'country', 'world'] },
+  locationCity: { type: 'string' },
+  locationState: { type: 'string' },
+  locationCountry: { type: 'string' },
+  supportMessage: { type: 'string' } // Optional support message for the community
+} as const;
 
-serve(async (req) => {
-  try {
-    // Handle CORS
-    if (req.method === 'OPTIONS') {
-      return new Response(null, {
-        status: 200,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-        },
-      });
-    }
-
-    if (req.method !== 'POST') {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Method not allowed' }),
-        { 
-          status: 405,
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
-    }
-
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const body: CreateDreamPostRequest = await req.json();
-    const { 
-      content, 
-      dreamType, 
-      emotions = [], 
-      symbols = [], 
-      clarity, 
+serve(createHandler({
+  name: 'Create dream post',
+  methods: ['POST'],
+  auth: 'optional',
+  rateLimit: 'dream',
+  body: createDreamPostSchema,
+  handler: async ({ req, user, body }) => {
+    const {
+      content,
+      dreamType,
+      emotions,
+      symbols,
+      clarity,
       interpretation,
-      isAnonymous = false,
+      isAnonymous,
       scope,
       locationCity,
       locationState,
@@ -66,47 +48,29 @@ serve(async (req) => {
       supportMessage
     } = body;
 
-    // Validate required fields
-    if (!content || !dreamType || !scope || clarity === undefined) {
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Missing required fields: content, dreamType, scope, clarity' 
-        }),
-        { 
-          status: 400,
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
+    if (!user && getUnauthenticatedPostPolicy() === 'reject') {
+      throw new ApiError(401, 'UNAUTHORIZED', 'Authentication required');
     }
 
-    // Validate clarity range
-    if (clarity < 1 || clarity > 10) {
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Clarity must be between 1 and 10' 
-        }),
-        { 
-          status: 400,
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
+    // Support messages have their own quota; check it before doing any paid work
+    if (supportMessage && user) {
+      await enforceRateLimit('support_message', req, user);
     }
 
     // Create dream post service
     const dreamPostService = new DreamPostService();
     const dreamCommunityService = new DreamCommunityService();
-    
+
     // Create the dream post
     const result = await dreamPostService.createDreamPost({
-      content: content.trim(),
+      content,
       dreamType,
       emotions: emotions as any[],
       symbols: symbols as any[],
       clarity,
       interpretation,
-      isAnonymous,
+      isAnonymous: user ? isAnonymous : true, // display-only; ownership comes from the token
+      userId: user?.id ?? null,
       scope,
       locationCity,
       locationState,
@@ -115,45 +79,42 @@ serve(async (req) => {
     });
 
     if (!result.success) {
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: result.error 
-        }),
-        { 
-          status: 400,
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
+      if (result.unavailable) {
+        throw new ApiError(503, 'UPSTREAM_ERROR', result.error || 'Moderation unavailable');
+      }
+      if (result.rejected) {
+        throw new ApiError(422, 'CONTENT_REJECTED', result.error || 'Content rejected',
+          result.moderationEventId ? { moderationEventId: result.moderationEventId } : undefined);
+      }
+      throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to save dream post');
     }
 
-    // Create support message if provided
-    if (supportMessage && result.post?.id) {
+    // Create support message if provided (requires a signed-in user)
+    let supportMessageRejection: { error?: string; moderationEventId?: string } | undefined;
+    if (supportMessage && result.post?.id && user) {
       console.log('💝 Creating support message for dream:', result.post.id);
-      
-      // Get user ID from the request headers
-      const authHeader = req.headers.get('Authorization');
-      if (authHeader) {
-        try {
-          const token = authHeader.replace('Bearer ', '');
-          const { data: { user } } = await supabase.auth.getUser(token);
-          
-          if (user) {
-            const supportResult = await dreamCommunityService.createSupportMessage(
-              result.post.id,
-              user.id,
-              supportMessage
-            );
-            
-            if (supportResult.success) {
-              console.log('✅ Support message created successfully');
-            } else {
-              console.log('⚠️ Failed to create support message:', supportResult.error);
-            }
+
+      try {
+        const supportResult = await dreamCommunityService.createSupportMessage(
+          result.post.id,
+          user.id,
+          supportMessage
+        );
+
+        if (supportResult.success) {
+          console.log('✅ Support message created successfully');
+        } else {
+          console.log('⚠️ Failed to create support message:', supportResult.error);
+          if (supportResult.rejected) {
+            // The dream is saved either way; tell the user why their message was not
+            supportMessageRejection = {
+              error: supportResult.error,
+              moderationEventId: supportResult.moderationEventId
+            };
           }
-        } catch (error) {
-          console.log('⚠️ Error creating support message:', error);
         }
+      } catch (error) {
+        console.log('⚠️ Error creating support message:', error);
       }
     }
 
@@ -165,45 +126,19 @@ serve(async (req) => {
           symbols as any[],
           emotions as any[]
         );
-        
+
         // Add community data to the result
-        if (result.post) {
-          result.post.communityData = communityData;
-        }
+        result.post.communityData = communityData;
       } catch (error) {
         console.log('⚠️ Error getting community data:', error);
       }
     }
 
-    // Return success response
-    return new Response(
-      JSON.stringify({
-        success: true,
-        post: result.post,
-        analytics: result.analytics
-      }),
-      { 
-        status: 200,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      }
-    );
-
-  } catch (error) {
-    console.error('❌ Create dream post error:', error);
-    
-    return new Response(
-      JSON.stringify({ 
-        success: false, 
-        error: 'Internal server error',
-        details: error.message 
-      }),
-      { 
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      }
-    );
+    return {
+      success: true,
+      post: result.post,
+      analytics: result.analytics,
+      supportMessageRejection
+    };
   }
-});
+}));
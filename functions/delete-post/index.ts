@@ -0,0 +1,29 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { PostService } from '../shared/services/PostService.ts';
+import { ApiError, createHandler } from '../shared/utils/handler.ts';
+
+const deletePostSchema = {
+  postId: { type: 'string', required: true }
+} as const;
+
+serve(createHandler({
+  name: 'Delete post',
+  methods: ['POST', 'DELETE'],
+  auth: 'required',
+  body: deletePostSchema,
+  handler: async ({ user, body }) => {
+    const postService = new PostService();
+
+    // Only the owner can delete; the service scopes the delete to user_id
+    const result = await postService.deletePost(body.postId, user!.id);
+
+    if (!result.success) {
+      if (result.error === 'Post not found') {
+        throw new ApiError(404, 'NOT_FOUND', 'Post not found');
+      }
+      throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to delete post');
+    }
+
+    return { success: true, postId: body.postId };
+  }
+}));
@@ -1,80 +1,42 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { DreamPostService } from '../shared/services/DreamPostService.ts';
 import { DreamCommunityService } from '../shared/services/DreamCommunityService.ts';
+import { ApiError, createHandler, jsonResponse } from '../shared/utils/handler.ts';
 
-serve(async (req) => {
-  try {
-    // Handle CORS
-    if (req.method === 'OPTIONS') {
-      return new Response(null, {
-        status: 200,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-          'Access-Control-Allow-Methods': 'GET, OPTIONS',
-        },
-      });
-    }
-
-    if (req.method !== 'GET') {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Method not allowed' }),
-        { 
-          status: 405,
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
-    }
+const fetchDreamsQuery = {
+  dreamType: { type: 'string', enum: ['night_dream', 'daydream', 'lucid_dream', 'nightmare'] },
+  scope: { type: 'string', enum: ['city', 'state', 'country', 'world'] },
+  limit: { type: 'integer', default: 10, min: 1, max: 50, message: 'Limit must be between 1 and 50' },
+  cursor: { type: 'string' },
+  offset: { type: 'integer', min: 0 } // Deprecated: offset pagination, use cursor
+} as const;
 
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    // Parse query parameters
-    const url = new URL(req.url);
-    const dreamType = url.searchParams.get('dreamType');
-    const scope = url.searchParams.get('scope');
-    const limit = parseInt(url.searchParams.get('limit') || '10');
-    const offset = parseInt(url.searchParams.get('offset') || '0');
-
-    // Validate limit
-    if (limit > 50) {
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Limit cannot exceed 50' 
-        }),
-        { 
-          status: 400,
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
-    }
+serve(createHandler({
+  name: 'Fetch dreams',
+  methods: ['GET'],
+  query: fetchDreamsQuery,
+  handler: async ({ query }) => {
+    const { dreamType, scope, limit, cursor, offset } = query;
+    const offsetMode = offset !== undefined && !cursor;
 
     // Create services
     const dreamPostService = new DreamPostService();
     const dreamCommunityService = new DreamCommunityService();
-    
+
     // Fetch dream posts
     const result = await dreamPostService.fetchDreamPosts({
-      dreamType: dreamType || undefined,
-      scope: scope || undefined,
+      dreamType,
+      scope,
       limit,
+      cursor,
       offset
     });
 
     if (!result.success) {
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: result.error 
-        }),
-        { 
-          status: 400,
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
+      if (result.error === 'Invalid cursor') {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'Invalid cursor');
+      }
+      throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to fetch dream posts');
     }
 
     // Add community data to each dream post
@@ -86,7 +48,7 @@ serve(async (req) => {
             post.symbols,
             post.emotions
           );
-          
+
           // Add community data to the post
           (post as any).communityData = communityData;
         } catch (error) {
@@ -95,40 +57,32 @@ serve(async (req) => {
       }
     }
 
-    // Return success response
-    return new Response(
-      JSON.stringify({
+    if (offsetMode) {
+      // Offset pagination still works but is flagged for clients to migrate to cursors
+      return jsonResponse({
         success: true,
         posts: result.posts,
         pagination: {
+          mode: 'offset',
+          deprecated: true,
           limit,
           offset,
-          total: result.posts?.length || 0,
-          hasNext: (result.posts?.length || 0) === limit
+          total: result.total ?? 0,
+          hasNext: result.hasNext
         }
-      }),
-      { 
-        status: 200,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      }
-    );
+      }, 200, { 'Deprecation': 'true' });
+    }
 
-  } catch (error) {
-    console.error('❌ Fetch dreams error:', error);
-    
-    return new Response(
-      JSON.stringify({ 
-        success: false, 
-        error: 'Internal server error',
-        details: error.message 
-      }),
-      { 
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      }
-    );
+    return {
+      success: true,
+      posts: result.posts,
+      pagination: {
+        mode: 'cursor',
+        limit,
+        hasNext: result.hasNext,
+        next_cursor: result.nextCursor
+      },
+      next_cursor: result.nextCursor
+    };
   }
-});
+}));
@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { cacheGet, cacheSet, CacheKeys, CacheTTL } from '../shared/utils/redis.ts';
+import { cacheGet, cacheSetWithTags, CacheKeys, CacheTags, CacheTTL } from '../shared/utils/redis.ts';
+import { ApiError, createHandler } from '../shared/utils/handler.ts';
+import { addDays, DEFAULT_TIME_ZONE, isValidTimeZone, localDate, startOfLocalDay } from '../shared/utils/time.ts';
 
 interface StatsResponse {
   success: boolean;
@@ -12,41 +13,43 @@ interface StatsResponse {
   error?: string;
 }
 
-serve(async (req) => {
-  try {
+const statsQuery = {
+  timezone: { type: 'string', trim: true } // IANA zone whose local day counts as "today"
+} as const;
+
+serve(createHandler({
+  name: 'Stats',
+  methods: ['GET', 'POST'],
+  query: statsQuery,
+  handler: async ({ supabase, query }) => {
     console.log('📊 Stats request received');
 
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
-    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+    const timeZone = query.timezone || DEFAULT_TIME_ZONE;
+    if (!isValidTimeZone(timeZone)) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'Invalid timezone', [
+        { field: 'timezone', message: 'Must be an IANA time zone name' }
+      ]);
+    }
 
-    // Check cache first
-    const cacheKey = CacheKeys.stats('world', 'today');
-    let cached = null;
+    // Check cache first (keyed by local day so the entry never outlives midnight)
+    const day = localDate(new Date(), timeZone);
+    const cacheKey = CacheKeys.stats('world', `${day}:${timeZone}`);
     try {
-      cached = await cacheGet<StatsResponse['stats']>(cacheKey);
+      const cached = await cacheGet<StatsResponse['stats']>(cacheKey);
       if (cached) {
         console.log('✅ Using cached stats');
-        return new Response(JSON.stringify({
-          success: true,
-          stats: cached
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+        return { success: true, stats: cached };
       }
     } catch (cacheError) {
       console.warn('⚠️ Cache read error:', cacheError);
     }
 
-    // Calculate today's date range
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    // Calculate today's date range in the caller's time zone
+    const today = startOfLocalDay(day, timeZone);
+    const tomorrow = startOfLocalDay(addDays(day, 1), timeZone);
 
     // Get total posts today
-    const { data: todayPosts, error: todayError } = await supabaseClient
+    const { data: todayPosts, error: todayError } = await supabase
       .from('posts')
       .select('id, match_count')
       .eq('moderation_status', 'approved')
@@ -54,35 +57,21 @@ serve(async (req) => {
       .lt('created_at', tomorrow.toISOString());
 
     if (todayError) {
-      console.error('❌ Error fetching today posts:', todayError);
-      return new Response(JSON.stringify({
-        success: false,
-        error: 'Failed to fetch today posts'
-      }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      });
+      throw new ApiError(500, 'INTERNAL_ERROR', 'Failed to fetch today posts', todayError.message);
     }
 
     // Get total posts count
-    const { count: totalPosts, error: totalError } = await supabaseClient
+    const { count: totalPosts, error: totalError } = await supabase
       .from('posts')
       .select('*', { count: 'exact', head: true })
       .eq('moderation_status', 'approved');
 
     if (totalError) {
-      console.error('❌ Error fetching total posts:', totalError);
-      return new Response(JSON.stringify({
-        success: false,
-        error: 'Failed to fetch total posts'
-      }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      });
+      throw new ApiError(500, 'INTERNAL_ERROR', 'Failed to fetch total posts', totalError.message);
     }
 
     // Calculate shared experiences (posts that found similar matches)
-    const sharedExperiencesToday = todayPosts?.filter(post => 
+    const sharedExperiencesToday = todayPosts?.filter((post: any) =>
       post.match_count && post.match_count > 0
     ).length || 0;
 
@@ -94,7 +83,19 @@ serve(async (req) => {
 
     // Cache the results
     try {
-      await cacheSet(cacheKey, stats, CacheTTL.STATS);
+      await cacheSetWithTags(
+        cacheKey,
+        stats,
+        // Posts are tagged with their UTC day; the local day can span two
+        [
+          ...new Set([
+            CacheTags.date(today.toISOString().slice(0, 10)),
+            CacheTags.date(new Date(tomorrow.getTime() - 1).toISOString().slice(0, 10))
+          ]),
+          CacheTags.scope('world')
+        ],
+        CacheTTL.STATS
+      );
       console.log('✅ Stats cached');
     } catch (cacheError) {
       console.warn('⚠️ Cache write error:', cacheError);
@@ -102,21 +103,6 @@ serve(async (req) => {
 
     console.log('📊 Stats calculated:', stats);
 
-    return new Response(JSON.stringify({
-      success: true,
-      stats
-    }), {
-      headers: { 'Content-Type': 'application/json' }
-    });
-
-  } catch (error) {
-    console.error('❌ Stats function error:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: 'Internal server error'
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return { success: true, stats };
   }
-});
+}));
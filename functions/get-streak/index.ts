@@ -0,0 +1,43 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { StreakService } from '../shared/services/StreakService.ts';
+import { ApiError, createHandler } from '../shared/utils/handler.ts';
+import { isValidTimeZone } from '../shared/utils/time.ts';
+
+const getStreakQuery = {
+  timezone: { type: 'string', trim: true }, // Defaults to the zone saved with the user's last post
+  leaderboard: { type: 'string', default: 'current', enum: ['current', 'longest', 'none'] },
+  limit: { type: 'integer', default: 10, min: 1, max: 50, clamp: true }
+} as const;
+
+serve(createHandler({
+  name: 'Get streak',
+  methods: ['GET'],
+  auth: 'optional', // Signed-in callers also get their own streak
+  query: getStreakQuery,
+  handler: async ({ user, query }) => {
+    const { timezone, leaderboard, limit } = query;
+
+    if (timezone && !isValidTimeZone(timezone)) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'Invalid timezone', [
+        { field: 'timezone', message: 'Must be an IANA time zone name' }
+      ]);
+    }
+
+    const streakService = new StreakService();
+
+    const [streak, entries] = await Promise.all([
+      user ? streakService.getStreak(user.id, timezone) : Promise.resolve(null),
+      leaderboard !== 'none' ? streakService.getLeaderboard(leaderboard, limit) : Promise.resolve([])
+    ]);
+
+    if (user && !streak) {
+      throw new ApiError(500, 'INTERNAL_ERROR', 'Failed to fetch streak');
+    }
+
+    return {
+      success: true,
+      streak,
+      leaderboard: leaderboard !== 'none' ? { type: leaderboard, entries } : null
+    };
+  }
+}));
@@ -0,0 +1,101 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { ModerationEventService } from '../shared/services/ModerationEventService.ts';
+import { ModerationReviewService } from '../shared/services/ModerationReviewService.ts';
+import { ApiError, createHandler } from '../shared/utils/handler.ts';
+
+const moderationQueueSchema = {
+  action: {
+    type: 'string',
+    default: 'list',
+    enum: ['list', 'approve', 'reject', 'audit', 'appeals', 'uphold', 'overturn']
+  },
+  postIds: { type: 'string[]', minLength: 1, maxLength: 100 },   // approve / reject (bulk)
+  postId: { type: 'string' },                                    // audit
+  appealIds: { type: 'string[]', minLength: 1, maxLength: 100 }, // uphold / overturn (bulk)
+  note: { type: 'string', maxLength: 500 },
+  limit: { type: 'integer', default: 20, min: 1, max: 100, clamp: true },
+  offset: { type: 'integer', default: 0, min: 0 }
+} as const;
+
+serve(createHandler({
+  name: 'Moderation queue',
+  methods: ['POST'],
+  auth: 'admin',
+  body: moderationQueueSchema,
+  handler: async ({ user, body }) => {
+    const { action, postIds, postId, appealIds, note, limit, offset } = body;
+    const reviewService = new ModerationReviewService();
+    const eventService = new ModerationEventService();
+
+    switch (action) {
+      case 'approve':
+      case 'reject': {
+        if (!postIds) {
+          throw new ApiError(400, 'VALIDATION_ERROR', `postIds is required to ${action}`, [
+            { field: 'postIds', message: `postIds is required to ${action}` }
+          ]);
+        }
+        const decision = action === 'approve' ? 'approved' : 'rejected';
+        const result = await reviewService.review(postIds, decision, user!.id, note);
+        if (!result.success) {
+          throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Review failed');
+        }
+        return { success: true, decision, reviewed: result.reviewed, skipped: result.skipped };
+      }
+
+      case 'audit': {
+        if (!postId) {
+          throw new ApiError(400, 'VALIDATION_ERROR', 'postId is required for audit', [
+            { field: 'postId', message: 'postId is required for audit' }
+          ]);
+        }
+        const result = await reviewService.getAuditTrail(postId);
+        if (!result.success) {
+          throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to load audit trail');
+        }
+        return { success: true, postId, entries: result.entries };
+      }
+
+      case 'appeals': {
+        const result = await eventService.listPendingAppeals(limit, offset);
+        if (!result.success) {
+          throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to load appeals');
+        }
+        return {
+          success: true,
+          items: result.items,
+          total: result.total,
+          hasMore: offset + result.items.length < result.total
+        };
+      }
+
+      case 'uphold':
+      case 'overturn': {
+        if (!appealIds) {
+          throw new ApiError(400, 'VALIDATION_ERROR', `appealIds is required to ${action}`, [
+            { field: 'appealIds', message: `appealIds is required to ${action}` }
+          ]);
+        }
+        const decision = action === 'uphold' ? 'upheld' : 'overturned';
+        const result = await eventService.resolveAppeals(appealIds, decision, user!.id, note);
+        if (!result.success) {
+          throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Appeal resolution failed');
+        }
+        return { success: true, decision, resolved: result.resolved, skipped: result.skipped };
+      }
+
+      default: {
+        const result = await reviewService.listPending(limit, offset);
+        if (!result.success) {
+          throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to load review queue');
+        }
+        return {
+          success: true,
+          items: result.items,
+          total: result.total,
+          hasMore: offset + result.items.length < result.total
+        };
+      }
+    }
+  }
+}));
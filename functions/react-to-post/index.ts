@@ -0,0 +1,39 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { ReactionService } from '../shared/services/ReactionService.ts';
+import { ApiError, createHandler } from '../shared/utils/handler.ts';
+
+const reactToPostSchema = {
+  postId: { type: 'string', required: true },
+  reactionType: { type: 'string', required: true, enum: ['funny', 'creative', 'must_try'] },
+  action: { type: 'string', default: 'toggle', enum: ['toggle', 'add', 'remove'] }
+} as const;
+
+serve(createHandler({
+  name: 'React to post',
+  methods: ['POST'],
+  auth: 'required',
+  rateLimit: 'reaction',
+  body: reactToPostSchema,
+  handler: async ({ user, body }) => {
+    const { postId, reactionType, action } = body;
+    const reactionService = new ReactionService();
+
+    const result = await reactionService.setReaction(postId, user!.id, reactionType, action);
+
+    if (!result.success) {
+      if (result.error === 'Post not found') {
+        throw new ApiError(404, 'NOT_FOUND', 'Post not found');
+      }
+      throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to update reaction');
+    }
+
+    return {
+      success: true,
+      postId,
+      reactionType,
+      reacted: result.reacted,
+      reactions: result.counts,
+      userReactions: result.userReactions
+    };
+  }
+}));
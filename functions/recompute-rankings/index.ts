@@ -0,0 +1,59 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { RankingService } from '../shared/services/RankingService.ts';
+import { ApiError, createHandler } from '../shared/utils/handler.ts';
+
+// Stop starting new batches once this much of the invocation has been used
+const TIME_BUDGET_MS = 40_000;
+
+const recomputeRankingsSchema = {
+  batchSize: { type: 'integer', default: 100, min: 1, max: 500, clamp: true },
+  maxAgeMinutes: { type: 'integer', default: 15, min: 1 }
+} as const;
+
+serve(createHandler({
+  name: 'Recompute rankings',
+  methods: ['POST'],
+  auth: 'service', // Called by the pg_cron job in migration 019
+  body: recomputeRankingsSchema,
+  handler: async ({ body }) => {
+    const { batchSize, maxAgeMinutes } = body;
+    const rankingService = new RankingService();
+    const startedAt = Date.now();
+
+    let processed = 0;
+    let failed = 0;
+    let batches = 0;
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const result = await rankingService.recomputeStaleRankings({ batchSize, maxAgeMinutes });
+
+      if (!result.success) {
+        throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Failed to recompute rankings', {
+          processed,
+          failed,
+          batches
+        });
+      }
+
+      batches++;
+      processed += result.processed;
+      failed += result.failed;
+
+      // A short batch means everything stale has been handled; a batch of only
+      // failures would just select the same posts again
+      if (result.processed + result.failed < batchSize || result.processed === 0) {
+        break;
+      }
+    }
+
+    console.log(`✅ Ranking run finished: ${processed} processed, ${failed} failed in ${batches} batches`);
+
+    return {
+      success: true,
+      processed,
+      failed,
+      batches,
+      durationMs: Date.now() - startedAt
+    };
+  }
+}));
@@ -0,0 +1,82 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { EmbeddingService } from '../shared/services/EmbeddingService.ts';
+import { SearchService, SEARCH_THRESHOLDS } from '../shared/services/SearchService.ts';
+import { ApiError, createHandler } from '../shared/utils/handler.ts';
+
+const searchPostsQuery = {
+  q: { type: 'string', required: true, minLength: 2, maxLength: 200 },
+  scope: { type: 'string', default: 'world', enum: ['city', 'state', 'country', 'world'] },
+  city: { type: 'string' },
+  state: { type: 'string' },
+  country: { type: 'string' },
+  mode: { type: 'string', default: 'hybrid', enum: ['hybrid', 'lexical'] },
+  limit: { type: 'integer', default: 20, min: 1, max: 50, clamp: true }
+} as const;
+
+serve(createHandler({
+  name: 'Search posts',
+  methods: ['GET'],
+  rateLimit: 'search',
+  query: searchPostsQuery,
+  handler: async ({ query }) => {
+    const { q, scope, city, state, country, mode, limit } = query;
+
+    const location = { city, state, country }[scope as 'city' | 'state' | 'country'];
+    if (scope !== 'world' && !location) {
+      throw new ApiError(400, 'VALIDATION_ERROR', `${scope} is required for ${scope} scope`, [
+        { field: scope, message: `${scope} is required for ${scope} scope` }
+      ]);
+    }
+
+    // Lexical mode skips the embedding call entirely
+    let embedding: number[] | null = null;
+    let embeddingModel: string | undefined;
+    if (mode === 'hybrid') {
+      const embeddingService = new EmbeddingService();
+      const embeddingResult = await embeddingService.generateEmbedding(q);
+      if (embeddingResult.success) {
+        embedding = embeddingResult.embedding;
+        embeddingModel = embeddingResult.model;
+      } else {
+        console.warn('⚠️ Query embedding failed, searching lexically:', embeddingResult.error);
+      }
+    }
+
+    const searchService = new SearchService();
+    const result = await searchService.searchPosts({
+      query: q,
+      embedding,
+      embeddingModel,
+      scope,
+      locationCity: city,
+      locationState: state,
+      locationCountry: country,
+      limit,
+      thresholds: SEARCH_THRESHOLDS
+    });
+
+    if (!result.success) {
+      throw new ApiError(500, 'INTERNAL_ERROR', result.error || 'Search failed');
+    }
+
+    return {
+      success: true,
+      query: q,
+      mode: embedding ? 'hybrid' : 'lexical',
+      results: result.results.map(post => ({
+        id: post.id,
+        content: post.content,
+        input_type: post.input_type,
+        scope: post.scope,
+        location_city: post.location_city,
+        location_state: post.location_state,
+        location_country: post.location_country,
+        tier: post.tier,
+        percentile: post.percentile,
+        created_at: post.created_at,
+        score: post.score,
+        matched_by: post.matched_by
+      }))
+    };
+  }
+}));
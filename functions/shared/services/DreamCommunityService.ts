@@ -1,6 +1,9 @@
 /**
  * Dream Community Service
  * Manages support messages and community stats for dream matching
+ *
+ * Support messages are moderated as 'support_message' (PII blocked by default)
+ * before they wait for approval.
  */
 
 declare const Deno: any;
@@ -14,14 +17,24 @@ import {
   DreamEmotion,
   DreamSymbol
 } from '../types/DreamTypes.ts';
+import { ModerationPipeline } from './ModerationPipeline.ts';
+
+// Short replies ("hugs!", "same here") are the point of support messages
+const SUPPORT_MESSAGE_MIN_LENGTH = 2;
+const SUPPORT_MESSAGE_MAX_LENGTH = 500;
 
 export class DreamCommunityService {
   private supabase: any;
+  private moderationPipeline: ModerationPipeline;
 
   constructor() {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    this.moderationPipeline = new ModerationPipeline({
+      minLength: SUPPORT_MESSAGE_MIN_LENGTH,
+      maxLength: SUPPORT_MESSAGE_MAX_LENGTH
+    });
   }
 
   /**
@@ -31,25 +44,52 @@ export class DreamCommunityService {
     dreamId: string,
     userId: string,
     message: string
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  ): Promise<{
+    success: boolean;
+    messageId?: string;
+    error?: string;
+    rejected?: boolean;
+    moderationEventId?: string; // Set on moderation rejections; pass to appeal-moderation
+  }> {
     try {
       console.log('💝 Creating support message for dream:', dreamId);
 
+      // Trimmed before moderation so redaction spans match the stored text
+      const text = (message ?? '').trim();
+
       // Validate message
-      if (!message || message.length < 10 || message.length > 500) {
+      if (text.length < SUPPORT_MESSAGE_MIN_LENGTH || text.length > SUPPORT_MESSAGE_MAX_LENGTH) {
+        return {
+          success: false,
+          error: `Support message must be between ${SUPPORT_MESSAGE_MIN_LENGTH} and ${SUPPORT_MESSAGE_MAX_LENGTH} characters`
+        };
+      }
+
+      const moderation = await this.moderationPipeline.moderateContent(
+        text,
+        'support_message',
+        { dreamId },
+        userId
+      );
+
+      if (!moderation.approved) {
+        console.log('❌ Support message rejected by moderation:', moderation.reason);
         return {
           success: false,
-          error: 'Support message must be between 10 and 500 characters'
+          error: moderation.userMessage || moderation.reason || 'Support message rejected',
+          rejected: !moderation.flags.includes('moderation_error'),
+          moderationEventId: moderation.eventId
         };
       }
 
-      // Insert support message
+      // Insert support message (redacted when the PII policy is 'redact')
       const { data, error } = await this.supabase
         .from('dream_support_messages')
         .insert({
           dream_id: dreamId,
           user_id: userId,
-          message: message.trim(),
+          message: moderation.redaction?.text ?? text,
+          redaction_spans: moderation.redaction?.spans ?? null,
           is_approved: false // Requires approval
         })
         .select('id')
@@ -1,6 +1,8 @@
 declare const Deno: any;
 
+import { createClient } from 'npm:@supabase/supabase-js@2';
 import { EmbeddingService } from './EmbeddingService.ts';
+import { createEmbeddingProvider, EmbeddingProvider } from '../utils/embeddingProviders.ts';
 import { DreamPost, DreamEmbedding, DreamMatch, DreamEmotion, DreamSymbol } from '../types/DreamTypes.ts';
 
 /**
@@ -8,48 +10,108 @@ import { DreamPost, DreamEmbedding, DreamMatch, DreamEmotion, DreamSymbol } from
  * Combines content, symbol, and emotion embeddings for richer matching
  */
 
+// Combined-vector similarity needed to be considered at all
+const DREAM_CANDIDATE_THRESHOLD = 0.5;
+
+// Fused score needed to count as a match
+const DREAM_MATCH_THRESHOLD = 0.45;
+
 export class DreamEmbeddingService extends EmbeddingService {
+  private supabase: any;
+
+  constructor(provider: EmbeddingProvider = createEmbeddingProvider()) {
+    super(provider);
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
   
   /**
    * Generate comprehensive dream embedding
+   *
+   * Symbol and emotion embeddings are the mean of the stored vectors of the
+   * dream's dream_symbols / dream_emotions rows. The content and any names
+   * without a stored vector go to the provider in one batch. If that batch
+   * fails the content is retried alone and the missing names are left out;
+   * only a failed content embedding fails the dream.
    */
   async generateDreamEmbedding(dream: DreamPost): Promise<DreamEmbedding> {
     try {
       console.log(`🌙 Generating dream embedding for ${dream.dreamType}...`);
 
-      // Generate content embedding
-      const contentResult = await this.generateEmbedding(dream.content);
-      if (!contentResult.success) {
-        throw new Error(`Content embedding failed: ${contentResult.error}`);
-      }
-
-      // Generate symbol embedding
-      const symbolText = dream.symbols.length > 0 ? dream.symbols.join(', ') : 'general symbols';
-      const symbolResult = await this.generateEmbedding(symbolText);
-      if (!symbolResult.success) {
-        throw new Error(`Symbol embedding failed: ${symbolResult.error}`);
+      const symbols = [...new Set(dream.symbols as string[])];
+      const emotions = [...new Set(dream.emotions as string[])];
+
+      // Reuse vocabulary vectors computed for earlier dreams
+      const [storedSymbols, storedEmotions] = await Promise.all([
+        this.getVocabularyEmbeddings('dream_symbols', symbols),
+        this.getVocabularyEmbeddings('dream_emotions', emotions)
+      ]);
+
+      const missingSymbols = symbols.filter(name => !storedSymbols.has(name));
+      const missingEmotions = emotions.filter(name => !storedEmotions.has(name));
+
+      const newSymbolEmbeddings: Record<string, number[]> = {};
+      const newEmotionEmbeddings: Record<string, number[]> = {};
+      let contentEmbedding: number[];
+
+      // One provider call: content first, then the missing vocabulary
+      const batchResult = await this.generateBatchEmbeddings([
+        dream.content,
+        ...missingSymbols,
+        ...missingEmotions
+      ]);
+
+      if (batchResult.success) {
+        const [content, ...vocabulary] = batchResult.embeddings;
+        contentEmbedding = content;
+        missingSymbols.forEach((name, i) => {
+          newSymbolEmbeddings[name] = vocabulary[i];
+        });
+        missingEmotions.forEach((name, i) => {
+          newEmotionEmbeddings[name] = vocabulary[missingSymbols.length + i];
+        });
+      } else {
+        console.warn(
+          `⚠️ Dream batch embedding failed (${batchResult.errors?.join(', ')}), ` +
+          `retrying content alone without ${missingSymbols.length + missingEmotions.length} vocabulary terms`
+        );
+        const contentResult = await this.generateEmbedding(dream.content);
+        if (!contentResult.success) {
+          throw new Error(`Content embedding failed: ${contentResult.error}`);
+        }
+        contentEmbedding = contentResult.embedding;
       }
 
-      // Generate emotion embedding
-      const emotionText = dream.emotions.length > 0 ? dream.emotions.join(', ') : 'neutral emotions';
-      const emotionResult = await this.generateEmbedding(emotionText);
-      if (!emotionResult.success) {
-        throw new Error(`Emotion embedding failed: ${emotionResult.error}`);
-      }
+      const symbolEmbedding = this.averageEmbeddings([
+        ...storedSymbols.values(),
+        ...Object.values(newSymbolEmbeddings)
+      ]);
+      const emotionEmbedding = this.averageEmbeddings([
+        ...storedEmotions.values(),
+        ...Object.values(newEmotionEmbeddings)
+      ]);
 
       // Combine embeddings using weighted average
       const combinedEmbedding = this.combineDreamEmbeddings(
-        contentResult.embedding,
-        symbolResult.embedding,
-        emotionResult.embedding,
+        contentEmbedding,
+        symbolEmbedding,
+        emotionEmbedding,
         dream.dreamType
       );
 
+      console.log(
+        `✅ Dream embedding: ${storedSymbols.size + storedEmotions.size} stored vocabulary vectors, ` +
+        `${Object.keys(newSymbolEmbeddings).length + Object.keys(newEmotionEmbeddings).length} new`
+      );
+
       return {
-        contentEmbedding: contentResult.embedding,
-        symbolEmbedding: symbolResult.embedding,
-        emotionEmbedding: emotionResult.embedding,
-        combinedEmbedding: combinedEmbedding
+        contentEmbedding,
+        symbolEmbedding,
+        emotionEmbedding,
+        combinedEmbedding,
+        newSymbolEmbeddings,
+        newEmotionEmbeddings
       };
 
     } catch (error) {
@@ -58,8 +120,131 @@ export class DreamEmbeddingService extends EmbeddingService {
     }
   }
 
+  /**
+   * Stored vectors of the named vocabulary rows for the current model, from
+   * the live column or (during an embedding backfill) the shadow column
+   */
+  private async getVocabularyEmbeddings(
+    table: 'dream_symbols' | 'dream_emotions',
+    names: string[]
+  ): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    if (names.length === 0) {
+      return found;
+    }
+
+    const { data, error } = await this.supabase
+      .from(table)
+      .select('name, embedding, embedding_model, embedding_next')
+      .in('name', names)
+      .or(`embedding_model.eq."${this.modelTag}",embedding_next_model.eq."${this.modelTag}"`);
+
+    if (error) {
+      // Treated as missing: the names are embedded again
+      console.error(`❌ Failed to load ${table} embeddings:`, error);
+      return found;
+    }
+
+    for (const row of data || []) {
+      const embedding = row.embedding_model === this.modelTag ? row.embedding : row.embedding_next;
+      if (embedding) {
+        // pgvector values arrive as "[0.1,0.2,...]"
+        found.set(row.name, typeof embedding === 'string' ? JSON.parse(embedding) : embedding);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Embed up to batchSize dream_symbols and dream_emotions rows that have no
+   * vector for the current model, so dreams reuse them instead of filling
+   * them one name at a time. Rows drop out of the selection once written;
+   * call again until done.
+   */
+  async backfillVocabulary(batchSize: number = 100): Promise<{
+    success: boolean;
+    embedded: number;
+    failed: number;
+    done: boolean;
+    error?: string;
+  }> {
+    let embedded = 0;
+    let failed = 0;
+    let done = true;
+
+    for (const table of ['dream_symbols', 'dream_emotions'] as const) {
+      const { data: rows, error } = await this.supabase
+        .from(table)
+        .select('id, name')
+        .or(`embedding.is.null,embedding_model.is.null,embedding_model.neq."${this.modelTag}"`)
+        .order('id')
+        .limit(batchSize);
+
+      if (error) {
+        console.error(`❌ Failed to load ${table} without embeddings:`, error);
+        return { success: false, embedded, failed, done: false, error: `Failed to load ${table}` };
+      }
+
+      if (!rows || rows.length === 0) {
+        continue;
+      }
+
+      const result = await this.generateBatchEmbeddings(rows.map((row: { name: string }) => row.name));
+      if (!result.success) {
+        return { success: false, embedded, failed: failed + rows.length, done: false, error: result.errors?.join(', ') };
+      }
+
+      const saved = await Promise.all(rows.map(async (row: { id: string }, i: number) => {
+        const { error: updateError } = await this.supabase
+          .from(table)
+          .update({ embedding: result.embeddings[i], embedding_model: this.modelTag })
+          .eq('id', row.id);
+
+        if (updateError) {
+          console.error(`❌ Failed to save ${table} embedding:`, row.id, updateError);
+        }
+        return !updateError;
+      }));
+
+      const tableEmbedded = saved.filter(Boolean).length;
+      embedded += tableEmbedded;
+      failed += rows.length - tableEmbedded;
+      // A full batch may have more behind it; a batch that saved nothing would repeat forever
+      if (rows.length === batchSize && tableEmbedded > 0) {
+        done = false;
+      }
+    }
+
+    console.log(`📚 Vocabulary backfill: ${embedded} embedded, ${failed} failed`);
+    return { success: true, embedded, failed, done };
+  }
+
+  /**
+   * Normalized mean of the given vectors; null when there are none
+   */
+  private averageEmbeddings(embeddings: number[][]): number[] | null {
+    if (embeddings.length === 0) {
+      return null;
+    }
+
+    const sum = new Array(embeddings[0].length).fill(0);
+    for (const embedding of embeddings) {
+      for (let i = 0; i < sum.length; i++) {
+        sum[i] += embedding[i];
+      }
+    }
+
+    return this.normalizeEmbedding(sum);
+  }
+
   /**
    * Find similar dreams using multiple matching strategies
+   *
+   * Candidates come from match_dreams_by_embedding (combined vector). Each is
+   * scored by fusing content similarity with Jaccard overlap of its symbols
+   * and emotions (dream_post_symbols / dream_post_emotions), weighted by the
+   * dream type's weights, and kept when the fused score reaches DREAM_MATCH_THRESHOLD.
    */
   async findSimilarDreams(
     dreamEmbedding: DreamEmbedding,
@@ -69,17 +254,84 @@ export class DreamEmbeddingService extends EmbeddingService {
     try {
       console.log(`🔍 Finding similar dreams...`);
 
-      // This would typically query the database for similar embeddings
-      // For now, we'll return a mock result structure
-      const matches: DreamMatch[] = [];
+      // 1. Vector candidates, over-fetched so re-ranking has room to work
+      const { data: candidates, error } = await this.supabase.rpc('match_dreams_by_embedding', {
+        query_embedding: dreamEmbedding.combinedEmbedding,
+        query_content_embedding: dreamEmbedding.contentEmbedding,
+        match_threshold: DREAM_CANDIDATE_THRESHOLD,
+        match_count: limit * 3,
+        dream_type_filter: null, // Other dream types can match; same type gets a bonus
+        scope_filter: dream.scope,
+        query_embedding_model: this.modelTag
+      });
+
+      if (error) {
+        console.error('❌ Similar dreams query error:', error);
+        return [];
+      }
 
-      // In a real implementation, you would:
-      // 1. Query the database for posts with similar combined embeddings
-      // 2. Calculate similarity scores for each match
-      // 3. Identify shared symbols and emotions
-      // 4. Return ranked results
+      if (!candidates || candidates.length === 0) {
+        return [];
+      }
 
-      return matches;
+      // 2. Symbols and emotions of every candidate
+      const ids = candidates.map((candidate: any) => candidate.id);
+      const [symbolsByDream, emotionsByDream] = await Promise.all([
+        this.getDreamVocabulary('dream_post_symbols', 'dream_symbols', ids),
+        this.getDreamVocabulary('dream_post_emotions', 'dream_emotions', ids)
+      ]);
+
+      // 3. Fuse signals
+      const weights = this.getDreamTypeWeights(dream.dreamType);
+      const symbols = [...new Set(dream.symbols as string[])];
+      const emotions = [...new Set(dream.emotions as string[])];
+      const matches: DreamMatch[] = candidates.map((candidate: any) => {
+        const candidateSymbols = symbolsByDream.get(candidate.id) || [];
+        const candidateEmotions = emotionsByDream.get(candidate.id) || [];
+
+        const signals = {
+          content: Math.max(0, candidate.content_similarity ?? candidate.similarity),
+          symbol: this.jaccard(
+            this.calculateSymbolOverlap(symbols, candidateSymbols),
+            symbols.length,
+            candidateSymbols.length
+          ),
+          emotion: this.jaccard(
+            this.calculateEmotionOverlap(emotions, candidateEmotions),
+            emotions.length,
+            candidateEmotions.length
+          )
+        };
+
+        const contributions = {
+          content: signals.content * weights.content,
+          symbol: signals.symbol * weights.symbol,
+          emotion: signals.emotion * weights.emotion
+        };
+        const typeBonus = candidate.dream_type === dream.dreamType ? 0.05 : 0;
+        const similarity = Math.min(1.0, contributions.content + contributions.symbol + contributions.emotion + typeBonus);
+
+        const sharedSymbols = this.sharedNames(symbols, candidateSymbols) as DreamSymbol[];
+        const sharedEmotions = this.sharedNames(emotions, candidateEmotions) as DreamEmotion[];
+
+        return {
+          postId: candidate.id,
+          similarity: Math.round(similarity * 1000) / 1000,
+          matchType: this.dominantSignal(contributions),
+          sharedSymbols,
+          sharedEmotions,
+          signals,
+          explanation: this.explainMatch(signals.content, sharedSymbols, sharedEmotions, typeBonus > 0)
+        };
+      });
+
+      const ranked = matches
+        .filter(match => match.similarity >= DREAM_MATCH_THRESHOLD)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+
+      console.log(`✅ Found ${ranked.length} similar dreams (${candidates.length} candidates)`);
+      return ranked;
 
     } catch (error) {
       console.error('❌ Dream matching failed:', error);
@@ -87,13 +339,99 @@ export class DreamEmbeddingService extends EmbeddingService {
     }
   }
 
+  /**
+   * Symbol or emotion names per dream, from a junction table
+   */
+  private async getDreamVocabulary(
+    junction: 'dream_post_symbols' | 'dream_post_emotions',
+    table: 'dream_symbols' | 'dream_emotions',
+    dreamIds: string[]
+  ): Promise<Map<string, string[]>> {
+    const byDream = new Map<string, string[]>();
+
+    const { data, error } = await this.supabase
+      .from(junction)
+      .select(`dream_post_id, ${table}(name)`)
+      .in('dream_post_id', dreamIds);
+
+    if (error) {
+      // Overlap then scores as zero; content similarity still ranks the match
+      console.error(`❌ Failed to load ${junction}:`, error);
+      return byDream;
+    }
+
+    for (const row of data || []) {
+      const name = row[table]?.name;
+      if (!name) continue;
+      const names = byDream.get(row.dream_post_id) || [];
+      names.push(name);
+      byDream.set(row.dream_post_id, names);
+    }
+
+    return byDream;
+  }
+
+  /**
+   * Jaccard index from an overlap count and both set sizes
+   */
+  private jaccard(overlap: number, size1: number, size2: number): number {
+    const union = size1 + size2 - overlap;
+    return union > 0 ? overlap / union : 0;
+  }
+
+  /**
+   * Names present in both lists
+   */
+  private sharedNames(names1: string[], names2: string[]): string[] {
+    const set2 = new Set(names2);
+    return [...new Set(names1)].filter(name => set2.has(name));
+  }
+
+  /**
+   * The signal contributing more than half of the score, or 'combined'
+   */
+  private dominantSignal(contributions: { content: number; symbol: number; emotion: number }): DreamMatch['matchType'] {
+    const total = contributions.content + contributions.symbol + contributions.emotion;
+    const [signal, value] = Object.entries(contributions).sort((a, b) => b[1] - a[1])[0];
+    return total > 0 && value / total > 0.5 ? signal as DreamMatch['matchType'] : 'combined';
+  }
+
+  /**
+   * Human-readable reason for a match
+   */
+  private explainMatch(
+    contentSimilarity: number,
+    sharedSymbols: string[],
+    sharedEmotions: string[],
+    sameType: boolean
+  ): string {
+    const reasons: string[] = [];
+
+    if (contentSimilarity >= 0.85) {
+      reasons.push('very similar story');
+    } else if (contentSimilarity >= 0.7) {
+      reasons.push('similar story');
+    }
+    if (sharedSymbols.length > 0) {
+      reasons.push(`shared symbols: ${sharedSymbols.join(', ')}`);
+    }
+    if (sharedEmotions.length > 0) {
+      reasons.push(`shared emotions: ${sharedEmotions.join(', ')}`);
+    }
+    if (sameType) {
+      reasons.push('same dream type');
+    }
+
+    return reasons.length > 0 ? reasons.join('; ') : 'related themes';
+  }
+
   /**
    * Combine multiple embeddings with weights based on dream type
    */
   private combineDreamEmbeddings(
     contentEmbedding: number[],
-    symbolEmbedding: number[],
-    emotionEmbedding: number[],
+    symbolEmbedding: number[] | null,
+    emotionEmbedding: number[] | null,
     dreamType: string
   ): number[] {
     // Define weights based on dream type
@@ -104,11 +442,11 @@ export class DreamEmbeddingService extends EmbeddingService {
     for (let i = 0; i < contentEmbedding.length; i++) {
       combined[i] = 
         contentEmbedding[i] * weights.content +
-        symbolEmbedding[i] * weights.symbol +
-        emotionEmbedding[i] * weights.emotion;
+        (symbolEmbedding ? symbolEmbedding[i] * weights.symbol : 0) +
+        (emotionEmbedding ? emotionEmbedding[i] * weights.emotion : 0);
     }
 
-    // Normalize the combined embedding
+    // Normalize the combined embedding (a missing part's weight is spread over the rest)
     return this.normalizeEmbedding(combined);
   }
 
@@ -175,7 +513,7 @@ export class DreamEmbeddingService extends EmbeddingService {
   /**
    * Calculate symbol overlap between two dreams
    */
-  private calculateSymbolOverlap(symbols1: DreamSymbol[], symbols2: DreamSymbol[]): number {
+  private calculateSymbolOverlap(symbols1: string[], symbols2: string[]): number {
     const set1 = new Set(symbols1);
     const set2 = new Set(symbols2);
     const intersection = new Set([...set1].filter(x => set2.has(x)));
@@ -185,7 +523,7 @@ export class DreamEmbeddingService extends EmbeddingService {
   /**
    * Calculate emotion overlap between two dreams
    */
-  private calculateEmotionOverlap(emotions1: DreamEmotion[], emotions2: DreamEmotion[]): number {
+  private calculateEmotionOverlap(emotions1: string[], emotions2: string[]): number {
     const set1 = new Set(emotions1);
     const set2 = new Set(emotions2);
     const intersection = new Set([...set1].filter(x => set2.has(x)));
@@ -1,10 +1,11 @@
 declare const Deno: any;
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { DreamPost, CreateDreamRequest, DreamPostResult, DreamMatch, DreamAnalytics } from '../types/DreamTypes.ts';
+import { DreamPost, CreateDreamRequest, DreamPostResult, DreamAnalytics, DreamPostFilters } from '../types/DreamTypes.ts';
 import { DreamEmbeddingService } from './DreamEmbeddingService.ts';
 import { ModerationPipeline } from './ModerationPipeline.ts';
 import { PercentileService } from './PercentileService.ts';
+import { buildCursorPage, decodeCursor, keysetFilter } from '../utils/pagination.ts';
 
 /**
  * Dream Post Service
@@ -43,7 +44,8 @@ export class DreamPostService {
       if (!validation.valid) {
         return {
           success: false,
-          error: validation.error
+          error: validation.error,
+          rejected: true
         };
       }
 
@@ -51,16 +53,33 @@ export class DreamPostService {
       const moderation = await this.moderationPipeline.moderateContent(
         request.content,
         'dream',
-        { dreamType: request.dreamType, emotions: request.emotions, symbols: request.symbols }
+        { dreamType: request.dreamType, emotions: request.emotions, symbols: request.symbols },
+        request.userId
       );
 
+      // Dreams have no review queue, so a held dream is refused like fail_closed
+      if (moderation.held || (!moderation.approved && moderation.flags.includes('moderation_error'))) {
+        return {
+          success: false,
+          error: "We couldn't check your dream right now. Please try again in a moment.",
+          unavailable: true
+        };
+      }
+
       if (!moderation.approved) {
         return {
           success: false,
-          error: `Content rejected: ${moderation.reason}`
+          error: `Content rejected: ${moderation.reason}`,
+          rejected: true,
+          moderationEventId: moderation.eventId
         };
       }
 
+      // Personal information is redacted before anything is extracted, embedded or stored
+      if (moderation.redaction) {
+        request = { ...request, content: moderation.redaction.text };
+      }
+
       // Auto-extract symbols and emotions if not provided
       let symbols = request.symbols;
       let emotions = request.emotions;
@@ -126,18 +145,18 @@ export class DreamPostService {
         symbols: processedSymbols,   // Use processed symbols
         clarity: request.clarity,
         interpretation: request.interpretation,
-        isAnonymous: request.isAnonymous || false,
+        isAnonymous: request.isAnonymous || !request.userId,
         scope: request.scope,
         locationCity: request.locationCity,
         locationState: request.locationState,
         locationCountry: request.locationCountry,
-        userId: undefined // For now, use undefined for anonymous posts
+        userId: request.userId || undefined
       };
 
       const dreamEmbedding = await this.embeddingService.generateDreamEmbedding(dreamPost);
 
       // Find similar dreams
-      const similarDreams = await this.findSimilarDreams(dreamEmbedding, dreamPost);
+      const similarDreams = await this.embeddingService.findSimilarDreams(dreamEmbedding, dreamPost);
 
       // Calculate percentile and tier
       const percentileResult = await this.percentileService.calculateDreamPercentile(
@@ -150,6 +169,7 @@ export class DreamPostService {
         .from('dream_posts')
         .insert({
           content: dreamPost.content,
+          redaction_spans: moderation.redaction?.spans ?? null,
           dream_type: dreamPost.dreamType,
           clarity: dreamPost.clarity,
           interpretation: dreamPost.interpretation,
@@ -163,6 +183,7 @@ export class DreamPostService {
           symbol_embedding: dreamEmbedding.symbolEmbedding,
           emotion_embedding: dreamEmbedding.emotionEmbedding,
           combined_embedding: dreamEmbedding.combinedEmbedding,
+          embedding_model: this.embeddingService.modelTag,
           tier: percentileResult.tier,
           percentile: percentileResult.percentile,
           match_count: similarDreams.length
@@ -182,7 +203,10 @@ export class DreamPostService {
       for (const symbolName of processedSymbols) {
         const { data: symbolIdData, error: symbolError } = await this.supabase.rpc('get_or_create_symbol', {
           symbol_name: symbolName,
-          symbol_category: 'general' // AI can provide this later
+          symbol_category: 'general', // AI can provide this later
+          // Store the vector embedded for this dream so later dreams reuse it
+          symbol_embedding: dreamEmbedding.newSymbolEmbeddings[symbolName] ?? null,
+          symbol_embedding_model: this.embeddingService.modelTag
         });
         if (symbolError) {
           console.error('Error getting or creating symbol:', symbolError);
@@ -197,7 +221,9 @@ export class DreamPostService {
       for (const emotionName of processedEmotions) {
         const { data: emotionIdData, error: emotionError } = await this.supabase.rpc('get_or_create_emotion', {
           emotion_name: emotionName,
-          intensity: 5 // AI can provide this later
+          intensity: 5, // AI can provide this later
+          emotion_embedding: dreamEmbedding.newEmotionEmbeddings[emotionName] ?? null,
+          emotion_embedding_model: this.embeddingService.modelTag
         });
         if (emotionError) {
           console.error('Error getting or creating emotion:', emotionError);
@@ -220,6 +246,7 @@ export class DreamPostService {
           ...postData,
           symbols: processedSymbols,
           emotions: processedEmotions,
+          redactions: postData.redaction_spans ?? undefined,
           dreamMatches: similarDreams,
           displayText: percentileResult.displayText,
           badge: percentileResult.badge,
@@ -238,49 +265,6 @@ export class DreamPostService {
     }
   }
 
-  /**
-   * Find similar dreams using vector similarity
-   */
-  private async findSimilarDreams(
-    dreamEmbedding: any,
-    dreamPost: DreamPost,
-    limit: number = 10
-  ): Promise<DreamMatch[]> {
-    try {
-      // Query for similar dreams using vector similarity
-      const { data: similarPosts, error } = await this.supabase.rpc(
-        'match_dreams_by_embedding',
-        {
-          query_embedding: dreamEmbedding.combinedEmbedding,
-          match_threshold: 0.7,
-          match_count: limit,
-          dream_type: dreamPost.dreamType,
-          scope: dreamPost.scope
-        }
-      );
-
-      if (error) {
-        console.error('❌ Similar dreams query error:', error);
-        return [];
-      }
-
-      // Convert to DreamMatch format
-      const matches: DreamMatch[] = similarPosts.map((post: any) => ({
-        postId: post.id,
-        similarity: post.similarity,
-        matchType: 'combined' as const,
-        sharedSymbols: this.findSharedSymbols(dreamPost.symbols, post.symbols),
-        sharedEmotions: this.findSharedEmotions(dreamPost.emotions, post.emotions)
-      }));
-
-      return matches;
-
-    } catch (error) {
-      console.error('❌ Find similar dreams failed:', error);
-      return [];
-    }
-  }
-
   /**
    * Map AI-extracted symbols to our enum format
    */
@@ -559,24 +543,6 @@ export class DreamPostService {
     return { valid: true };
   }
 
-  /**
-   * Find shared symbols between two dreams
-   */
-  private findSharedSymbols(symbols1: string[], symbols2: string[]): string[] {
-    const set1 = new Set(symbols1);
-    const set2 = new Set(symbols2);
-    return [...set1].filter(symbol => set2.has(symbol));
-  }
-
-  /**
-   * Find shared emotions between two dreams
-   */
-  private findSharedEmotions(emotions1: string[], emotions2: string[]): string[] {
-    const set1 = new Set(emotions1);
-    const set2 = new Set(emotions2);
-    return [...set1].filter(emotion => set2.has(emotion));
-  }
-
   /**
    * Get dream analytics
    */
@@ -621,19 +587,32 @@ export class DreamPostService {
   }
 
   /**
-   * Fetch dream posts with filters
+   * Fetch dream posts with filters.
+   * Pass `cursor` (keyset, newest first); `offset` is the deprecated offset mode.
    */
-  async fetchDreamPosts(filters: {
-    dreamType?: string;
-    scope?: string;
-    limit?: number;
-    offset?: number;
-  } = {}): Promise<{ success: boolean; posts?: any[]; error?: string }> {
+  async fetchDreamPosts(filters: DreamPostFilters = {}): Promise<{
+    success: boolean;
+    posts?: any[];
+    nextCursor?: string | null;
+    hasNext?: boolean;
+    total?: number; // Offset mode only
+    error?: string;
+  }> {
     try {
+      const limit = filters.limit || 10;
+      const { offset } = filters;
+      const offsetMode = offset !== undefined && !filters.cursor;
+      const cursor = filters.cursor ? decodeCursor(filters.cursor) : null;
+
+      if (filters.cursor && !cursor) {
+        return { success: false, error: 'Invalid cursor' };
+      }
+
       let query = this.supabase
         .from('dream_posts')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('*', offsetMode ? { count: 'exact' } : undefined)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false });
 
       if (filters.dreamType) {
         query = query.eq('dream_type', filters.dreamType);
@@ -643,15 +622,17 @@ export class DreamPostService {
         query = query.eq('scope', filters.scope);
       }
 
-      if (filters.limit) {
-        query = query.limit(filters.limit);
-      }
-
-      if (filters.offset) {
-        query = query.range(filters.offset, filters.offset + (filters.limit || 10) - 1);
+      if (offsetMode) {
+        query = query.range(offset, offset + limit - 1);
+      } else {
+        if (cursor) {
+          query = query.or(keysetFilter(cursor));
+        }
+        // One extra row tells us whether there is a next page
+        query = query.limit(limit + 1);
       }
 
-      const { data: posts, error } = await query;
+      const { data: posts, error, count } = await query;
 
       if (error) {
         console.error('❌ Fetch dream posts error:', error);
@@ -661,9 +642,21 @@ export class DreamPostService {
         };
       }
 
+      const total = offsetMode ? count || 0 : undefined;
+      const page = offsetMode
+        ? { items: posts || [], nextCursor: null, hasNext: offset + (posts?.length || 0) < (total || 0) }
+        : buildCursorPage(posts || [], limit);
+
+      // Anonymous dreams keep their owner in the DB but never expose it
       return {
         success: true,
-        posts: posts || []
+        posts: page.items.map((post: any) => ({
+          ...post,
+          user_id: post.is_anonymous ? null : post.user_id
+        })),
+        nextCursor: page.nextCursor,
+        hasNext: page.hasNext,
+        total
       };
 
     } catch (error) {
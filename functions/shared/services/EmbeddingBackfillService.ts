@@ -0,0 +1,464 @@
+/**
+ * Embedding Backfill Service - Re-embedding With a New Model
+ *
+ * Re-embeds posts and dream posts with the model configured by
+ * EMBEDDING_NEXT_PROVIDER / _MODEL / _DIMENSIONS into shadow columns, one
+ * batch at a time. Progress lives in embedding_backfill_jobs, so a run can
+ * stop anywhere and the next one resumes from the job's cursors. Once every
+ * row is covered the job is 'ready' and cutover() swaps the columns
+ * atomically (migration 027). Driven by the backfill-embeddings function.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { EmbeddingService } from './EmbeddingService.ts';
+import { DreamEmbeddingService } from './DreamEmbeddingService.ts';
+import {
+  createEmbeddingProvider,
+  embeddingModelTag,
+  EmbeddingProvider
+} from '../utils/embeddingProviders.ts';
+import { DreamPost } from '../types/DreamTypes.ts';
+
+export type BackfillStatus = 'running' | 'ready' | 'completed' | 'cancelled';
+
+export interface BackfillJob {
+  id: string;
+  target_model: string;
+  status: BackfillStatus;
+  phase: 'posts' | 'dreams';
+  posts_cursor: string | null;
+  dreams_cursor: string | null;
+  passes: number;
+  embedded_count: number;
+  failed_count: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface BackfillCoverage {
+  postsTotal: number;
+  postsRemaining: number;
+  dreamsTotal: number;
+  dreamsRemaining: number;
+  percent: number; // Share of rows with a target-model vector (0-100)
+}
+
+export interface BackfillBatchResult {
+  success: boolean;
+  job?: BackfillJob;
+  embedded: number;
+  failed: number;
+  done: boolean; // No running job left to work on
+  error?: string;
+}
+
+export interface CutoverResult {
+  success: boolean;
+  swapped: boolean;
+  postsSwapped: number;
+  dreamsSwapped: number;
+  rowsRemaining: number;
+  error?: string;
+}
+
+interface BatchOutcome {
+  lastId: string | null; // null when no rows were left after the cursor
+  embedded: number;
+  failed: number;
+  error?: string;
+}
+
+export class EmbeddingBackfillService {
+  private supabase: any;
+  private provider?: EmbeddingProvider;
+  private targetServices?: { posts: EmbeddingService; dreams: DreamEmbeddingService };
+
+  constructor(provider?: EmbeddingProvider) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    this.provider = provider;
+  }
+
+  /**
+   * Start a job for the configured target model
+   */
+  async startJob(): Promise<{ success: boolean; job?: BackfillJob; error?: string }> {
+    let targetModel: string;
+    try {
+      targetModel = this.getTargetServices().posts.modelTag;
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const active = await this.getActiveJob();
+    if (active) {
+      return { success: false, job: active, error: 'A backfill job is already active' };
+    }
+
+    const { data, error } = await this.supabase
+      .from('embedding_backfill_jobs')
+      .insert({ target_model: targetModel })
+      .select()
+      .single();
+
+    if (error) {
+      // Unique index on active jobs: another start won the race
+      if (error.code === '23505') {
+        return { success: false, error: 'A backfill job is already active' };
+      }
+      console.error('❌ Failed to start backfill job:', error);
+      return { success: false, error: 'Failed to start backfill job' };
+    }
+
+    console.log(`🚚 Embedding backfill started: ${data.id} → ${targetModel}`);
+    return { success: true, job: data };
+  }
+
+  /**
+   * Process one batch of the running job
+   */
+  async runBatch(batchSize: number = 100): Promise<BackfillBatchResult> {
+    try {
+      const job = await this.getActiveJob();
+      if (!job || job.status !== 'running') {
+        return { success: true, job: job ?? undefined, embedded: 0, failed: 0, done: true };
+      }
+
+      const { posts: postEmbeddings } = this.getTargetServices();
+      if (postEmbeddings.modelTag !== job.target_model) {
+        return {
+          success: false,
+          job,
+          embedded: 0,
+          failed: 0,
+          done: true,
+          error: `Job targets ${job.target_model} but EMBEDDING_NEXT_* configures ${postEmbeddings.modelTag}`
+        };
+      }
+
+      const result = job.phase === 'posts'
+        ? await this.backfillPosts(job, batchSize)
+        : await this.backfillDreams(job, batchSize);
+
+      if (result.lastId === null) {
+        // Phase exhausted
+        return job.phase === 'posts'
+          ? { ...(await this.updateJob(job, { phase: 'dreams' })), embedded: 0, failed: 0 }
+          : { ...(await this.finishPass(job)), embedded: 0, failed: 0 };
+      }
+
+      const updated = await this.updateJob(job, {
+        [job.phase === 'posts' ? 'posts_cursor' : 'dreams_cursor']: result.lastId,
+        embedded_count: job.embedded_count + result.embedded,
+        failed_count: job.failed_count + result.failed,
+        ...(result.error ? { last_error: result.error } : {})
+      });
+
+      console.log(`🚚 Backfilled ${job.phase}: ${result.embedded} embedded, ${result.failed} failed`);
+      return { ...updated, embedded: result.embedded, failed: result.failed };
+
+    } catch (error) {
+      console.error('❌ Embedding backfill batch error:', error);
+      return {
+        success: false,
+        embedded: 0,
+        failed: 0,
+        done: true,
+        error: error instanceof Error ? error.message : 'Embedding backfill batch failed'
+      };
+    }
+  }
+
+  /**
+   * Swap shadow and live vectors for a ready job
+   */
+  async cutover(jobId: string): Promise<CutoverResult> {
+    const { data, error } = await this.supabase.rpc('cutover_embedding_backfill', { p_job_id: jobId });
+
+    if (error) {
+      console.error('❌ Embedding cutover error:', error);
+      return { success: false, swapped: false, postsSwapped: 0, dreamsSwapped: 0, rowsRemaining: 0, error: error.message };
+    }
+
+    const row = data?.[0] ?? {};
+    const result: CutoverResult = {
+      success: true,
+      swapped: !!row.swapped,
+      postsSwapped: row.posts_swapped ?? 0,
+      dreamsSwapped: row.dreams_swapped ?? 0,
+      rowsRemaining: Number(row.rows_remaining ?? 0)
+    };
+
+    console.log(result.swapped
+      ? `✅ Embedding cutover done: ${result.postsSwapped} posts, ${result.dreamsSwapped} dreams`
+      : `⚠️ Embedding cutover deferred: ${result.rowsRemaining} rows still need the target model`);
+
+    return result;
+  }
+
+  /**
+   * Cancel the active job (shadow vectors already written are kept)
+   */
+  async cancel(): Promise<{ success: boolean; job?: BackfillJob; error?: string }> {
+    const job = await this.getActiveJob();
+    if (!job) {
+      return { success: false, error: 'No active backfill job' };
+    }
+
+    const result = await this.updateJob(job, { status: 'cancelled', completed_at: new Date().toISOString() });
+    return { success: result.success, job: result.job, error: result.error };
+  }
+
+  /**
+   * A job (the active or most recent one by default) and its coverage
+   */
+  async getStatus(jobId?: string): Promise<{ success: boolean; job?: BackfillJob; coverage?: BackfillCoverage; error?: string }> {
+    let query = this.supabase.from('embedding_backfill_jobs').select('*');
+    query = jobId ? query.eq('id', jobId) : query.order('created_at', { ascending: false }).limit(1);
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to load backfill job:', error);
+      return { success: false, error: 'Failed to load backfill job' };
+    }
+
+    if (!data) {
+      return { success: false, error: 'Backfill job not found' };
+    }
+
+    const coverage = await this.getCoverage(data.target_model);
+    return { success: true, job: data, coverage: coverage ?? undefined };
+  }
+
+  /**
+   * How many rows still lack a vector for the target model
+   */
+  async getCoverage(targetModel: string): Promise<BackfillCoverage | null> {
+    const { data, error } = await this.supabase.rpc('embedding_backfill_coverage', {
+      p_target_model: targetModel
+    });
+
+    if (error || !data?.[0]) {
+      console.error('❌ Failed to compute backfill coverage:', error);
+      return null;
+    }
+
+    const row = data[0];
+    const total = Number(row.posts_total) + Number(row.dreams_total);
+    const remaining = Number(row.posts_remaining) + Number(row.dreams_remaining);
+
+    return {
+      postsTotal: Number(row.posts_total),
+      postsRemaining: Number(row.posts_remaining),
+      dreamsTotal: Number(row.dreams_total),
+      dreamsRemaining: Number(row.dreams_remaining),
+      percent: total > 0 ? Math.floor(((total - remaining) / total) * 10000) / 100 : 100
+    };
+  }
+
+  /**
+   * Embed a batch of posts after the cursor into the shadow column
+   */
+  private async backfillPosts(job: BackfillJob, batchSize: number): Promise<BatchOutcome> {
+    const { data: rows, error } = await this.supabase.rpc('get_posts_needing_reembedding', {
+      p_target_model: job.target_model,
+      p_after: job.posts_cursor,
+      p_limit: batchSize
+    });
+
+    if (error) {
+      throw new Error(`Failed to load posts: ${error.message}`);
+    }
+
+    if (!rows || rows.length === 0) {
+      return { lastId: null, embedded: 0, failed: 0 };
+    }
+
+    const lastId = rows[rows.length - 1].id;
+    const { posts } = this.getTargetServices();
+    const result = await posts.generateBatchEmbeddings(rows.map((row: any) => row.content));
+
+    // The whole batch is skipped; the next pass retries it
+    if (!result.success) {
+      return { lastId, embedded: 0, failed: rows.length, error: result.errors?.join(', ') };
+    }
+
+    const saved = await Promise.all(rows.map(async (row: any, i: number) => {
+      const { error: updateError } = await this.supabase
+        .from('posts')
+        .update({ embedding_next: result.embeddings[i], embedding_next_model: job.target_model })
+        .eq('id', row.id);
+
+      if (updateError) {
+        console.error('❌ Failed to save backfilled embedding for post:', row.id, updateError);
+      }
+      return !updateError;
+    }));
+
+    const embedded = saved.filter(Boolean).length;
+    return { lastId, embedded, failed: rows.length - embedded };
+  }
+
+  /**
+   * Embed a batch of dream posts after the cursor into the shadow columns
+   */
+  private async backfillDreams(job: BackfillJob, batchSize: number): Promise<BatchOutcome> {
+    const { data: rows, error } = await this.supabase.rpc('get_dreams_needing_reembedding', {
+      p_target_model: job.target_model,
+      p_after: job.dreams_cursor,
+      p_limit: batchSize
+    });
+
+    if (error) {
+      throw new Error(`Failed to load dream posts: ${error.message}`);
+    }
+
+    if (!rows || rows.length === 0) {
+      return { lastId: null, embedded: 0, failed: 0 };
+    }
+
+    const { dreams } = this.getTargetServices();
+    let embedded = 0;
+    let lastError: string | undefined;
+
+    for (const row of rows) {
+      try {
+        // Reuses symbol / emotion vectors shadowed by earlier dreams
+        const dreamEmbedding = await dreams.generateDreamEmbedding({
+          content: row.content,
+          dreamType: row.dream_type,
+          symbols: row.symbols,
+          emotions: row.emotions,
+          scope: row.scope
+        } as DreamPost);
+
+        const { error: updateError } = await this.supabase
+          .from('dream_posts')
+          .update({
+            content_embedding_next: dreamEmbedding.contentEmbedding,
+            symbol_embedding_next: dreamEmbedding.symbolEmbedding,
+            emotion_embedding_next: dreamEmbedding.emotionEmbedding,
+            combined_embedding_next: dreamEmbedding.combinedEmbedding,
+            embedding_next_model: job.target_model
+          })
+          .eq('id', row.id);
+
+        if (updateError) {
+          throw new Error(updateError.message);
+        }
+        embedded++;
+
+        await this.saveVocabularyShadows('dream_symbols', dreamEmbedding.newSymbolEmbeddings, job.target_model);
+        await this.saveVocabularyShadows('dream_emotions', dreamEmbedding.newEmotionEmbeddings, job.target_model);
+      } catch (error) {
+        console.error('❌ Failed to backfill dream post:', row.id, error);
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return { lastId: rows[rows.length - 1].id, embedded, failed: rows.length - embedded, error: lastError };
+  }
+
+  /**
+   * Store target-model vocabulary vectors in the shadow columns so each term
+   * is embedded once per backfill (swapped in by cutover, migration 040).
+   * A failure only costs re-embedding the term for a later dream.
+   */
+  private async saveVocabularyShadows(
+    table: 'dream_symbols' | 'dream_emotions',
+    embeddings: Record<string, number[]>,
+    targetModel: string
+  ): Promise<void> {
+    for (const [name, embedding] of Object.entries(embeddings)) {
+      const { error } = await this.supabase
+        .from(table)
+        .update({ embedding_next: embedding, embedding_next_model: targetModel })
+        .eq('name', name);
+
+      if (error) {
+        console.error(`❌ Failed to save backfilled ${table} embedding:`, name, error);
+      }
+    }
+  }
+
+  /**
+   * End of a pass over both tables: ready when nothing is left, otherwise
+   * start another pass for rows that failed or were added meanwhile
+   */
+  private async finishPass(job: BackfillJob): Promise<Omit<BackfillBatchResult, 'embedded' | 'failed'>> {
+    const coverage = await this.getCoverage(job.target_model);
+    if (!coverage) {
+      return { success: false, job, done: true, error: 'Failed to compute backfill coverage' };
+    }
+
+    if (coverage.postsRemaining + coverage.dreamsRemaining === 0) {
+      console.log(`✅ Embedding backfill ${job.id} ready for cutover`);
+      return this.updateJob(job, { status: 'ready' });
+    }
+
+    console.log(`🔁 Embedding backfill pass ${job.passes} left ${coverage.postsRemaining + coverage.dreamsRemaining} rows, starting another`);
+    return this.updateJob(job, {
+      phase: 'posts',
+      posts_cursor: null,
+      dreams_cursor: null,
+      passes: job.passes + 1
+    });
+  }
+
+  private async updateJob(
+    job: BackfillJob,
+    changes: Partial<BackfillJob>
+  ): Promise<Omit<BackfillBatchResult, 'embedded' | 'failed'>> {
+    const { data, error } = await this.supabase
+      .from('embedding_backfill_jobs')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('status', job.status) // Don't resurrect a job cancelled meanwhile
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to update backfill job:', error);
+      return { success: false, job, done: true, error: 'Failed to update backfill job' };
+    }
+
+    const updated: BackfillJob | null = data;
+    return { success: true, job: updated ?? job, done: !updated || updated.status !== 'running' };
+  }
+
+  private async getActiveJob(): Promise<BackfillJob | null> {
+    const { data, error } = await this.supabase
+      .from('embedding_backfill_jobs')
+      .select('*')
+      .in('status', ['running', 'ready'])
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load active backfill job: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Embedding services for the target model, built on first use
+   */
+  private getTargetServices(): { posts: EmbeddingService; dreams: DreamEmbeddingService } {
+    if (!this.targetServices) {
+      if (!this.provider && !Deno.env.get('EMBEDDING_NEXT_PROVIDER')) {
+        throw new Error('EMBEDDING_NEXT_PROVIDER must be set to the model to backfill');
+      }
+      const provider = this.provider ?? createEmbeddingProvider('EMBEDDING_NEXT');
+      console.log(`🎯 Backfill target model: ${embeddingModelTag(provider)}`);
+      this.targetServices = {
+        posts: new EmbeddingService(provider),
+        dreams: new DreamEmbeddingService(provider)
+      };
+    }
+    return this.targetServices;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Embedding Cache
+ *
+ * Content-addressed cache of embeddings keyed by model tag + sha256 of the
+ * normalized text. Lookups go Redis first, then the embedding_cache table;
+ * table hits are written back to Redis. Every lookup records Redis hits,
+ * table hits and misses per model and day (embedding_cache_hit_rate view).
+ *
+ * Cache failures are logged and treated as misses - they never fail an embedding.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { CacheKeys, CacheTTL, redis } from '../utils/redis.ts';
+
+/** A lookup_embedding_cache row; pgvector values arrive as "[0.1,0.2,...]" */
+interface EmbeddingCacheRow {
+  text_hash: string;
+  embedding: string | number[];
+}
+
+/** What EmbeddingService needs from a cache */
+export type EmbeddingCacheStore = Pick<EmbeddingCache, 'hashText' | 'getMany' | 'setMany'>;
+
+/**
+ * sha256 hex of a normalized text
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export class EmbeddingCache {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * sha256 hex of a normalized text
+   */
+  hashText(text: string): Promise<string> {
+    return sha256Hex(text);
+  }
+
+  /**
+   * Cached embeddings for the given text hashes (hashes must be unique)
+   */
+  async getMany(model: string, hashes: string[]): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    if (hashes.length === 0) {
+      return found;
+    }
+
+    // 1. Redis
+    try {
+      const values = await redis.mget(hashes.map(hash => CacheKeys.embedding(model, hash)));
+      values.forEach((value, i) => {
+        if (value) {
+          found.set(hashes[i], JSON.parse(value));
+        }
+      });
+    } catch (error) {
+      console.error('❌ Embedding cache Redis lookup error:', error);
+    }
+
+    const redisHits = found.size;
+    const remaining = hashes.filter(hash => !found.has(hash));
+
+    // 2. Postgres (also records this lookup's metrics)
+    try {
+      if (remaining.length > 0) {
+        const { data, error } = await this.supabase.rpc('lookup_embedding_cache', {
+          p_model: model,
+          p_text_hashes: remaining,
+          p_redis_hits: redisHits
+        });
+
+        if (error) {
+          console.error('❌ Embedding cache table lookup error:', error);
+        } else if (data && data.length > 0) {
+          const fromTable = (data as EmbeddingCacheRow[]).map(row => ({
+            hash: row.text_hash,
+            embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) as number[] : row.embedding
+          }));
+          fromTable.forEach(({ hash, embedding }) => found.set(hash, embedding));
+          await this.setRedis(model, fromTable);
+        }
+      } else {
+        await this.supabase.rpc('record_embedding_cache_metrics', {
+          p_model: model,
+          p_redis_hits: redisHits,
+          p_db_hits: 0,
+          p_misses: 0
+        });
+      }
+    } catch (error) {
+      console.error('❌ Embedding cache lookup error:', error);
+    }
+
+    console.log(
+      `🧠 Embedding cache: ${found.size}/${hashes.length} hits ` +
+      `(redis ${redisHits}, table ${found.size - redisHits})`
+    );
+
+    return found;
+  }
+
+  /**
+   * Store freshly generated embeddings in Redis and the table
+   */
+  async setMany(model: string, entries: { hash: string; embedding: number[] }[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.setRedis(model, entries);
+
+    try {
+      const { error } = await this.supabase
+        .from('embedding_cache')
+        .upsert(
+          entries.map(({ hash, embedding }) => ({ model, text_hash: hash, embedding })),
+          { onConflict: 'model,text_hash', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        console.error('❌ Embedding cache table write error:', error);
+      }
+    } catch (error) {
+      console.error('❌ Embedding cache write error:', error);
+    }
+  }
+
+  private async setRedis(model: string, entries: { hash: string; embedding: number[] }[]): Promise<void> {
+    try {
+      await redis.pipeline(entries.map(({ hash, embedding }) => [
+        'SETEX',
+        CacheKeys.embedding(model, hash),
+        CacheTTL.EMBEDDING,
+        JSON.stringify(embedding)
+      ]));
+    } catch (error) {
+      console.error('❌ Embedding cache Redis write error:', error);
+    }
+  }
+}
+
+/**
+ * Process-local cache for tools run outside the platform (scripts/), which
+ * need no Supabase credentials and never write to the shared cache
+ */
+export class MemoryEmbeddingCache implements EmbeddingCacheStore {
+  private entries = new Map<string, number[]>();
+
+  hashText(text: string): Promise<string> {
+    return sha256Hex(text);
+  }
+
+  getMany(model: string, hashes: string[]): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    for (const hash of hashes) {
+      const embedding = this.entries.get(`${model}:${hash}`);
+      if (embedding) {
+        found.set(hash, embedding);
+      }
+    }
+    return Promise.resolve(found);
+  }
+
+  setMany(model: string, entries: { hash: string; embedding: number[] }[]): Promise<void> {
+    for (const { hash, embedding } of entries) {
+      this.entries.set(`${model}:${hash}`, embedding);
+    }
+    return Promise.resolve();
+  }
+}
@@ -1,31 +1,52 @@
-declare const Deno: any;
-
 /**
  * Advanced Embedding Service
  * 
- * Generates vector embeddings using HuggingFace Inference API
+ * Generates vector embeddings through the configured EmbeddingProvider
+ * (EMBEDDING_PROVIDER: openai | huggingface | local)
  * Supports both single content and batch processing for day summaries
+ * Identical normalized texts are served from EmbeddingCache instead of the provider
  */
 
+import {
+  createEmbeddingProvider,
+  embeddingModelTag,
+  EmbeddingProvider,
+  padEmbedding
+} from '../utils/embeddingProviders.ts';
+import { EmbeddingCache, EmbeddingCacheStore } from './EmbeddingCache.ts';
+
 interface EmbeddingResult {
   embedding: number[];
   success: boolean;
+  model?: string; // Provider/model tag to store with the vector
   error?: string;
 }
 
 interface BatchEmbeddingResult {
   embeddings: number[][];
   success: boolean;
+  model?: string;
   errors?: string[];
 }
 
 export class EmbeddingService {
-  private openaiToken: string;
-  private openaiApiUrl = 'https://api.openai.com/v1';
-  private model = 'text-embedding-3-small'; // Cheapest embedding model (1536 dimensions)
+  private provider: EmbeddingProvider;
+  private cache: EmbeddingCacheStore;
+
+  constructor(
+    provider: EmbeddingProvider = createEmbeddingProvider(),
+    cache: EmbeddingCacheStore = new EmbeddingCache()
+  ) {
+    this.provider = provider;
+    this.cache = cache;
+  }
 
-  constructor() {
-    this.openaiToken = Deno.env.get('OPENAI_API_KEY') || '';
+  /**
+   * Tag identifying the vectors this service produces; only vectors with the
+   * same tag may be compared
+   */
+  get modelTag(): string {
+    return embeddingModelTag(this.provider);
   }
 
   /**
@@ -44,52 +65,19 @@ export class EmbeddingService {
       // Normalize text for better embedding quality
       const normalizedText = this.normalizeText(text);
       
-      console.log(`🔮 Generating embedding for: "${normalizedText.substring(0, 50)}..."`);
-
-      const response = await fetch(`${this.openaiApiUrl}/embeddings`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.openaiToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          input: normalizedText,
-          model: this.model
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`❌ OpenAI API error: ${response.status} - ${errorText}`);
-        
-        // Fallback: Generate a simple hash-based embedding
-        console.log('🔄 Using fallback hash-based embedding...');
-        const fallbackEmbedding = this.generateFallbackEmbedding(normalizedText);
-        return {
-          embedding: fallbackEmbedding,
-          success: true
-        };
-      }
+      console.log(`🔮 Generating ${this.modelTag} embedding for: "${normalizedText.substring(0, 50)}..."`);
 
-      const result = await response.json();
-      
-      if (result.data && Array.isArray(result.data) && result.data.length > 0) {
-        const embedding = result.data[0].embedding;
-        console.log(`✅ Generated embedding: ${embedding.length} dimensions`);
-        
-        return {
-          embedding: embedding,
-          success: true
-        };
-      }
+      const [embedding] = await this.embedNormalized([normalizedText]);
+      console.log(`✅ Generated embedding: ${embedding.length} dimensions`);
 
       return {
-        embedding: [],
-        success: false,
-        error: 'Invalid response format'
+        embedding,
+        success: true,
+        model: this.modelTag
       };
 
     } catch (error) {
+      // No fallback vector: a meaningless embedding would silently corrupt matching
       console.error('❌ Embedding generation failed:', error);
       return {
         embedding: [],
@@ -113,56 +101,17 @@ export class EmbeddingService {
         };
       }
 
-      console.log(`🔮 Generating ${texts.length} embeddings in batch...`);
-
-      // OpenAI supports batch processing, so we can send all texts at once
-      const response = await fetch(`${this.openaiApiUrl}/embeddings`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.openaiToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          input: texts,
-          model: this.model
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`❌ OpenAI batch API error: ${response.status} - ${errorText}`);
-        return {
-          embeddings: [],
-          success: false,
-          errors: [`API error: ${response.status}`]
-        };
-      }
+      console.log(`🔮 Generating ${texts.length} ${this.modelTag} embeddings in batch...`);
 
-      const result = await response.json();
-      const embeddings: number[][] = [];
-      const errors: string[] = [];
-
-      if (result.data && Array.isArray(result.data)) {
-        // Sort by index to maintain order
-        result.data.sort((a: any, b: any) => a.index - b.index);
-        
-        for (const item of result.data) {
-          if (item.embedding) {
-            embeddings[item.index] = item.embedding;
-          } else {
-            errors.push(`Text ${item.index}: No embedding returned`);
-          }
-        }
-      } else {
-        errors.push('Invalid response format');
-      }
+      // Normalized the same way as single texts so both share cache entries
+      const embeddings = await this.embedNormalized(texts.map(text => this.normalizeText(text)));
 
       console.log(`✅ Generated ${embeddings.length} embeddings successfully`);
 
       return {
-        embeddings: embeddings.filter(e => e !== null),
-        success: errors.length === 0,
-        errors: errors.length > 0 ? errors : undefined
+        embeddings,
+        success: true,
+        model: this.modelTag
       };
 
     } catch (error) {
@@ -175,6 +124,30 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Embed normalized texts, asking the provider only for texts not in the cache.
+   * Results are padded to storage width and in input order.
+   */
+  private async embedNormalized(texts: string[]): Promise<number[][]> {
+    const model = this.modelTag;
+    const hashes = await Promise.all(texts.map(text => this.cache.hashText(text)));
+    const uniqueHashes = [...new Set(hashes)];
+
+    const cached = await this.cache.getMany(model, uniqueHashes);
+
+    const missing = uniqueHashes.filter(hash => !cached.has(hash));
+    if (missing.length > 0) {
+      const missingTexts = missing.map(hash => texts[hashes.indexOf(hash)]);
+      const generated = (await this.provider.embed(missingTexts)).map(embedding => padEmbedding(embedding));
+
+      const entries = missing.map((hash, i) => ({ hash, embedding: generated[i] }));
+      entries.forEach(({ hash, embedding }) => cached.set(hash, embedding));
+      await this.cache.setMany(model, entries);
+    }
+
+    return hashes.map(hash => cached.get(hash)!);
+  }
+
   /**
    * Calculate cosine similarity between two embeddings
    */
@@ -254,37 +227,4 @@ export class EmbeddingService {
       mean
     };
   }
-
-  /**
-   * Generate a fallback embedding using hash-based approach
-   * This is used when the OpenAI API is unavailable
-   */
-  private generateFallbackEmbedding(text: string): number[] {
-    const embedding = new Array(1536).fill(0);
-    
-    // Simple hash-based approach
-    let hash = 0;
-    for (let i = 0; i < text.length; i++) {
-      const char = text.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    
-    // Distribute the hash across the embedding dimensions
-    for (let i = 0; i < 1536; i++) {
-      const seed = hash + i;
-      const random = Math.sin(seed) * 10000;
-      embedding[i] = random - Math.floor(random);
-    }
-    
-    // Normalize the embedding
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    if (magnitude > 0) {
-      for (let i = 0; i < 1536; i++) {
-        embedding[i] = embedding[i] / magnitude;
-      }
-    }
-    
-    return embedding;
-  }
 }
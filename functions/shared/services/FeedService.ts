@@ -1,12 +1,12 @@
 /**
- * Feed Service - Real-time Calculation
+ * Feed Service - Precomputed Rankings
  * 
- * Calculates percentile and tier on-the-fly for feed posts
- * No temporal analytics - just current percentile/tier for feed cards
+ * Serves feed posts with the percentile and tier stored by RankingService
+ * (feed_posts view). No temporal analytics - just current percentile/tier for feed cards
  */
 
 import { createClient } from 'npm:@supabase/supabase-js@2';
-import { PercentileService } from './PercentileService.js';
+import { buildCursorPage, decodeCursor, keysetFilter } from '../utils/pagination.ts';
 
 export interface FeedPost {
   id: string;
@@ -20,12 +20,13 @@ export interface FeedPost {
   is_anonymous: boolean;
   created_at: string;
   
-  // Real-time calculated fields
+  // Precomputed ranking fields
   percentile: number;
   tier: string;
   displayText: string;
   matchCount: number;
   comparison: string;
+  ranked_at: string | null; // When the ranking was computed; null until first computed
   
   // User info
   username?: string;
@@ -36,13 +37,14 @@ export interface FeedPost {
     funny: number;
     creative: number;
     must_try: number;
+    total: number;
   };
 }
 
 export interface FeedFilters {
   inputType?: 'action' | 'day' | 'all';
   scope?: 'world' | 'city' | 'state' | 'country';
-  tier?: 'elite' | 'rare' | 'unique' | 'notable' | 'common' | 'popular' | 'all';
+  tier?: 'elite' | 'rare' | 'unique' | 'notable' | 'beloved' | 'common' | 'popular' | 'all';
   reactionFilter?: 'all' | 'funny' | 'creative' | 'must_try';
   location?: {
     city?: string;
@@ -51,51 +53,85 @@ export interface FeedFilters {
   };
 }
 
+export type FeedSort = 'newest' | 'tier' | 'most_reacted';
+
+/** Author columns joined onto feed cards */
+interface ProfileRow {
+  id: string;
+  username: string | null;
+  avatar_url: string | null;
+}
+
+export interface FeedPagination {
+  limit?: number;
+  cursor?: string | null;
+  /** @deprecated Offset pagination; pass cursor instead */
+  page?: number;
+}
+
 export interface FeedResponse {
   success: boolean;
   posts: FeedPost[];
+  rankings_as_of: string | null; // Oldest ranked_at on the page
   pagination: {
-    page: number;
+    mode: 'cursor' | 'offset';
     limit: number;
-    total: number;
-    total_pages: number;
+    next_cursor: string | null;
     has_next: boolean;
-    has_prev: boolean;
+    // Offset mode only (deprecated)
+    deprecated?: boolean;
+    page?: number;
+    total?: number;
+    total_pages?: number;
+    has_prev?: boolean;
   };
   error?: string;
 }
 
 export class FeedService {
   private supabase: any;
-  private percentileService: PercentileService;
 
   constructor() {
     const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
     this.supabase = createClient(supabaseUrl, supabaseServiceKey);
-    this.percentileService = new PercentileService();
   }
 
   /**
-   * Get feed posts with real-time percentile/tier calculation
+   * Get feed posts with their precomputed percentile/tier
    */
   async getFeedPosts(
-    page: number = 1,
-    limit: number = 10,
+    pagination: FeedPagination = {},
     filters: FeedFilters = {},
-    sortBy: 'newest' | 'tier' = 'newest'
+    sortBy: FeedSort = 'newest'
   ): Promise<FeedResponse> {
+    const limit = pagination.limit || 10;
+    const page = pagination.page;
+    const offsetMode = page !== undefined && !pagination.cursor;
+    const emptyPagination = (): FeedResponse['pagination'] => (
+      offsetMode
+        ? {
+          mode: 'offset', deprecated: true, limit, next_cursor: null, has_next: false,
+          page, total: 0, total_pages: 0, has_prev: false
+        }
+        : { mode: 'cursor', limit, next_cursor: null, has_next: false }
+    );
+
     try {
-      console.log('🔍 Fetching feed posts with real-time calculation...', {
-        page,
-        limit,
+      console.log('🔍 Fetching feed posts...', {
+        pagination,
         filters,
         sortBy
       });
 
+      const cursor = pagination.cursor ? decodeCursor(pagination.cursor) : null;
+      if (pagination.cursor && !cursor) {
+        return { success: false, posts: [], rankings_as_of: null, pagination: emptyPagination(), error: 'Invalid cursor' };
+      }
+
       // 1. Build base query
       let query = this.supabase
-        .from('posts')
+        .from('feed_posts')
         .select(`
           id,
           content,
@@ -107,11 +143,19 @@ export class FeedService {
           user_id,
           is_anonymous,
           created_at,
-          embedding,
-          has_negation,
-          content_hash
-        `)
-        .eq('moderation_status', 'approved');
+          match_count,
+          total_in_scope,
+          percentile,
+          tier,
+          tier_rank,
+          display_text,
+          comparison,
+          ranked_at,
+          funny_count,
+          creative_count,
+          must_try_count,
+          total_reactions
+        `, offsetMode ? { count: 'exact' } : undefined);
 
       // 2. Apply filters
       if (filters.inputType && filters.inputType !== 'all') {
@@ -132,105 +176,96 @@ export class FeedService {
         query = query.eq('location_country', filters.location.country);
       }
 
-      // 3. Apply sorting
+      // Filtered in the database so pages stay full and counts cover only this tier
+      if (filters.tier && filters.tier !== 'all') {
+        query = query.eq('tier', filters.tier);
+      }
+
+      if (filters.reactionFilter && filters.reactionFilter !== 'all') {
+        query = query.gt(`${filters.reactionFilter}_count`, 0);
+      }
+
+      // 3. Apply sorting (newest first; rarest tier or most reactions first when
+      // sorting by those; id breaks ties)
       if (sortBy === 'tier') {
-        // Sort by tier priority (elite first)
-        query = query.order('tier', { ascending: true });
-      } else {
-        // Default: newest first
-        query = query.order('created_at', { ascending: false });
+        query = query.order('tier_rank', { ascending: true });
+      } else if (sortBy === 'most_reacted') {
+        query = query.order('total_reactions', { ascending: false });
       }
+      query = query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false });
 
       // 4. Apply pagination
-      const from = (page - 1) * limit;
-      const to = from + limit - 1;
-      query = query.range(from, to);
+      if (offsetMode) {
+        const from = (page - 1) * limit;
+        const to = from + limit - 1;
+        query = query.range(from, to);
+      } else {
+        if (cursor) {
+          query = query.or(keysetFilter(cursor, sortBy));
+        }
+        query = query.limit(limit + 1);
+      }
 
       // 5. Execute query
-      const { data: posts, error: postsError, count } = await query;
+      const { data: rows, error: postsError, count } = await query;
 
       if (postsError) {
         console.error('❌ Fetch posts error:', postsError);
         return {
           success: false,
           posts: [],
-          pagination: {
-            page,
-            limit,
-            total: 0,
-            total_pages: 0,
-            has_next: false,
-            has_prev: false
-          },
+          rankings_as_of: null,
+          pagination: emptyPagination(),
           error: 'Failed to fetch posts'
         };
       }
 
-      if (!posts || posts.length === 0) {
+      if (!rows || rows.length === 0) {
+        const pagination = emptyPagination();
+        if (offsetMode) {
+          // A page past the end still reports the real total
+          const total = count || 0;
+          pagination.total = total;
+          pagination.total_pages = Math.ceil(total / limit);
+          pagination.has_prev = page > 1;
+        }
         return {
           success: true,
           posts: [],
-          pagination: {
-            page,
-            limit,
-            total: 0,
-            total_pages: 0,
-            has_next: false,
-            has_prev: false
-          }
+          rankings_as_of: null,
+          pagination
         };
       }
 
-      console.log(`📊 Found ${posts.length} posts, calculating real-time percentile/tier...`);
-
-      // 6. Calculate real-time percentile/tier for each post
-      const postsWithCalculations = await Promise.all(
-        posts.map(async (post: any) => {
-          const calculatedData = await this.calculateRealTimeData(post, filters);
-          return {
-            ...post,
-            ...calculatedData
-          };
-        })
-      );
+      const { items: posts, nextCursor, hasNext } = offsetMode
+        ? { items: rows, nextCursor: null, hasNext: false }
+        : buildCursorPage(rows, limit, sortBy);
 
-      // 7. Apply tier filter after calculation
-      let filteredPosts = postsWithCalculations;
-      if (filters.tier && filters.tier !== 'all') {
-        filteredPosts = postsWithCalculations.filter(post => post.tier === filters.tier);
-      }
+      console.log(`📊 Found ${posts.length} posts`);
 
-      // 8. Get user profiles
+      // 6. Get user profiles
       const userIds = [...new Set(posts.map((post: any) => post.user_id).filter(Boolean))];
       const { data: profiles } = await this.supabase
         .from('profiles')
         .select('id, username, avatar_url')
         .in('id', userIds);
 
-      const profileMap = new Map(profiles?.map((p: any) => [p.id, p]) || []);
-
-      // 9. Get reaction counts
-      const postIds = posts.map((post: any) => post.id);
-      const { data: reactions } = await this.supabase
-        .from('post_reaction_counts')
-        .select('post_id, funny_count, creative_count, must_try_count')
-        .in('post_id', postIds);
-
-      const reactionMap = new Map(
-        reactions?.map((r: any) => [
-          r.post_id,
-          {
-            funny: r.funny_count || 0,
-            creative: r.creative_count || 0,
-            must_try: r.must_try_count || 0
-          }
-        ]) || []
+      const profileMap = new Map<string, ProfileRow>(
+        ((profiles || []) as ProfileRow[]).map(profile => [profile.id, profile])
       );
 
-      // 10. Format final response
-      const formattedPosts: FeedPost[] = filteredPosts.map((post: any) => {
-        const profile = post.user_id ? profileMap.get(post.user_id) : null;
-        const reactions = reactionMap.get(post.id) || { funny: 0, creative: 0, must_try: 0 };
+      // 7. Format final response (reaction counts come from the view)
+      const formattedPosts: FeedPost[] = posts.map((post: any) => {
+        // Anonymous posts keep their owner in the DB but never expose it in the feed
+        const profile = post.user_id && !post.is_anonymous ? profileMap.get(post.user_id) : null;
+        const reactions = {
+          funny: post.funny_count || 0,
+          creative: post.creative_count || 0,
+          must_try: post.must_try_count || 0,
+          total: post.total_reactions || 0
+        };
 
         return {
           id: post.id,
@@ -240,54 +275,59 @@ export class FeedService {
           location_city: post.location_city,
           location_state: post.location_state,
           location_country: post.location_country,
-          user_id: post.user_id,
+          user_id: post.is_anonymous ? null : post.user_id,
           is_anonymous: post.is_anonymous,
           created_at: post.created_at,
           percentile: post.percentile,
           tier: post.tier,
-          displayText: post.displayText,
-          matchCount: post.matchCount,
-          comparison: post.comparison,
-          username: profile?.username,
-          avatar_url: profile?.avatar_url,
+          displayText: post.display_text || `Top ${Math.round(post.percentile)}%`,
+          matchCount: post.match_count,
+          comparison: post.comparison || `${post.match_count} people`,
+          ranked_at: post.ranked_at,
+          username: profile?.username ?? undefined,
+          avatar_url: profile?.avatar_url ?? undefined,
           reactions
         };
       });
 
-      // 11. Apply reaction filter after calculation
-      if (filters.reactionFilter && filters.reactionFilter !== 'all') {
-        const reactionType = filters.reactionFilter;
-        const finalFilteredPosts = formattedPosts.filter(post => 
-          post.reactions[reactionType] > 0
-        );
+      // Unranked posts (ranked_at null) carry their creation-time values
+      const rankedAt = formattedPosts
+        .map(post => post.ranked_at)
+        .filter((value): value is string => Boolean(value))
+        .sort();
+      const rankingsAsOf = rankedAt[0] ?? null;
+
+      if (offsetMode) {
+        const total = count || 0;
+        const total_pages = Math.ceil(total / limit);
 
         return {
           success: true,
-          posts: finalFilteredPosts,
+          posts: formattedPosts,
+          rankings_as_of: rankingsAsOf,
           pagination: {
-            page,
+            mode: 'offset',
+            deprecated: true,
             limit,
-            total: count || 0,
-            total_pages: Math.ceil((count || 0) / limit),
-            has_next: page < Math.ceil((count || 0) / limit),
+            next_cursor: null,
+            has_next: page < total_pages,
+            page,
+            total,
+            total_pages,
             has_prev: page > 1
           }
         };
       }
 
-      const total = count || 0;
-      const total_pages = Math.ceil(total / limit);
-
       return {
         success: true,
         posts: formattedPosts,
+        rankings_as_of: rankingsAsOf,
         pagination: {
-          page,
+          mode: 'cursor',
           limit,
-          total,
-          total_pages,
-          has_next: page < total_pages,
-          has_prev: page > 1
+          next_cursor: nextCursor,
+          has_next: hasNext
         }
       };
 
@@ -296,161 +336,10 @@ export class FeedService {
       return {
         success: false,
         posts: [],
-        pagination: {
-          page,
-          limit,
-          total: 0,
-          total_pages: 0,
-          has_next: false,
-          has_prev: false
-        },
+        rankings_as_of: null,
+        pagination: emptyPagination(),
         error: 'Internal server error'
       };
     }
   }
-
-  /**
-   * Calculate real-time percentile and tier for a single post
-   */
-  private async calculateRealTimeData(post: any, filters: FeedFilters): Promise<any> {
-    try {
-      // 1. Find similar posts using semantic similarity
-      const similarPosts = await this.findSimilarPosts(
-        post.embedding,
-        post.scope,
-        post.location_city,
-        post.location_state,
-        post.location_country,
-        post.has_negation
-      );
-
-      const matchCount = similarPosts.length + 1; // +1 for the current post
-
-      // 2. Get total posts in scope
-      const totalPostsInScope = await this.getTotalPostsInScope(
-        post.scope,
-        post.location_city,
-        post.location_state,
-        post.location_country
-      );
-
-      // 3. Calculate percentile and tier
-      const percentileResult = this.percentileService.calculatePercentile(
-        matchCount,
-        totalPostsInScope
-      );
-
-      return {
-        percentile: percentileResult.percentile,
-        tier: percentileResult.tier,
-        displayText: percentileResult.displayText,
-        matchCount,
-        comparison: percentileResult.comparison
-      };
-
-    } catch (error) {
-      console.error('❌ Real-time calculation error for post:', post.id, error);
-      // Fallback to stored values if calculation fails
-      return {
-        percentile: 50, // Default fallback
-        tier: 'common',
-        displayText: 'Top 50%',
-        matchCount: 1,
-        comparison: '1 person'
-      };
-    }
-  }
-
-  /**
-   * Find similar posts using semantic similarity
-   */
-  private async findSimilarPosts(
-    embedding: number[],
-    scope: string,
-    locationCity?: string,
-    locationState?: string,
-    locationCountry?: string,
-    hasNegation: boolean = false
-  ): Promise<any[]> {
-    try {
-      if (!embedding) {
-        console.log('⚠️ No embedding found, returning empty matches');
-        return [];
-      }
-
-      const { data, error } = await this.supabase.rpc('match_posts_by_embedding', {
-        filter_city: locationCity,
-        filter_country: locationCountry,
-        filter_state: locationState,
-        match_limit: 100,
-        match_threshold: 0.70, // Same threshold as main system
-        query_embedding: embedding,
-        query_has_negation: hasNegation,
-        scope_filter: scope,
-        today_only: false // All-time matching for feed
-      });
-
-      if (error) {
-        console.error('❌ Vector search failed:', error);
-        return [];
-      }
-
-      return data || [];
-    } catch (error) {
-      console.error('❌ Similar posts search error:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Get total posts in scope for percentile calculation
-   */
-  private async getTotalPostsInScope(
-    scope: string,
-    locationCity?: string,
-    locationState?: string,
-    locationCountry?: string
-  ): Promise<number> {
-    try {
-      let query = this.supabase
-        .from('posts')
-        .select('id', { count: 'exact' })
-        .eq('moderation_status', 'approved');
-
-      // Apply scope filtering
-      switch (scope) {
-        case 'city':
-          if (locationCity) {
-            query = query.eq('location_city', locationCity).eq('scope', 'city');
-          }
-          break;
-        case 'state':
-          if (locationState) {
-            query = query.eq('location_state', locationState).eq('scope', 'state');
-          }
-          break;
-        case 'country':
-          if (locationCountry) {
-            query = query.eq('location_country', locationCountry).eq('scope', 'country');
-          }
-          break;
-        case 'world':
-        default:
-          // No additional filtering for world scope
-          break;
-      }
-
-      const { count, error } = await query;
-
-      if (error) {
-        console.error('❌ Total posts query error:', error);
-        return 1; // Fallback to avoid division by zero
-      }
-
-      return Math.max(1, count || 1); // Ensure at least 1 to avoid division by zero
-    } catch (error) {
-      console.error('❌ Get total posts error:', error);
-      return 1; // Fallback
-    }
-  }
 }
@@ -0,0 +1,231 @@
+/**
+ * Moderation Event Service - Decision Log & Appeals
+ *
+ * Records every moderation decision in moderation_events (migration 035)
+ * and handles appeals against rejections: users file them with
+ * appeal-moderation, admins resolve them in moderation-queue. Content whose
+ * rejection was overturned is allowed from then on for the user who appealed,
+ * as the same content type.
+ *
+ * Recording failures are logged and never fail moderation.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+export type ModerationDecision = 'approved' | 'rejected' | 'held' | 'error';
+
+export type AppealDecision = 'upheld' | 'overturned';
+
+export interface ModerationEventInput {
+  userId?: string | null;
+  contentType: string;
+  content: string;
+  storedContent?: string; // Kept instead of content for rejections (PII redacted)
+  decision: ModerationDecision;
+  flags: string[];
+  reason?: string;
+  scores: Record<string, Record<string, number>>; // checker → category → score
+  checkers: string[];
+  failedCheckers: string[];
+  transformations: string[]; // Obfuscation normalisation steps that fired
+  cached: boolean;
+  latencyMs: number;
+}
+
+export interface AppealQueueItem {
+  id: string;
+  event_id: string;
+  user_id: string;
+  message: string | null;
+  created_at: string;
+  event: {
+    content_type: string;
+    content: string | null;
+    flags: string[];
+    reason: string | null;
+    scores: Record<string, Record<string, number>>;
+    transformations: string[];
+    created_at: string;
+  } | null;
+}
+
+export class ModerationEventService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * sha256 hex of the trimmed content
+   */
+  async hashContent(content: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content.trim()));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Store a decision; returns the event id, or null when it could not be stored
+   */
+  async record(event: ModerationEventInput): Promise<string | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('moderation_events')
+        .insert({
+          user_id: event.userId ?? null,
+          content_type: event.contentType,
+          content_hash: await this.hashContent(event.content),
+          content: event.decision === 'rejected' ? event.storedContent ?? event.content : null,
+          decision: event.decision,
+          flags: event.flags,
+          reason: event.reason ?? null,
+          scores: event.scores,
+          checkers: event.checkers,
+          failed_checkers: event.failedCheckers,
+          transformations: event.transformations,
+          cached: event.cached,
+          latency_ms: Math.round(event.latencyMs)
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('❌ Failed to record moderation event:', error);
+        return null;
+      }
+      return data.id;
+    } catch (error) {
+      console.error('❌ Moderation event error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether this user's appeal against a rejection of this content was
+   * overturned; never for anonymous content
+   */
+  async isOverturned(contentType: string, content: string, userId?: string | null): Promise<boolean> {
+    if (!userId) {
+      return false;
+    }
+
+    const { data, error } = await this.supabase.rpc('is_moderation_overturned', {
+      p_user_id: userId,
+      p_content_type: contentType,
+      p_content_hash: await this.hashContent(content)
+    });
+
+    if (error) {
+      console.error('❌ Overturn lookup failed:', error);
+      return false;
+    }
+    return data === true;
+  }
+
+  /**
+   * Appeal a rejection; only the user it was issued to may appeal, once
+   */
+  async createAppeal(eventId: string, userId: string, message?: string): Promise<{
+    success: boolean;
+    appeal?: { id: string; status: string; created_at: string };
+    error?: string;
+    notFound?: boolean; // true when there is no such event for this user
+    conflict?: boolean; // true when the event is not a rejection or was already appealed
+  }> {
+    const { data: event, error: eventError } = await this.supabase
+      .from('moderation_events')
+      .select('id, user_id, decision')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    // 22P02: malformed id
+    if (eventError && eventError.code !== '22P02') {
+      console.error('❌ Appeal event lookup failed:', eventError);
+      return { success: false, error: 'Failed to file appeal' };
+    }
+    if (!event || event.user_id !== userId) {
+      return { success: false, error: 'Moderation event not found', notFound: true };
+    }
+    if (event.decision !== 'rejected') {
+      return { success: false, error: 'Only rejected content can be appealed', conflict: true };
+    }
+
+    const { data: appeal, error } = await this.supabase
+      .from('moderation_appeals')
+      .insert({ event_id: eventId, user_id: userId, message: message ?? null })
+      .select('id, status, created_at')
+      .single();
+
+    if (error) {
+      // 23505: one appeal per event
+      if (error.code === '23505') {
+        return { success: false, error: 'Already appealed', conflict: true };
+      }
+      console.error('❌ Failed to file appeal:', error);
+      return { success: false, error: 'Failed to file appeal' };
+    }
+
+    console.log(`📨 Appeal filed for moderation event ${eventId}`);
+    return { success: true, appeal };
+  }
+
+  /**
+   * Pending appeals, oldest first
+   */
+  async listPendingAppeals(limit: number, offset: number): Promise<{
+    success: boolean;
+    items: AppealQueueItem[];
+    total: number;
+    error?: string;
+  }> {
+    const { data, error, count } = await this.supabase
+      .from('moderation_appeals')
+      .select(
+        'id, event_id, user_id, message, created_at, ' +
+        'event:moderation_events(content_type, content, flags, reason, scores, transformations, created_at)',
+        { count: 'exact' }
+      )
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('❌ Failed to load appeals:', error);
+      return { success: false, items: [], total: 0, error: 'Failed to load appeals' };
+    }
+
+    return { success: true, items: data || [], total: count ?? 0 };
+  }
+
+  /**
+   * Uphold or overturn pending appeals. Appeals that are not pending are skipped.
+   */
+  async resolveAppeals(
+    appealIds: string[],
+    decision: AppealDecision,
+    reviewerId: string,
+    note?: string
+  ): Promise<{ success: boolean; resolved: string[]; skipped: string[]; error?: string }> {
+    const { data: appeals, error } = await this.supabase.rpc('resolve_moderation_appeals', {
+      p_appeal_ids: appealIds,
+      p_decision: decision,
+      p_reviewer_id: reviewerId,
+      p_note: note ?? null
+    });
+
+    if (error) {
+      console.error('❌ Appeal resolution failed:', error);
+      return { success: false, resolved: [], skipped: [], error: 'Appeal resolution failed' };
+    }
+
+    const resolved: string[] = (appeals || []).map((appeal: { id: string }) => appeal.id);
+    const skipped = appealIds.filter(id => !resolved.includes(id));
+
+    console.log(`✅ Appeals ${decision}: ${resolved.length}, ${skipped.length} skipped`);
+    return { success: true, resolved, skipped };
+  }
+}
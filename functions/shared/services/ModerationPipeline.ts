@@ -9,20 +9,132 @@ declare const Deno: any;
  * 2. Redis caching for moderation results
  * 3. Early static filtering before AI calls
  * 4. Reduced API calls with combined checks
+ *
+ * The checks themselves are pluggable checkers (see moderationCheckers.ts).
+ * Each reports scores per category; a category is rejected when one checker
+ * reaches its threshold, or when the weighted sum over all checkers reaches
+ * the combined threshold (see getModerationCheckSettings).
+ *
+ * When moderation cannot run (timeout, provider outage) the outcome follows
+ * MODERATION_FAILURE_POLICY, see getModerationFailurePolicy.
+ *
+ * Checkers see the text after obfuscation normalisation (leetspeak, homoglyphs,
+ * zero-width characters, spaced-out letters); the transformations that fired
+ * are reported on the result.
+ *
+ * Every decision is recorded in moderation_events; its id is returned as
+ * eventId so a rejection can be appealed.
+ *
+ * Approved content is then scanned for personal information (see pii.ts) and,
+ * per PII_POLICY for the content type, allowed, blocked, or returned redacted
+ * in result.redaction; callers store the redacted text instead of the original.
  */
 
-import { cacheGet, cacheSet, cacheDel, CacheKeys, CacheTTL, hashContent } from '../utils/redis.ts';
+import { cacheGet, cacheSet, CacheKeys, CacheTTL, hashContent } from '../utils/redis.ts';
+import {
+  CHECKER_TIMEOUT_MS,
+  CheckerName,
+  createModerationCheckers,
+  ModerationChecker,
+  ModerationContentType
+} from '../utils/moderationCheckers.ts';
+import { ModerationRuleService } from './ModerationRuleService.ts';
+import { ModerationDecision, ModerationEventService } from './ModerationEventService.ts';
+import { normalizeForModeration, Transformation } from '../utils/textNormalization.ts';
+import { detectPII, getPIIPolicy, RedactedText, redactPII } from '../utils/pii.ts';
 
 export interface ModerationResult {
   approved: boolean;
+  held?: boolean; // Accepted but must wait for human review (moderation could not run)
   reason?: string;
   userMessage?: string; // Short, funny message for users
   confidence: number;
   flags: string[];
   suggestions?: string[];
+  eventId?: string; // moderation_events row for this decision
+  transformations?: Transformation[]; // Obfuscation normalisation steps that changed the text
+  redaction?: RedactedText; // Content with personal information replaced (stored instead of the original)
+}
+
+// What a moderation run saw, for the event log
+interface CheckDetails {
+  normalized: string;
+  transformations: Transformation[];
+  scores: Record<string, Record<string, number>>;
+  checkers: string[];
+  failed: string[];
+  cached: boolean;
+}
+
+/**
+ * What to do with content when moderation cannot run:
+ * - 'fail_open'       → approve it, flagged moderation_error
+ * - 'fail_closed'     → reject it; the caller should ask the user to retry
+ * - 'hold_for_review' → accept it as pending until a moderator reviews it
+ */
+export type ModerationFailurePolicy = 'fail_open' | 'fail_closed' | 'hold_for_review';
+
+const FAILURE_POLICIES: ModerationFailurePolicy[] = ['fail_open', 'fail_closed', 'hold_for_review'];
+
+/**
+ * Read MODERATION_FAILURE_POLICY (default 'fail_open')
+ */
+export function getModerationFailurePolicy(): ModerationFailurePolicy {
+  const policy = (Deno.env.get('MODERATION_FAILURE_POLICY') || 'fail_open').toLowerCase();
+
+  if (!FAILURE_POLICIES.includes(policy as ModerationFailurePolicy)) {
+    console.warn(`⚠️ Unknown MODERATION_FAILURE_POLICY "${policy}", using "fail_open"`);
+    return 'fail_open';
+  }
+
+  return policy as ModerationFailurePolicy;
+}
+
+export interface CheckSettings {
+  weight: number;    // Contribution to the combined score
+  threshold: number; // Score at which this checker alone rejects a category
+}
+
+export const DEFAULT_CHECK_SETTINGS: Record<CheckerName, CheckSettings> = {
+  quality: { weight: 1, threshold: 0.7 },
+  rules: { weight: 1, threshold: 1 },      // Rule scores add up: one toxic rule, two spam rules
+  blocklist: { weight: 1, threshold: 1 },
+  huggingface: { weight: 1, threshold: 0.5 },
+  openai: { weight: 1, threshold: 0.5 }
+};
+
+export const DEFAULT_COMBINED_THRESHOLD = 1.5;
+
+/**
+ * Per-checker settings: DEFAULT_CHECK_SETTINGS overridden by
+ * MODERATION_CHECK_SETTINGS (JSON, e.g. {"huggingface": {"threshold": 0.6}})
+ */
+export function getModerationCheckSettings(): Record<CheckerName, CheckSettings> {
+  const settings = { ...DEFAULT_CHECK_SETTINGS };
+  const raw = Deno.env.get('MODERATION_CHECK_SETTINGS');
+  if (!raw) {
+    return settings;
+  }
+
+  try {
+    const overrides = JSON.parse(raw) as Partial<Record<CheckerName, Partial<CheckSettings>>>;
+    for (const [name, override] of Object.entries(overrides)) {
+      if (name in settings) {
+        settings[name as CheckerName] = { ...settings[name as CheckerName], ...override };
+      } else {
+        console.warn(`⚠️ MODERATION_CHECK_SETTINGS: unknown checker "${name}"`);
+      }
+    }
+  } catch (error) {
+    console.warn('⚠️ Invalid MODERATION_CHECK_SETTINGS, using defaults:', error instanceof Error ? error.message : error);
+  }
+  return settings;
 }
 
 export interface ModerationConfig {
+  failurePolicy: ModerationFailurePolicy;
+  checks: Record<CheckerName, CheckSettings>;
+  combinedThreshold: number;
   strictMode: boolean;
   allowDreams: boolean;
   allowSymbolicContent: boolean;
@@ -30,11 +142,27 @@ export interface ModerationConfig {
   minLength: number;
 }
 
+/**
+ * Reject when the promise has not settled within ms
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
 export class ModerationPipeline {
   private config: ModerationConfig;
+  private checkers: ModerationChecker[];
+  private eventService: ModerationEventService;
 
-  constructor(config: Partial<ModerationConfig> = {}) {
+  constructor(config: Partial<ModerationConfig> = {}, checkers?: ModerationChecker[]) {
     this.config = {
+      failurePolicy: getModerationFailurePolicy(),
+      checks: getModerationCheckSettings(),
+      combinedThreshold: Number(Deno.env.get('MODERATION_COMBINED_THRESHOLD')) || DEFAULT_COMBINED_THRESHOLD,
       strictMode: false,
       allowDreams: true,
       allowSymbolicContent: true,
@@ -42,6 +170,15 @@ export class ModerationPipeline {
       minLength: 10,
       ...config
     };
+
+    if (checkers) {
+      this.checkers = checkers;
+    } else {
+      const ruleService = new ModerationRuleService();
+      this.checkers = createModerationCheckers(() => ruleService.getRules());
+    }
+    console.log(`🛡️ Moderation checkers: ${this.checkers.map(c => c.name).join(', ') || 'none'}`);
+    this.eventService = new ModerationEventService();
   }
 
   /**
@@ -49,8 +186,65 @@ export class ModerationPipeline {
    */
   async moderateContent(
     content: string, 
-    contentType: 'post' | 'dream' | 'comment' | 'profile' = 'post',
-    additionalContext?: any
+    contentType: ModerationContentType = 'post',
+    additionalContext?: any,
+    userId?: string | null
+  ): Promise<ModerationResult> {
+    const startedAt = Date.now();
+    const normalized = normalizeForModeration(content);
+    const details: CheckDetails = {
+      normalized: normalized.text,
+      transformations: normalized.transformations,
+      scores: {},
+      checkers: [],
+      failed: [],
+      cached: false
+    };
+    if (normalized.transformations.length > 0) {
+      console.log(`🔤 Normalised for moderation: ${normalized.transformations.join(', ')}`);
+    }
+
+    let result = await this.evaluate(content, contentType, additionalContext, details);
+
+    // Checked after the cache, which every user shares: an overturn only covers the user who appealed
+    if (!result.approved && !result.flags.includes('moderation_error') &&
+        await this.eventService.isOverturned(contentType, content, userId)) {
+      console.log('✅ Rejection overturned on appeal, allowing content');
+      result = { approved: true, confidence: 0.9, flags: ['appeal_overturned'] };
+    }
+
+    if (result.approved) {
+      result = await this.applyPIIPolicy(content, contentType, result, userId);
+    }
+
+    const eventId = await this.eventService.record({
+      userId,
+      contentType,
+      content,
+      storedContent: result.redaction?.text,
+      decision: this.decisionOf(result),
+      flags: result.flags,
+      reason: result.reason,
+      scores: details.scores,
+      checkers: details.checkers,
+      failedCheckers: details.failed,
+      transformations: details.transformations,
+      cached: details.cached,
+      latencyMs: Date.now() - startedAt
+    });
+
+    return {
+      ...result,
+      ...(eventId ? { eventId } : {}),
+      ...(details.transformations.length > 0 ? { transformations: details.transformations } : {})
+    };
+  }
+
+  private async evaluate(
+    content: string,
+    contentType: ModerationContentType,
+    additionalContext: any,
+    details: CheckDetails
   ): Promise<ModerationResult> {
     try {
       console.log('🛡️ Starting optimized moderation with caching...');
@@ -62,11 +256,12 @@ export class ModerationPipeline {
       
       // 1. Check cache first
       const contentHash = hashContent(content);
-      const cacheKey = CacheKeys.moderation(contentHash);
+      const cacheKey = CacheKeys.moderation(contentType, contentHash);
       const cached = await cacheGet<ModerationResult>(cacheKey);
       
       if (cached) {
         console.log('✅ Using cached moderation result');
+        details.cached = true;
         return cached;
       }
       
@@ -78,161 +273,202 @@ export class ModerationPipeline {
         return basicCheck;
       }
       
-      // 3. Parallel processing for independent checks
-      const timeoutPromise = new Promise<ModerationResult>((_, reject) => {
-        setTimeout(() => {
-          console.log('⏰ Moderation timeout reached');
-          reject(new Error('Moderation timeout'));
-        }, 3000); // Reduced timeout for CPU limits
-      });
-
-      const moderationPromise = this.performOptimizedModeration(content, contentType, additionalContext);
+      // 3. Parallel processing for independent checks, each with its own timeout
+      const result = await this.runCheckers(content, contentType, additionalContext, details);
       
-      const result = await Promise.race([moderationPromise, timeoutPromise]);
-      
-      // 4. Cache the result
-      await cacheSet(cacheKey, result, CacheTTL.MODERATION);
+      // 4. Cache the result (not failure outcomes, so the next attempt runs again)
+      if (!result.flags.includes('moderation_error')) {
+        await cacheSet(cacheKey, result, CacheTTL.MODERATION);
+      }
       
       console.log('✅ Optimized moderation completed successfully');
       return result;
 
     } catch (error) {
       console.error('❌ Moderation pipeline error:', error);
-      console.error('❌ Error details:', {
-        name: error.name,
-        message: error.message,
-        stack: error.stack
-      });
-      // If moderation fails or times out, allow content but flag it
-      return {
-        approved: true,
-        confidence: 0.5,
-        flags: ['moderation_error'],
-        reason: 'Moderation system error - content allowed'
-      };
+      if (error instanceof Error) {
+        console.error('❌ Error details:', {
+          name: error.name,
+          message: error.message,
+          stack: error.stack
+        });
+      }
+      return this.failureResult((error instanceof Error && error.message) || 'Moderation system error');
     }
   }
 
-  private async performOptimizedModeration(
-    content: string, 
-    contentType: 'post' | 'dream' | 'comment' | 'profile' = 'post',
-    additionalContext?: any
+  /**
+   * Block or redact personal information in approved content, per PII_POLICY
+   */
+  private async applyPIIPolicy(
+    content: string,
+    contentType: ModerationContentType,
+    result: ModerationResult,
+    userId?: string | null
   ): Promise<ModerationResult> {
-    console.log('🚀 Running optimized parallel moderation...');
-    
-    // Run independent checks in parallel
-    const [contentCheck, toxicityCheck, spamCheck, adultCheck] = await Promise.allSettled([
-      this.validateContent(content, contentType, additionalContext),
-      this.checkToxicity(content),
-      this.checkSpam(content),
-      this.checkAdultContent(content)
-    ]);
-    
-    // Check results in order of priority
-    if (contentCheck.status === 'fulfilled' && !contentCheck.value.approved) {
-      console.log('❌ Content validation failed:', contentCheck.value.reason);
-      return contentCheck.value;
-    }
-    
-    if (toxicityCheck.status === 'fulfilled' && !toxicityCheck.value.approved) {
-      console.log('❌ Toxicity check failed:', toxicityCheck.value.reason);
-      return toxicityCheck.value;
+    const policy = getPIIPolicy(contentType);
+    if (policy === 'allow') {
+      return result;
     }
-    
-    if (spamCheck.status === 'fulfilled' && !spamCheck.value.approved) {
-      console.log('❌ Spam check failed:', spamCheck.value.reason);
-      return spamCheck.value;
+
+    const matches = detectPII(content);
+    if (matches.length === 0) {
+      return result;
     }
-    
-    if (adultCheck.status === 'fulfilled' && !adultCheck.value.approved) {
-      console.log('❌ Adult content check failed:', adultCheck.value.reason);
-      return adultCheck.value;
+
+    const types = [...new Set(matches.map(match => match.type))];
+    const redaction = redactPII(content, matches);
+    console.log(`🔒 Personal information found (${types.join(', ')}), policy: ${policy}`);
+
+    if (policy === 'redact') {
+      return { ...result, flags: [...result.flags, 'pii_redacted'], redaction };
     }
-    
-    // Handle any failed checks
-    const failedChecks = [contentCheck, toxicityCheck, spamCheck, adultCheck]
-      .filter(check => check.status === 'rejected');
-    
-    if (failedChecks.length > 0) {
-      console.warn(`⚠️ ${failedChecks.length} moderation checks failed, allowing content`);
+
+    // A block overturned on appeal (e.g. a false-positive name) allows the content as written
+    if (await this.eventService.isOverturned(contentType, content, userId)) {
+      console.log('✅ PII block overturned on appeal, allowing content');
+      return { ...result, flags: [...result.flags, 'appeal_overturned'] };
     }
-    
-    console.log('✅ All moderation checks passed');
+
     return {
-      approved: true,
-      confidence: 0.9,
-      flags: []
+      approved: false,
+      reason: `Content contains personal information: ${types.join(', ')}`,
+      userMessage: "Keep it anonymous! Please remove personal details like names, numbers or addresses.",
+      confidence: 1.0,
+      flags: ['pii', ...types],
+      // Logged in place of the original so the rejected PII is never stored
+      redaction
     };
   }
 
-  private async performModeration(
+  /**
+   * How a result is recorded in moderation_events
+   */
+  private decisionOf(result: ModerationResult): ModerationDecision {
+    if (result.held) return 'held';
+    if (result.flags.includes('moderation_error')) return 'error';
+    return result.approved ? 'approved' : 'rejected';
+  }
+
+  /**
+   * Outcome for content that could not be moderated, per the failure policy
+   */
+  failureResult(reason: string): ModerationResult {
+    switch (this.config.failurePolicy) {
+      case 'fail_closed':
+        console.warn(`🚫 Moderation unavailable (${reason}), rejecting content`);
+        return {
+          approved: false,
+          confidence: 0,
+          flags: ['moderation_error'],
+          reason: `Moderation unavailable: ${reason}`,
+          userMessage: "We couldn't check your post right now. Please try again in a moment."
+        };
+
+      case 'hold_for_review':
+        console.warn(`⏸️ Moderation unavailable (${reason}), holding content for review`);
+        return {
+          approved: true,
+          held: true,
+          confidence: 0,
+          flags: ['moderation_error'],
+          reason: `Moderation unavailable: ${reason}`
+        };
+
+      default:
+        console.warn(`⚠️ Moderation unavailable (${reason}), allowing content`);
+        return {
+          approved: true,
+          confidence: 0.5,
+          flags: ['moderation_error'],
+          reason: 'Moderation system error - content allowed'
+        };
+    }
+  }
+
+
+  /**
+   * Run every checker in parallel and combine their category scores. A checker
+   * that times out counts as failed, so the others' rejections still stand.
+   */
+  private async runCheckers(
     content: string, 
-    contentType: 'post' | 'dream' | 'comment' | 'profile' = 'post',
-    additionalContext?: any
+    contentType: ModerationContentType,
+    additionalContext: any,
+    details: CheckDetails
   ): Promise<ModerationResult> {
-    console.log('🔍 Starting basic validation...');
-    // Basic validation
-    const basicCheck = this.validateBasic(content);
-    if (!basicCheck.approved) {
-      console.log('❌ Basic validation failed:', basicCheck.reason);
-      return basicCheck;
-    }
-    console.log('✅ Basic validation passed');
-
-    console.log('🔍 Starting content validation...');
-    // Content-specific checks
-    const contentCheck = await this.validateContent(content, contentType, additionalContext);
-    if (!contentCheck.approved) {
-      console.log('❌ Content validation failed:', contentCheck.reason);
-      return contentCheck;
-    }
-    console.log('✅ Content validation passed');
-
-    console.log('🔍 Starting toxicity check...');
-    // Toxicity check
-    const toxicityCheck = await this.checkToxicity(content);
-    if (!toxicityCheck.approved) {
-      console.log('❌ Toxicity check failed:', toxicityCheck.reason);
-      return toxicityCheck;
-    }
-    console.log('✅ Toxicity check passed');
-
-    console.log('🔍 Starting spam check...');
-    // Spam check
-    const spamCheck = await this.checkSpam(content);
-    if (!spamCheck.approved) {
-      console.log('❌ Spam check failed:', spamCheck.reason);
-      return spamCheck;
+    console.log('🚀 Running optimized parallel moderation...');
+    
+    details.checkers = this.checkers.map(checker => checker.name);
+    const outcomes = await Promise.allSettled(
+      this.checkers.map(checker => withTimeout(
+        checker.check(details.normalized, contentType, content),
+        CHECKER_TIMEOUT_MS,
+        `${checker.name} check`
+      ))
+    );
+
+    // Per category: the strongest single-checker ratio to its threshold, and the weighted sum
+    const ratios = new Map<string, number>();
+    const combined = new Map<string, number>();
+    const failed = details.failed;
+
+    outcomes.forEach((outcome, i) => {
+      const checker = this.checkers[i];
+      if (outcome.status === 'rejected') {
+        console.warn(`⚠️ ${checker.name} check failed:`, outcome.reason?.message || outcome.reason);
+        failed.push(checker.name);
+        return;
+      }
+
+      details.scores[checker.name] = outcome.value.scores;
+      const settings = this.config.checks[checker.name];
+      for (const [category, score] of Object.entries(outcome.value.scores)) {
+        if (score <= 0) continue;
+        ratios.set(category, Math.max(ratios.get(category) ?? 0, score / settings.threshold));
+        combined.set(category, (combined.get(category) ?? 0) + score * settings.weight);
+      }
+      if (outcome.value.matches?.length) {
+        console.log(`🔍 ${checker.name}:`, outcome.value.scores, outcome.value.matches);
+      }
+    });
+
+    const rejected = [...ratios.keys()]
+      .filter(category =>
+        ratios.get(category)! >= 1 || combined.get(category)! >= this.config.combinedThreshold
+      )
+      .sort((a, b) => ratios.get(b)! - ratios.get(a)!);
+
+    // A rejection stands even when other checkers could not run
+    if (rejected.length > 0) {
+      const reason = `Content rejected: ${rejected[0]}`;
+      console.log(`❌ ${reason}`, Object.fromEntries(combined));
+      return {
+        approved: false,
+        reason,
+        userMessage: this.generateUserMessage(rejected, reason),
+        confidence: Math.min(1, Math.max(...rejected.map(category => combined.get(category)!))),
+        flags: rejected
+      };
     }
-    console.log('✅ Spam check passed');
-
-    console.log('🔍 Starting adult content check...');
-    // Adult content check
-    const adultCheck = await this.checkAdultContent(content);
-    if (!adultCheck.approved) {
-      console.log('❌ Adult content check failed:', adultCheck.reason);
-      return adultCheck;
+
+    if (failed.length > 0) {
+      return this.failureResult(`${failed.join(', ')} unavailable`);
     }
-    console.log('✅ Adult content check passed');
 
-    // Dream-specific checks
     if (contentType === 'dream') {
-      console.log('🔍 Starting dream-specific checks...');
       const dreamCheck = await this.validateDreamContent(content, additionalContext);
       if (!dreamCheck.approved) {
         console.log('❌ Dream check failed:', dreamCheck.reason);
         return dreamCheck;
       }
-      console.log('✅ Dream check passed');
     }
-
+    
     console.log('✅ All moderation checks passed');
-    // All checks passed
     return {
       approved: true,
-      confidence: 0.95,
-      flags: [],
-      suggestions: this.generateSuggestions(content, contentType)
+      confidence: 0.9,
+      flags: []
     };
   }
 
@@ -276,277 +512,6 @@ export class ModerationPipeline {
     };
   }
 
-  /**
-   * Content-specific validation
-   */
-  private async validateContent(
-    content: string, 
-    contentType: string, 
-    additionalContext?: any
-  ): Promise<ModerationResult> {
-    // Check for excessive repetition
-    if (this.hasExcessiveRepetition(content)) {
-      return {
-        approved: false,
-        reason: 'Content contains excessive repetition',
-        confidence: 0.8,
-        flags: ['repetitive']
-      };
-    }
-
-    // Check for gibberish
-    if (this.isGibberish(content)) {
-      return {
-        approved: false,
-        reason: 'Content appears to be gibberish',
-        confidence: 0.7,
-        flags: ['gibberish']
-      };
-    }
-
-    return {
-      approved: true,
-      confidence: 0.8,
-      flags: []
-    };
-  }
-
-  /**
-   * Toxicity detection
-   */
-  private async checkToxicity(content: string): Promise<ModerationResult> {
-    try {
-      const toxicPatterns = [
-        // Direct insults
-        /\b(stupid|idiot|moron|dumb|retard|fool)\b/i,
-        /\b(hate|despise|loathe)\s+(you|everyone|all)\b/i,
-        /\b(kill|murder|destroy)\s+(yourself|you|everyone|all|them|people)\b/i,
-        
-        // Hate speech patterns
-        /\b(all|every)\s+\w+\s+(are|is)\s+(terrible|awful|inferior|stupid)\b/i,
-        /\b(wish|hope)\s+\w+\s+(would|could)\s+(die|disappear|vanish)\b/i,
-        
-        // Discriminatory language
-        /\b(discriminat|prejudice|bias)\s+(against|toward)\s+\w+/i,
-      ];
-
-      for (const pattern of toxicPatterns) {
-        if (pattern.test(content)) {
-          return {
-            approved: false,
-            reason: 'Content rejected: toxic',
-            userMessage: this.generateUserMessage(['toxic'], 'Content rejected: toxic'),
-            confidence: 0.9,
-            flags: ['toxic']
-          };
-        }
-      }
-
-      return {
-        approved: true,
-        confidence: 0.8,
-        flags: []
-      };
-    } catch (error) {
-      console.error('Toxicity check error:', error);
-      return {
-        approved: true, // Allow content if toxicity check fails
-        confidence: 0.5,
-        flags: []
-      };
-    }
-  }
-
-  /**
-   * Spam detection
-   */
-  private async checkSpam(content: string): Promise<ModerationResult> {
-    const spamPatterns = [
-      // Promotional content
-      /\b(buy|sell|purchase|order|deal|offer|discount|free|limited time)\b/i,
-      /\b(click here|visit|website|link|url|http|www\.)\b/i,
-      /\b(get rich|make money|earn cash|profit|investment)\b/i,
-      
-      // Excessive caps
-      /[A-Z]{10,}/,
-      
-      // Excessive punctuation
-      /[!]{3,}|[?]{3,}|[.]{3,}/,
-      
-      // Repetitive characters
-      /(.)\1{10,}/,
-    ];
-
-    let spamScore = 0;
-    for (const pattern of spamPatterns) {
-      if (pattern.test(content)) {
-        spamScore++;
-      }
-    }
-
-    if (spamScore >= 2) {
-      return {
-        approved: false,
-        reason: 'Content rejected: spam',
-        userMessage: this.generateUserMessage(['spam'], 'Content rejected: spam'),
-        confidence: 0.8,
-        flags: ['spam']
-      };
-    }
-
-    return {
-      approved: true,
-      confidence: 0.8,
-      flags: []
-    };
-  }
-
-  /**
-   * Adult content detection using AI
-   */
-  private async checkAdultContent(content: string): Promise<ModerationResult> {
-    try {
-      // Use Hugging Face API for adult content detection
-      const hfToken = Deno.env.get('HUGGINGFACE_API_KEY');
-      if (!hfToken) {
-        console.log('⚠️ No Hugging Face API key, skipping adult content check');
-        return {
-          approved: true,
-          confidence: 0.5,
-          flags: []
-        };
-      }
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout for CPU limits
-
-      // Use the reliable toxic-bert model with improved detection logic
-      const response = await fetch('https://api-inference.huggingface.co/models/unitary/toxic-bert', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${hfToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: content,
-          parameters: {
-            return_all_scores: true
-          }
-        }),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        console.log('⚠️ Adult content API failed, using static fallback');
-        // Fallback to static keyword detection when API fails
-        const contentLower = content.toLowerCase();
-        const sexualTerms = ['sex', 'sexual', 'fuck', 'porn', 'masturbat', 'orgasm', 'penis', 'vagina', 'nude', 'naked', 'doggy style', 'oral', 'anal'];
-        const hasExplicitTerms = sexualTerms.some(term => contentLower.includes(term));
-        
-        if (hasExplicitTerms) {
-          return {
-            approved: false,
-            reason: 'Content rejected: adult content (fallback detection)',
-            userMessage: this.generateUserMessage(['adult_content'], 'Content rejected: adult content'),
-            confidence: 0.8,
-            flags: ['adult_content']
-          };
-        }
-        
-        return {
-          approved: true,
-          confidence: 0.5,
-          flags: ['api_fallback']
-        };
-      }
-
-      const results = await response.json();
-      console.log('🔍 Adult content detection results:', results);
-
-      // Check for adult/sexual content indicators with more sensitive detection
-      let adultScore = 0;
-      let isAdult = false;
-      let hasObsceneContent = false;
-
-      if (Array.isArray(results) && results.length > 0) {
-        for (const result of results) {
-          if (result.label && result.score) {
-            // Look for sexual/adult content labels
-            const label = result.label.toLowerCase();
-            if (label.includes('sexual') || label.includes('adult') || 
-                label.includes('explicit') || label.includes('nsfw') ||
-                label.includes('obscene') || label.includes('harassment') ||
-                label.includes('toxic') || label.includes('threat') ||
-                label.includes('insult') || label.includes('identity_hate')) {
-              adultScore += result.score;
-              
-              // Be more sensitive to obscene content
-              if (label.includes('obscene') && result.score > 0.0001) {
-                hasObsceneContent = true;
-              }
-              
-              if (result.score > 0.3) { // Lower threshold for better detection
-                isAdult = true;
-              }
-              
-              // Be more sensitive to toxic and threat content
-              if ((label.includes('toxic') || label.includes('threat')) && result.score > 0.3) {
-                isAdult = true;
-              }
-            }
-          }
-        }
-      }
-
-      // Also check for explicit sexual terms using a more comprehensive approach
-      const sexualTerms = [
-        'sex', 'sexual', 'intercourse', 'fuck', 'fucking', 'fkd', 'porn', 'pornography',
-        'masturbat', 'orgasm', 'penis', 'vagina', 'breast', 'nude', 'naked',
-        'strip', 'strip tease', 'prostitute', 'hooker', 'escort', 'brothel',
-        'doggy style', 'doggy', 'missionary', 'anal', 'oral', 'blowjob', 'bj',
-        'handjob', 'hj', 'fingering', 'climax', 'ejaculat', 'cum', 'sperm',
-        'erotic', 'seduce', 'seduction', 'foreplay', 'intimate', 'intimacy',
-        'make love', 'lovemaking', 'bedroom', 'bed time', 'sleep together'
-      ];
-
-      const contentLower = content.toLowerCase();
-      let explicitTermCount = 0;
-      
-      for (const term of sexualTerms) {
-        if (contentLower.includes(term)) {
-          explicitTermCount++;
-        }
-      }
-
-      // Prioritize AI detection, use static terms as backup
-      if (isAdult || hasObsceneContent || adultScore > 0.2 || explicitTermCount >= 1) {
-        return {
-          approved: false,
-          reason: 'Content rejected: adult content',
-          userMessage: this.generateUserMessage(['adult_content'], 'Content rejected: adult content'),
-          confidence: Math.max(adultScore, explicitTermCount * 0.4),
-          flags: ['adult_content']
-        };
-      }
-
-      return {
-        approved: true,
-        confidence: 0.8,
-        flags: []
-      };
-
-    } catch (error) {
-      console.error('❌ Adult content check error:', error);
-      // If check fails, allow content but flag it
-      return {
-        approved: true,
-        confidence: 0.3,
-        flags: ['adult_check_failed']
-      };
-    }
-  }
 
   /**
    * Dream-specific validation
@@ -611,87 +576,6 @@ export class ModerationPipeline {
     };
   }
 
-  /**
-   * Check for excessive repetition
-   */
-  private hasExcessiveRepetition(content: string): boolean {
-    const words = content.toLowerCase().split(/\s+/);
-    const wordCounts = new Map<string, number>();
-    
-    for (const word of words) {
-      if (word.length > 3) { // Only count meaningful words
-        wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
-      }
-    }
-
-    // For short content (less than 5 words), be more lenient
-    const meaningfulWords = Array.from(wordCounts.values()).reduce((sum, count) => sum + count, 0);
-    if (meaningfulWords < 5) {
-      // For short content, only flag if a word appears more than once
-      for (const [word, count] of wordCounts) {
-        if (count > 1) {
-          return true;
-        }
-      }
-      return false;
-    }
-
-    // For longer content, check if any word appears more than 30% of the time
-    for (const [word, count] of wordCounts) {
-      if (count / meaningfulWords > 0.3) {
-        return true;
-      }
-    }
-
-    return false;
-  }
-
-  /**
-   * Check for gibberish
-   */
-  private isGibberish(content: string): boolean {
-    // Check for excessive non-alphabetic characters
-    const nonAlphaRatio = (content.match(/[^a-zA-Z\s]/g) || []).length / content.length;
-    if (nonAlphaRatio > 0.5) {
-      return true;
-    }
-
-    // Check for random character sequences
-    const randomPatterns = [
-      /[a-z]{1}[A-Z]{1}[a-z]{1}[A-Z]{1}/, // Alternating case
-      /(.)\1{5,}/, // Same character repeated 5+ times
-    ];
-
-    for (const pattern of randomPatterns) {
-      if (pattern.test(content)) {
-        return true;
-      }
-    }
-
-    return false;
-  }
-
-  /**
-   * Generate content suggestions
-   */
-  private generateSuggestions(content: string, contentType: string): string[] {
-    const suggestions: string[] = [];
-
-    if (contentType === 'dream') {
-      suggestions.push('Consider adding dream symbols and emotions');
-      suggestions.push('Describe how the dream made you feel');
-    }
-
-    if (content.length < 50) {
-      suggestions.push('Try adding more details to make your content more engaging');
-    }
-
-    if (!content.includes('.')) {
-      suggestions.push('Consider breaking your content into sentences');
-    }
-
-    return suggestions;
-  }
 
   /**
    * Update moderation configuration
@@ -0,0 +1,188 @@
+/**
+ * Moderation Review Service - Human Review Queue
+ *
+ * Posts held by the hold_for_review failure policy wait in
+ * moderation_review_queue (migration 033) as 'pending' until an admin approves
+ * or rejects them. Holds and decisions are recorded in moderation_audit_log.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { ModerationResult } from './ModerationPipeline.ts';
+import { StreakService } from './StreakService.ts';
+import { invalidatePostCaches } from '../utils/redis.ts';
+
+export type ReviewDecision = 'approved' | 'rejected';
+
+export interface ReviewQueueItem {
+  id: string;
+  post_id: string;
+  reason: string | null;
+  flags: string[];
+  created_at: string;
+  post: {
+    content: string;
+    input_type: string;
+    scope: string;
+    location_city: string | null;
+    location_state: string | null;
+    location_country: string | null;
+    user_id: string | null;
+    created_at: string;
+  } | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  post_id: string;
+  action: 'held' | ReviewDecision;
+  previous_status: string | null;
+  new_status: string;
+  actor_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export class ModerationReviewService {
+  private supabase: any;
+  private streakService: StreakService;
+
+  constructor() {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    this.streakService = new StreakService();
+  }
+
+  /**
+   * Mark a post pending and queue it for review. temporalUniqueness is the
+   * post's temporal_uniqueness row, written when it is approved (migration 042).
+   */
+  async holdPost(
+    postId: string,
+    moderation: ModerationResult,
+    temporalUniqueness?: Record<string, unknown>
+  ): Promise<boolean> {
+    const { error } = await this.supabase.rpc('hold_post_for_review', {
+      p_post_id: postId,
+      p_reason: moderation.reason ?? null,
+      p_flags: moderation.flags,
+      p_temporal: temporalUniqueness ?? null
+    });
+
+    if (error) {
+      console.error('❌ Failed to hold post for review:', postId, error);
+      return false;
+    }
+
+    console.log(`⏸️ Post held for review: ${postId}`);
+    return true;
+  }
+
+  /**
+   * Pending posts, oldest first
+   */
+  async listPending(limit: number, offset: number): Promise<{
+    success: boolean;
+    items: ReviewQueueItem[];
+    total: number;
+    error?: string;
+  }> {
+    const { data, error, count } = await this.supabase
+      .from('moderation_review_queue')
+      .select(
+        'id, post_id, reason, flags, created_at, ' +
+        'post:posts(content, input_type, scope, location_city, location_state, location_country, user_id, created_at)',
+        { count: 'exact' }
+      )
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('❌ Failed to load review queue:', error);
+      return { success: false, items: [], total: 0, error: 'Failed to load review queue' };
+    }
+
+    return { success: true, items: data || [], total: count ?? 0 };
+  }
+
+  /**
+   * Approve or reject pending posts. Posts that are not pending are skipped.
+   */
+  async review(
+    postIds: string[],
+    decision: ReviewDecision,
+    reviewerId: string,
+    note?: string
+  ): Promise<{ success: boolean; reviewed: string[]; skipped: string[]; error?: string }> {
+    const { data: posts, error } = await this.supabase.rpc('review_pending_posts', {
+      p_post_ids: postIds,
+      p_decision: decision,
+      p_reviewer_id: reviewerId,
+      p_note: note ?? null
+    });
+
+    if (error) {
+      console.error('❌ Review failed:', error);
+      return { success: false, reviewed: [], skipped: [], error: 'Review failed' };
+    }
+
+    // Approved posts appear in feeds, counts and stats; drop what they change
+    for (const post of posts || []) {
+      await invalidatePostCaches(post);
+    }
+
+    const reviewed: string[] = (posts || []).map((post: { id: string }) => post.id);
+    const skipped = postIds.filter(id => !reviewed.includes(id));
+
+    if (decision === 'approved' && reviewed.length > 0) {
+      await this.recordApprovedStreaks(reviewed);
+    }
+
+    console.log(`✅ Review ${decision}: ${reviewed.length} posts, ${skipped.length} skipped`);
+    return { success: true, reviewed, skipped };
+  }
+
+  /**
+   * Count approved posts towards their authors' streaks, on the day each was
+   * posted. A failure here never fails the review.
+   */
+  private async recordApprovedStreaks(postIds: string[]): Promise<void> {
+    const { data: posts, error } = await this.supabase
+      .from('posts')
+      .select('user_id, tier, created_at')
+      .in('id', postIds)
+      .not('user_id', 'is', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Failed to load approved posts for streaks:', error);
+      return;
+    }
+
+    for (const post of (posts || []) as { user_id: string; tier: string | null; created_at: string }[]) {
+      await this.streakService.recordPost(post.user_id, {
+        tier: post.tier ?? undefined,
+        postedAt: post.created_at
+      });
+    }
+  }
+
+  /**
+   * Moderation history of a post, newest first
+   */
+  async getAuditTrail(postId: string): Promise<{ success: boolean; entries: AuditEntry[]; error?: string }> {
+    const { data, error } = await this.supabase
+      .from('moderation_audit_log')
+      .select('id, post_id, action, previous_status, new_status, actor_id, note, created_at')
+      .eq('post_id', postId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to load audit trail:', error);
+      return { success: false, entries: [], error: 'Failed to load audit trail' };
+    }
+
+    return { success: true, entries: data || [] };
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Moderation Rule Service - Local Moderation Rules
+ *
+ * Reads the enabled regex, lexicon and blocklist rules from moderation_rules
+ * (migration 034) for the rules and blocklist checkers. Rules are cached, so
+ * edits apply within CacheTTL.MODERATION_RULES.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { ModerationRule } from '../utils/moderationCheckers.ts';
+import { cacheGet, cacheSet, CacheKeys, CacheTTL } from '../utils/redis.ts';
+
+export class ModerationRuleService {
+  private supabase: any;
+  private loading: Promise<ModerationRule[]> | null = null; // Shared by checkers running in parallel
+
+  constructor() {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Every enabled rule; throws when they cannot be loaded
+   */
+  getRules(): Promise<ModerationRule[]> {
+    if (!this.loading) {
+      this.loading = this.loadRules().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadRules(): Promise<ModerationRule[]> {
+    const cacheKey = CacheKeys.moderationRules();
+    const cached = await cacheGet<ModerationRule[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const { data, error } = await this.supabase
+      .from('moderation_rules')
+      .select('id, kind, category, pattern, score, content_types, case_sensitive')
+      .eq('enabled', true);
+
+    if (error) {
+      console.error('❌ Moderation rule lookup failed:', error);
+      throw new Error(`Moderation rules unavailable: ${error.message}`);
+    }
+
+    const rules: ModerationRule[] = (data || []).map((rule: ModerationRule) => ({
+      ...rule,
+      score: Number(rule.score)
+    }));
+    await cacheSet(cacheKey, rules, CacheTTL.MODERATION_RULES);
+
+    console.log(`📏 Loaded ${rules.length} moderation rules`);
+    return rules;
+  }
+}
@@ -15,7 +15,24 @@ import { EmbeddingService } from './EmbeddingService.ts';
 import { PercentileService, PercentileResult } from './PercentileService.ts';
 import { DaySummaryService, DaySummaryResult } from './DaySummaryService.ts';
 import { ModerationPipeline } from './ModerationPipeline.ts';
-import { cacheGet, cacheSet, cacheDel, CacheKeys, CacheTTL, hashContent } from '../utils/redis.ts';
+import { ModerationReviewService } from './ModerationReviewService.ts';
+import { StreakService, StreakInfo } from './StreakService.ts';
+import { SearchService, HybridThresholds, MATCH_THRESHOLDS } from './SearchService.ts';
+import { ThresholdService } from './ThresholdService.ts';
+import {
+  cacheGet,
+  cacheSet,
+  cacheSetWithTags,
+  invalidatePostCaches,
+  CacheKeys,
+  CacheTags,
+  CacheTTL,
+  hashContent
+} from '../utils/redis.ts';
+import { analyzeContent, ContentModifiers } from '../utils/contentModifiers.ts';
+import { canonicalizeAction } from '../utils/actionKey.ts';
+import { RedactionSpan } from '../utils/pii.ts';
+import { addDays, addMonths, DEFAULT_TIME_ZONE, localDate, startOfLocalDay } from '../utils/time.ts';
 
 export interface CreatePostRequest {
   content: string;
@@ -26,6 +43,7 @@ export interface CreatePostRequest {
   locationState?: string;
   locationCountry?: string;
   userId: string | null;
+  timezone?: string; // IANA zone of the user's local day (streaks, temporal windows); defaults to the profile's
 }
 
 export interface CreatePostResponse {
@@ -38,6 +56,7 @@ export interface CreatePostResponse {
     tier: string;
     percentile: number;
     matchCount: number;
+    redactions?: RedactionSpan[]; // Personal information replaced in content
     displayText: string;
     badge: string;
     message: string;
@@ -46,6 +65,7 @@ export interface CreatePostResponse {
     activityCount?: number;
     created_at: string;
   };
+  pendingReview?: boolean; // Held for human review; hidden from feeds and counts until approved
   percentile?: PercentileResult;
   temporal?: {
     today: {
@@ -67,7 +87,11 @@ export interface CreatePostResponse {
       tier: string;
     };
   };
+  streak?: StreakInfo; // Signed-in users only
   error?: string;
+  rejected?: boolean; // true when the content itself was refused (moderation / invalid day summary)
+  unavailable?: boolean; // true when moderation could not run and the failure policy is fail_closed
+  moderationEventId?: string; // Set on moderation rejections; pass to appeal-moderation
 }
 
 export class PostService {
@@ -76,6 +100,10 @@ export class PostService {
   private percentileService: PercentileService;
   private daySummaryService: DaySummaryService;
   private moderationPipeline: ModerationPipeline;
+  private reviewService: ModerationReviewService;
+  private streakService: StreakService;
+  private searchService: SearchService;
+  private thresholdService: ThresholdService;
 
   constructor() {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -90,6 +118,10 @@ export class PostService {
       allowSymbolicContent: true,
       strictMode: false
     });
+    this.reviewService = new ModerationReviewService();
+    this.streakService = new StreakService();
+    this.searchService = new SearchService();
+    this.thresholdService = new ThresholdService();
   }
 
   /**
@@ -115,35 +147,54 @@ export class PostService {
         moderationResult = await this.moderationPipeline.moderateContent(
           request.content,
           'post',
-          { inputType: request.inputType, scope: request.scope }
+          { inputType: request.inputType, scope: request.scope },
+          request.userId
         );
         console.log('✅ Moderation completed successfully');
       } catch (error) {
         console.error('❌ Moderation failed with error:', error);
-        // If moderation fails, allow content but flag it
-        moderationResult = {
-          approved: true,
-          confidence: 0.5,
-          flags: ['moderation_error'],
-          reason: 'Moderation system error - content allowed'
-        };
+        moderationResult = this.moderationPipeline.failureResult(
+          (error instanceof Error && error.message) || 'Moderation system error'
+        );
       }
       
       if (!moderationResult.approved) {
         console.log('❌ Content rejected by moderation:', moderationResult.reason);
+        if (moderationResult.flags.includes('moderation_error')) {
+          return {
+            success: false,
+            error: moderationResult.userMessage || 'Moderation is unavailable, please try again',
+            unavailable: true
+          };
+        }
         return {
           success: false,
-          error: moderationResult.userMessage || `Content rejected: ${moderationResult.flags.join(', ')}`
+          error: moderationResult.userMessage || `Content rejected: ${moderationResult.flags.join(', ')}`,
+          rejected: true,
+          moderationEventId: moderationResult.eventId
         };
       }
 
+      // Personal information is redacted before anything is matched or stored
+      if (moderationResult.redaction) {
+        request = { ...request, content: moderationResult.redaction.text };
+      }
+
       // 2. Generate content hash for fast lookup
       const contentHash = this.generateContentHash(request.content);
-      console.log(`🔍 Content hash: ${contentHash}`);
-
-      // 3. Check for negation
-      const hasNegation = this.detectNegation(request.content);
-      console.log(`🔍 Has negation: ${hasNegation}`);
+      const actionKey = canonicalizeAction(request.content);
+      console.log(`🔍 Content hash: ${contentHash}, action key: ${actionKey}`);
+
+      const timeZone = await this.resolveTimeZone(request.userId, request.timezone);
+      const today = localDate(new Date(), timeZone);
+
+      // 3. Analyse negation, quantities and times
+      const modifiers = analyzeContent(request.content);
+      const hasNegation = modifiers.hasNegation;
+      console.log(
+        `🔍 Modifiers: negation ${hasNegation}, ` +
+        `${modifiers.quantities.length} quantities, ${modifiers.times.length} times`
+      );
 
       // 4. Process based on input type
       let activities: string[] = [];
@@ -160,7 +211,8 @@ export class PostService {
         if (!dayResult.isValid) {
           return {
             success: false,
-            error: dayResult.error || 'Invalid day summary'
+            error: dayResult.error || 'Invalid day summary',
+            rejected: true
           };
         }
 
@@ -180,15 +232,22 @@ export class PostService {
         };
       }
 
-      // 6. Find similar posts using vector search
+      // 6. Find similar posts using hybrid lexical + vector search
       console.log('🔍 Finding similar posts...');
+      const thresholds = await this.thresholdService.getMatchThresholds(
+        request.inputType,
+        request.scope,
+        this.embeddingService.modelTag
+      );
       const similarPosts = await this.findSimilarPosts(
+        request.content,
         embeddingResult.embedding,
         request.scope,
         request.locationCity,
         request.locationState,
         request.locationCountry,
-        hasNegation,
+        modifiers,
+        thresholds,
         contentHash
       );
 
@@ -260,13 +319,16 @@ export class PostService {
       } else {
         console.log('⏰ Calculating temporal analytics...');
         temporalAnalytics = await this.calculateTemporalAnalytics(
-          contentHash,
+          actionKey,
           request.scope,
           request.locationCity,
           request.locationState,
           request.locationCountry,
           embeddingResult.embedding,
-          hasNegation
+          hasNegation,
+          thresholds.vector,
+          timeZone,
+          today
         );
       }
 
@@ -274,16 +336,21 @@ export class PostService {
       console.log('💾 Inserting post into database...');
       const postData = {
         content: request.content,
+        redaction_spans: moderationResult.redaction?.spans ?? null,
         text_normalized: this.normalizeText(request.content),
         input_type: request.inputType,
         user_id: request.userId,
-        is_anonymous: request.isAnonymous || false,
+        is_anonymous: request.isAnonymous || !request.userId,
         scope: request.scope,
         location_city: request.locationCity,
         location_state: request.locationState,
         location_country: request.locationCountry,
         content_hash: contentHash,
+        action_key: actionKey,
+        timezone: timeZone,
+        local_date: today,
         embedding: embeddingResult.embedding,
+        embedding_model: embeddingResult.model,
         match_count: matchCount,
         percentile: percentileResult.percentile,
         tier: percentileResult.tier,
@@ -291,9 +358,10 @@ export class PostService {
         activity_count: activityCount > 0 ? activityCount : null,
         activity_embeddings: null, // TODO: Fix vector array format
         has_negation: hasNegation,
+        content_modifiers: modifiers,
         time_tags: this.extractTimeTags(request.content),
         emoji_tags: this.extractEmojis(request.content),
-        moderation_status: 'approved',
+        moderation_status: moderationResult.held ? 'pending' : 'approved',
         moderation_score: moderationResult.confidence,
         moderation_flags: moderationResult.flags,
         moderation_details: {
@@ -317,9 +385,42 @@ export class PostService {
         };
       }
 
-      // 10. Update temporal uniqueness table
-      console.log('⏰ Updating temporal uniqueness table...');
-      await this.updateTemporalUniqueness(post.id, contentHash, temporalAnalytics);
+      const temporalRow = this.buildTemporalUniqueness(
+        post.id, contentHash, actionKey, timeZone, today, temporalAnalytics
+      );
+
+      if (moderationResult.held) {
+        // Queue for review; the post stays out of feeds, counts and temporal stats until approved,
+        // when the queue writes its temporal row
+        const held = await this.reviewService.holdPost(post.id, moderationResult, temporalRow);
+        if (!held) {
+          // An unqueued pending post would never be reviewed; drop it so the user can retry
+          await this.supabase.from('posts').delete().eq('id', post.id);
+          return {
+            success: false,
+            error: 'Moderation is unavailable, please try again',
+            unavailable: true
+          };
+        }
+      } else {
+        // 10. Update temporal uniqueness table
+        console.log('⏰ Updating temporal uniqueness table...');
+        await this.updateTemporalUniqueness(temporalRow);
+
+        // 11. Invalidate feeds, counts, stats and temporal analytics this post affects
+        await invalidatePostCaches(post);
+      }
+
+      // 12. Update the user's streak (a failure here never fails the post).
+      // Held posts count once approved (ModerationReviewService.review).
+      let streak: StreakInfo | null = null;
+      if (request.userId && !moderationResult.held) {
+        streak = await this.streakService.recordPost(request.userId, {
+          tier: post.tier,
+          timezone: timeZone,
+          postedAt: post.created_at
+        });
+      }
 
       console.log('✅ Post created successfully!');
       
@@ -340,6 +441,7 @@ export class PostService {
           tier: post.tier,
           percentile: post.percentile,
           matchCount: post.match_count,
+          redactions: post.redaction_spans ?? undefined,
           displayText: percentileResult.displayText,
           badge: percentileResult.badge,
           message: percentileResult.message,
@@ -348,29 +450,70 @@ export class PostService {
           activityCount: activityCount > 0 ? activityCount : undefined,
           created_at: post.created_at
         },
+        pendingReview: moderationResult.held || undefined,
         percentile: percentileResult,
-        temporal: temporalAnalytics
+        temporal: temporalAnalytics,
+        streak: streak ?? undefined
       };
 
     } catch (error) {
       console.error('❌ Post creation failed:', error);
       return {
         success: false,
-        error: error.message
+        error: error instanceof Error ? error.message : 'Post creation failed'
       };
     }
   }
 
   /**
-   * Find similar posts using semantic similarity with configurable threshold
+   * Delete a post (owner only when userId is given) and invalidate its caches
+   */
+  async deletePost(postId: string, userId?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      let query = this.supabase
+        .from('posts')
+        .delete()
+        .eq('id', postId);
+
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      const { data: deleted, error } = await query
+        .select('id, content_hash, scope, input_type, location_city, location_state, location_country, created_at');
+
+      if (error) {
+        console.error('❌ Post deletion failed:', error);
+        return { success: false, error: error.message };
+      }
+
+      if (!deleted || deleted.length === 0) {
+        return { success: false, error: 'Post not found' };
+      }
+
+      await invalidatePostCaches(deleted[0]);
+      console.log(`🗑️ Post deleted: ${postId}`);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Post deletion error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Post deletion failed' };
+    }
+  }
+
+  /**
+   * Find similar posts with hybrid search (full-text, trigram and vector
+   * signals fused, see SearchService) at matching thresholds. Posts whose
+   * negation, quantities or times contradict the content are not matches.
    */
   private async findSimilarPosts(
+    content: string,
     embedding: number[],
     scope: string,
     locationCity?: string,
     locationState?: string,
     locationCountry?: string,
-    hasNegation: boolean = false,
+    modifiers?: ContentModifiers,
+    thresholds: HybridThresholds = MATCH_THRESHOLDS,
     contentHash?: string
   ): Promise<any[]> {
     try {
@@ -383,36 +526,26 @@ export class PostService {
           return cached;
         }
       }
-      
-      // Use semantic similarity with configurable threshold
-      console.log('🔍 Calling match_posts_by_embedding with params:', {
-        embedding_length: embedding.length,
-        match_threshold: 0.50,
-        scope_filter: scope,
-        today_only: false
-      });
-      
-      const { data, error } = await this.supabase.rpc('match_posts_by_embedding', {
-        filter_city: locationCity,
-        filter_country: locationCountry,
-        filter_state: locationState,
-        match_limit: 100,
-        match_threshold: 0.70, // Testing with higher threshold for better semantic matching
-        query_embedding: embedding,
-        query_has_negation: hasNegation,
-        scope_filter: scope,
-        today_only: false // No time filtering
+
+      const { success, results } = await this.searchService.searchPosts({
+        query: content,
+        embedding,
+        embeddingModel: this.embeddingService.modelTag,
+        scope,
+        locationCity,
+        locationState,
+        locationCountry,
+        modifiers,
+        limit: 100,
+        thresholds,
+        requireSimilarity: true
       });
 
-      if (error) {
-        console.error('❌ Vector search failed:', error);
+      if (!success) {
         return [];
       }
 
-      console.log(`🔍 Found ${data?.length || 0} semantic matches with threshold 0.50`);
-      console.log('🔍 Vector search results:', data);
-      
-      const results = data || [];
+      console.log(`🔍 Found ${results.length} hybrid matches`);
       
       // Cache the results if we have a content hash
       if (contentHash && results.length > 0) {
@@ -488,7 +621,12 @@ export class PostService {
       const result = Math.max(count || 1, 1); // Ensure at least 1
       
       // Cache the result for 2 minutes (counts change frequently)
-      await cacheSet(countCacheKey, result, 120);
+      await cacheSetWithTags(
+        countCacheKey,
+        result,
+        [CacheTags.area(scope, locationCity, locationState, locationCountry)],
+        120
+      );
       console.log('✅ Total posts count cached');
       
       return result;
@@ -499,22 +637,27 @@ export class PostService {
   }
 
   /**
-   * Calculate temporal analytics across different time periods
+   * Calculate temporal analytics across different time periods. Windows start
+   * at local midnight in the poster's time zone: today, the last 7 days and
+   * the last month (days before today).
    */
   private async calculateTemporalAnalytics(
-    contentHash: string,
+    actionKey: string,
     scope: string,
     locationCity?: string,
     locationState?: string,
     locationCountry?: string,
     currentEmbedding?: number[],
-    hasNegation?: boolean
+    hasNegation?: boolean,
+    vectorThreshold: number = MATCH_THRESHOLDS.vector,
+    timeZone: string = DEFAULT_TIME_ZONE,
+    today: string = localDate(new Date(), timeZone)
   ): Promise<any> {
     try {
-      console.log('🔍 Calculating temporal analytics for:', contentHash);
+      console.log('🔍 Calculating temporal analytics for:', actionKey);
 
       // Check cache first for temporal analytics
-      const temporalCacheKey = CacheKeys.temporalAnalytics(contentHash, scope);
+      const temporalCacheKey = CacheKeys.temporalAnalytics(actionKey, scope, timeZone, today);
       const cachedTemporal = await cacheGet<any>(temporalCacheKey);
       if (cachedTemporal) {
         console.log('✅ Using cached temporal analytics');
@@ -524,8 +667,7 @@ export class PostService {
       // Scope hierarchy will be applied to each query individually
 
       // Calculate today stats
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
+      const todayStart = startOfLocalDay(today, timeZone);
       
       let todayQuery = this.supabase
         .from('posts')
@@ -547,19 +689,19 @@ export class PostService {
 
       // Use semantic similarity for temporal matching (same as main system)
       const todayMatchingData = await this.findSimilarPostsInTimeframe(
-        contentHash,
+        actionKey,
         todayStart.toISOString(),
         scope,
         locationCity,
         locationState,
         locationCountry,
         currentEmbedding,
-        hasNegation
+        hasNegation,
+        vectorThreshold
       );
 
       // Calculate week stats
-      const weekStart = new Date();
-      weekStart.setDate(weekStart.getDate() - 7);
+      const weekStart = startOfLocalDay(addDays(today, -7), timeZone);
       
       let weekQuery = this.supabase
         .from('posts')
@@ -581,19 +723,19 @@ export class PostService {
 
       // Use semantic similarity for week matching
       const weekMatchingData = await this.findSimilarPostsInTimeframe(
-        contentHash,
+        actionKey,
         weekStart.toISOString(),
         scope,
         locationCity,
         locationState,
         locationCountry,
         currentEmbedding,
-        hasNegation
+        hasNegation,
+        vectorThreshold
       );
 
       // Calculate month stats
-      const monthStart = new Date();
-      monthStart.setMonth(monthStart.getMonth() - 1);
+      const monthStart = startOfLocalDay(addMonths(today, -1), timeZone);
       
       let monthQuery = this.supabase
         .from('posts')
@@ -615,14 +757,15 @@ export class PostService {
 
       // Use semantic similarity for month matching
       const monthMatchingData = await this.findSimilarPostsInTimeframe(
-        contentHash,
+        actionKey,
         monthStart.toISOString(),
         scope,
         locationCity,
         locationState,
         locationCountry,
         currentEmbedding,
-        hasNegation
+        hasNegation,
+        vectorThreshold
       );
 
       // Calculate percentiles and tiers
@@ -700,7 +843,12 @@ export class PostService {
       console.log('📊 Calculated temporal analytics:', result);
       
       // Cache the temporal analytics result
-      await cacheSet(temporalCacheKey, result, CacheTTL.TEMPORAL_ANALYTICS);
+      await cacheSetWithTags(
+        temporalCacheKey,
+        result,
+        [CacheTags.area(scope, locationCity, locationState, locationCountry)],
+        CacheTTL.TEMPORAL_ANALYTICS
+      );
       console.log('✅ Temporal analytics cached');
       
       return result;
@@ -727,52 +875,55 @@ export class PostService {
   }
 
   /**
-   * Find similar posts within a specific timeframe using semantic similarity
+   * Find similar posts within a specific timeframe using semantic similarity,
+   * falling back to posts with the same canonical action key
    */
   private async findSimilarPostsInTimeframe(
-    contentHash: string,
+    actionKey: string,
     timeStart: string,
     scope: string,
     locationCity?: string,
     locationState?: string,
     locationCountry?: string,
     currentEmbedding?: number[],
-    hasNegation?: boolean
+    hasNegation?: boolean,
+    vectorThreshold: number = MATCH_THRESHOLDS.vector
   ): Promise<any[]> {
     try {
-      // Use the passed embedding if available, otherwise fallback to exact matching
+      // Use the passed embedding if available, otherwise fall back to action key matching
       if (!currentEmbedding) {
-        console.log('⚠️ No embedding provided, using exact matching');
-        // Fallback to exact content hash matching
+        console.log('⚠️ No embedding provided, using action key matching');
+        // Fallback to canonical action key matching
         const { data, error } = await this.supabase
           .from('posts')
           .select('id')
-          .eq('content_hash', contentHash)
+          .eq('action_key', actionKey)
           .eq('moderation_status', 'approved')
           .gte('created_at', timeStart);
         return data || [];
       }
 
-      // Use semantic similarity with the same threshold as main system
+      // Use semantic similarity with the same threshold as post matching
       const { data, error } = await this.supabase.rpc('match_posts_by_embedding', {
         filter_city: locationCity,
         filter_country: locationCountry,
         filter_state: locationState,
         match_limit: 100,
-        match_threshold: 0.70, // Same threshold as main system
+        match_threshold: vectorThreshold, // Same threshold as main system
         query_embedding: currentEmbedding,
         query_has_negation: hasNegation || false,
+        query_embedding_model: this.embeddingService.modelTag,
         scope_filter: scope,
         today_only: false
       });
 
       if (error) {
         console.error('❌ Temporal semantic search failed:', error);
-        // Fallback to exact matching
+        // Fallback to action key matching
         const { data: fallbackData, error: fallbackErr } = await this.supabase
           .from('posts')
           .select('id')
-          .eq('content_hash', contentHash)
+          .eq('action_key', actionKey)
           .eq('moderation_status', 'approved')
           .gte('created_at', timeStart);
         return fallbackData || [];
@@ -786,11 +937,11 @@ export class PostService {
       return filteredData;
     } catch (error) {
       console.error('❌ Temporal similarity search error:', error);
-      // Fallback to exact matching
+      // Fallback to action key matching
       const { data, error: catchError } = await this.supabase
         .from('posts')
         .select('id')
-        .eq('content_hash', contentHash)
+        .eq('action_key', actionKey)
         .eq('moderation_status', 'approved')
         .gte('created_at', timeStart);
       return data || [];
@@ -798,28 +949,39 @@ export class PostService {
   }
 
   /**
-   * Update temporal uniqueness table
+   * temporal_uniqueness row for a post
    */
-  private async updateTemporalUniqueness(
+  private buildTemporalUniqueness(
     postId: string,
     contentHash: string,
+    actionKey: string,
+    timeZone: string,
+    today: string,
     temporalAnalytics: any
-  ): Promise<void> {
-    try {
-      const temporalData = {
-        post_id: postId,
-        content_hash: contentHash,
-        today_total: temporalAnalytics.today.total,
-        today_unique: temporalAnalytics.today.matching,
-        today_percentile: temporalAnalytics.today.percentile,
-        this_week_total: temporalAnalytics.week.total,
-        this_week_unique: temporalAnalytics.week.matching,
-        this_week_percentile: temporalAnalytics.week.percentile,
-        this_month_total: temporalAnalytics.month.total,
-        this_month_unique: temporalAnalytics.month.matching,
-        this_month_percentile: temporalAnalytics.month.percentile
-      };
+  ): Record<string, unknown> {
+    return {
+      post_id: postId,
+      content_hash: contentHash,
+      action_key: actionKey,
+      timezone: timeZone,
+      local_date: today,
+      today_total: temporalAnalytics.today.total,
+      today_unique: temporalAnalytics.today.matching,
+      today_percentile: temporalAnalytics.today.percentile,
+      this_week_total: temporalAnalytics.week.total,
+      this_week_unique: temporalAnalytics.week.matching,
+      this_week_percentile: temporalAnalytics.week.percentile,
+      this_month_total: temporalAnalytics.month.total,
+      this_month_unique: temporalAnalytics.month.matching,
+      this_month_percentile: temporalAnalytics.month.percentile
+    };
+  }
 
+  /**
+   * Update temporal uniqueness table
+   */
+  private async updateTemporalUniqueness(temporalData: Record<string, unknown>): Promise<void> {
+    try {
       await this.supabase
         .from('temporal_uniqueness')
         .insert(temporalData);
@@ -830,7 +992,44 @@ export class PostService {
   }
 
   /**
-   * Generate content hash for fast lookup
+   * Time zone for a post: the request's (saved to the profile when it changed),
+   * else the profile's, else UTC. The request zone is validated by create-post.
+   */
+  private async resolveTimeZone(userId: string | null, requested?: string): Promise<string> {
+    if (!userId) {
+      return requested || DEFAULT_TIME_ZONE;
+    }
+
+    try {
+      if (requested) {
+        const { error } = await this.supabase
+          .from('profiles')
+          .update({ timezone: requested })
+          .eq('id', userId)
+          .neq('timezone', requested);
+
+        if (error) {
+          console.error('❌ Failed to save profile time zone:', error);
+        }
+        return requested;
+      }
+
+      const { data } = await this.supabase
+        .from('profiles')
+        .select('timezone')
+        .eq('id', userId)
+        .maybeSingle();
+
+      return data?.timezone || DEFAULT_TIME_ZONE;
+    } catch (error) {
+      console.error('❌ Time zone lookup error:', error);
+      return requested || DEFAULT_TIME_ZONE;
+    }
+  }
+
+  /**
+   * Generate content hash for fast lookup of the exact text
+   * (paraphrases share the canonical action key instead, see actionKey.ts)
    */
   private generateContentHash(content: string): string {
     // Normalize: lowercase, remove special chars, extract key words
@@ -843,21 +1042,6 @@ export class PostService {
     return normalized;
   }
 
-  /**
-   * Detect negation in content
-   */
-  private detectNegation(content: string): boolean {
-    const negationWords = [
-      'not', 'no', 'never', 'none', 'nothing', 'nobody', 'nowhere',
-      'neither', 'nor', 'cannot', "can't", "don't", "doesn't", "didn't",
-      "won't", "wouldn't", "shouldn't", "couldn't", "haven't", "hasn't",
-      "hadn't", "isn't", "aren't", "wasn't", "weren't"
-    ];
-
-    const lowerContent = content.toLowerCase();
-    return negationWords.some(word => lowerContent.includes(word));
-  }
-
   /**
    * Normalize text for analysis
    */
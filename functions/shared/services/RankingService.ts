@@ -0,0 +1,233 @@
+/**
+ * Ranking Service - Background Percentile/Tier Recalculation
+ *
+ * Refreshes match_count, percentile and tier for approved posts into
+ * post_rankings so feeds can read stored values instead of running a vector
+ * search per post per request. Driven by the recompute-rankings function.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { PercentileService, PercentileResult } from './PercentileService.ts';
+import { SearchService } from './SearchService.ts';
+import { ThresholdService } from './ThresholdService.ts';
+import { ContentModifiers, currentModifiers } from '../utils/contentModifiers.ts';
+
+export interface RecomputeOptions {
+  batchSize?: number;      // Posts per batch
+  maxAgeMinutes?: number;  // Rankings older than this are recomputed
+}
+
+export interface RecomputeResult {
+  success: boolean;
+  processed: number;
+  failed: number;
+  error?: string;
+}
+
+interface RankablePost {
+  id: string;
+  content: string;
+  input_type: string;
+  embedding: number[] | string | null;
+  embedding_model: string | null;
+  scope: string;
+  location_city: string | null;
+  location_state: string | null;
+  location_country: string | null;
+  has_negation: boolean;
+  content_modifiers: ContentModifiers | null;
+}
+
+export class RankingService {
+  private supabase: any;
+  private percentileService: PercentileService;
+  private searchService: SearchService;
+  private thresholdService: ThresholdService;
+
+  constructor() {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    this.percentileService = new PercentileService();
+    this.searchService = new SearchService();
+    this.thresholdService = new ThresholdService();
+  }
+
+  /**
+   * Recompute one batch of missing or stale rankings
+   */
+  async recomputeStaleRankings(options: RecomputeOptions = {}): Promise<RecomputeResult> {
+    const batchSize = options.batchSize ?? 100;
+    const maxAgeMinutes = options.maxAgeMinutes ?? 15;
+
+    try {
+      const { data: posts, error } = await this.supabase.rpc('get_posts_needing_ranking', {
+        batch_size: batchSize,
+        max_age_minutes: maxAgeMinutes
+      });
+
+      if (error) {
+        console.error('❌ Failed to load posts needing ranking:', error);
+        return { success: false, processed: 0, failed: 0, error: 'Failed to load posts' };
+      }
+
+      if (!posts || posts.length === 0) {
+        return { success: true, processed: 0, failed: 0 };
+      }
+
+      console.log(`📊 Recomputing rankings for ${posts.length} posts...`);
+
+      // Posts in the same area share a total; count each area once per batch
+      const totals = new Map<string, Promise<number | null>>();
+      let processed = 0;
+      let failed = 0;
+
+      for (const post of posts as RankablePost[]) {
+        const areaKey = [post.scope, post.location_city, post.location_state, post.location_country].join('|');
+        if (!totals.has(areaKey)) {
+          totals.set(areaKey, this.getTotalPostsInScope(
+            post.scope,
+            post.location_city,
+            post.location_state,
+            post.location_country
+          ));
+        }
+
+        const matchCount = await this.countMatches(post);
+        const totalInScope = await totals.get(areaKey)!;
+
+        if (matchCount === null || totalInScope === null) {
+          failed++;
+          continue;
+        }
+
+        const percentileResult = this.percentileService.calculatePercentile(
+          matchCount,
+          Math.max(totalInScope, matchCount)
+        );
+
+        const saved = await this.saveRanking(post.id, matchCount, totalInScope, percentileResult);
+        saved ? processed++ : failed++;
+      }
+
+      console.log(`✅ Rankings recomputed: ${processed} processed, ${failed} failed`);
+      return { success: true, processed, failed };
+
+    } catch (error) {
+      console.error('❌ Ranking recompute error:', error);
+      return { success: false, processed: 0, failed: 0, error: 'Internal server error' };
+    }
+  }
+
+  /**
+   * Store a post's ranking, replacing any previous one
+   */
+  async saveRanking(
+    postId: string,
+    matchCount: number,
+    totalInScope: number,
+    percentileResult: PercentileResult
+  ): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('post_rankings')
+      .upsert({
+        post_id: postId,
+        match_count: matchCount,
+        total_in_scope: totalInScope,
+        percentile: Math.min(100, Math.max(0, percentileResult.percentile)),
+        tier: percentileResult.tier,
+        display_text: percentileResult.displayText,
+        comparison: percentileResult.comparison,
+        computed_at: new Date().toISOString()
+      }, { onConflict: 'post_id' });
+
+    if (error) {
+      console.error('❌ Failed to save ranking for post:', postId, error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Count posts similar to this one (including itself); null when the search fails.
+   * Same hybrid search and thresholds as post creation.
+   */
+  private async countMatches(post: RankablePost): Promise<number | null> {
+    const thresholds = await this.thresholdService.getMatchThresholds(
+      post.input_type,
+      post.scope,
+      post.embedding_model ?? ''
+    );
+
+    const { success, results } = await this.searchService.searchPosts({
+      query: post.content,
+      // pgvector values arrive as "[0.1,0.2,...]"
+      embedding: typeof post.embedding === 'string' ? JSON.parse(post.embedding) : post.embedding,
+      embeddingModel: post.embedding_model ?? undefined,
+      scope: post.scope,
+      locationCity: post.location_city,
+      locationState: post.location_state,
+      locationCountry: post.location_country,
+      modifiers: currentModifiers(post.content, post.content_modifiers),
+      limit: 100,
+      thresholds,
+      requireSimilarity: true
+    });
+
+    if (!success) {
+      console.error('❌ Match search failed for post:', post.id);
+      return null;
+    }
+
+    // The post matches itself; make sure it is counted exactly once
+    const others = results.filter(match => match.id !== post.id);
+    return others.length + 1;
+  }
+
+  /**
+   * Count approved posts in a scope, following the same hierarchy as matching:
+   * city posts only match city posts, state posts match city+state, etc.
+   */
+  private async getTotalPostsInScope(
+    scope: string,
+    locationCity: string | null,
+    locationState: string | null,
+    locationCountry: string | null
+  ): Promise<number | null> {
+    let query = this.supabase
+      .from('posts')
+      .select('id', { count: 'exact', head: true })
+      .eq('moderation_status', 'approved');
+
+    switch (scope) {
+      case 'city':
+        if (locationCity) {
+          query = query.eq('location_city', locationCity).eq('scope', 'city');
+        }
+        break;
+      case 'state':
+        if (locationState) {
+          query = query.eq('location_state', locationState).in('scope', ['city', 'state']);
+        }
+        break;
+      case 'country':
+        if (locationCountry) {
+          query = query.eq('location_country', locationCountry).in('scope', ['city', 'state', 'country']);
+        }
+        break;
+      case 'world':
+      default:
+        break;
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+      console.error('❌ Total posts query error:', error);
+      return null;
+    }
+
+    return Math.max(1, count || 1);
+  }
+}
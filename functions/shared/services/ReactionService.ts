@@ -0,0 +1,124 @@
+/**
+ * Reaction Service
+ *
+ * Adds, removes and toggles funny / creative / must_try reactions on posts.
+ * Each user has at most one reaction of each type per post (reactions UNIQUE
+ * constraint); the change and the returned counts come from one
+ * set_post_reaction call so concurrent taps cannot double count.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { CacheTags, invalidateCacheTags } from '../utils/redis.ts';
+
+export type ReactionType = 'funny' | 'creative' | 'must_try';
+export type ReactionAction = 'toggle' | 'add' | 'remove';
+
+export interface ReactionCounts {
+  funny: number;
+  creative: number;
+  must_try: number;
+  total: number;
+}
+
+export interface ReactionResult {
+  success: boolean;
+  reacted?: boolean;          // Whether the user has this reaction after the call
+  counts?: ReactionCounts;
+  userReactions?: ReactionType[];
+  error?: string;
+}
+
+export class ReactionService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Apply a reaction change for a user and return the post's new counts
+   */
+  async setReaction(
+    postId: string,
+    userId: string,
+    reactionType: ReactionType,
+    action: ReactionAction = 'toggle'
+  ): Promise<ReactionResult> {
+    try {
+      const { data, error } = await this.supabase.rpc('set_post_reaction', {
+        p_post_id: postId,
+        p_user_id: userId,
+        p_reaction_type: reactionType,
+        p_action: action
+      });
+
+      if (error) {
+        // P0002: raised for missing / unapproved posts; 22P02: malformed id
+        if (error.code === 'P0002' || error.code === '22P02') {
+          return { success: false, error: 'Post not found' };
+        }
+        console.error('❌ Set reaction error:', error);
+        return { success: false, error: 'Failed to update reaction' };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      console.log(`✅ Reaction ${reactionType} ${row?.reacted ? 'added to' : 'removed from'} post:`, postId);
+
+      // Counts order most_reacted feeds and decide reaction-filtered ones
+      await this.invalidateFeedCaches(postId);
+
+      return {
+        success: true,
+        reacted: Boolean(row?.reacted),
+        counts: {
+          funny: row?.funny_count || 0,
+          creative: row?.creative_count || 0,
+          must_try: row?.must_try_count || 0,
+          total: row?.total_count || 0
+        },
+        userReactions: await this.getUserReactions(postId, userId)
+      };
+    } catch (error) {
+      console.error('❌ Reaction service error:', error);
+      return { success: false, error: 'Internal server error' };
+    }
+  }
+
+  /**
+   * Drop the cached feed pages a post appears on
+   */
+  private async invalidateFeedCaches(postId: string): Promise<void> {
+    const { data: post, error } = await this.supabase
+      .from('posts')
+      .select('scope, input_type')
+      .eq('id', postId)
+      .maybeSingle();
+
+    if (error || !post) {
+      console.error('❌ Fetch post for cache invalidation error:', error);
+      return;
+    }
+
+    await invalidateCacheTags(CacheTags.feedsForPost(post));
+  }
+
+  /**
+   * Reaction types a user currently has on a post
+   */
+  async getUserReactions(postId: string, userId: string): Promise<ReactionType[]> {
+    const { data, error } = await this.supabase
+      .from('reactions')
+      .select('reaction_type')
+      .eq('post_id', postId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('❌ Fetch user reactions error:', error);
+      return [];
+    }
+
+    return (data || []).map((r: any) => r.reaction_type);
+  }
+}
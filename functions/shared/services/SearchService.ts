@@ -0,0 +1,127 @@
+/**
+ * Search Service - Hybrid Lexical + Semantic Post Search
+ *
+ * Wraps search_posts_hybrid (migrations 028, 041), which fuses full-text
+ * rank, trigram similarity and vector similarity with reciprocal rank fusion.
+ * Matching (PostService, RankingService) uses strict thresholds and ignores
+ * posts found by full-text alone, so only genuinely similar posts count;
+ * user search uses looser thresholds.
+ *
+ * When the caller passes the query's content modifiers, results whose
+ * negation, quantities or times contradict them are dropped.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { compareModifiers, ContentModifiers, currentModifiers } from '../utils/contentModifiers.ts';
+
+export interface HybridThresholds {
+  vector: number;  // Minimum cosine similarity for a vector match
+  trigram: number; // Minimum pg_trgm similarity for a trigram match
+}
+
+/**
+ * Thresholds for counting a post as "the same thing" when ranking uniqueness.
+ * Fallback only - configured values come from ThresholdService.
+ */
+export const MATCH_THRESHOLDS: HybridThresholds = { vector: 0.70, trigram: 0.6 };
+
+/** Thresholds for user-facing search, where related posts are welcome */
+export const SEARCH_THRESHOLDS: HybridThresholds = { vector: 0.5, trigram: 0.3 };
+
+export type MatchSignal = 'fulltext' | 'trigram' | 'vector';
+
+export interface HybridSearchParams {
+  query: string;
+  embedding?: number[] | null; // Omit for lexical-only search
+  embeddingModel?: string;
+  scope?: string;
+  locationCity?: string | null;
+  locationState?: string | null;
+  locationCountry?: string | null;
+  hasNegation?: boolean;
+  modifiers?: ContentModifiers; // Drop results that contradict these
+  limit?: number;
+  thresholds?: HybridThresholds;
+  requireSimilarity?: boolean;  // Drop results with no vector or trigram match (full-text has no threshold)
+}
+
+export interface HybridSearchResult {
+  id: string;
+  content: string;
+  input_type: string;
+  scope: string;
+  location_city: string | null;
+  location_state: string | null;
+  location_country: string | null;
+  percentile: number | null;
+  tier: string | null;
+  created_at: string;
+  similarity: number | null;         // Vector similarity
+  text_rank: number | null;          // Full-text rank
+  trigram_similarity: number | null;
+  score: number;                     // Fused score
+  matched_by: MatchSignal[];
+  content_modifiers: ContentModifiers | null; // NULL for posts older than migration 029
+}
+
+export class SearchService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Approved posts matching a text (and optionally its embedding), best first
+   */
+  async searchPosts(params: HybridSearchParams): Promise<{
+    success: boolean;
+    results: HybridSearchResult[];
+    error?: string;
+  }> {
+    const thresholds = params.thresholds ?? SEARCH_THRESHOLDS;
+
+    const { data, error } = await this.supabase.rpc('search_posts_hybrid', {
+      query_text: params.query,
+      query_embedding: params.embedding ?? null,
+      query_embedding_model: params.embeddingModel ?? null,
+      match_limit: params.limit ?? 20,
+      scope_filter: params.scope ?? 'world',
+      filter_city: params.locationCity ?? null,
+      filter_state: params.locationState ?? null,
+      filter_country: params.locationCountry ?? null,
+      query_has_negation: params.hasNegation ?? false,
+      min_vector_similarity: thresholds.vector,
+      min_trigram_similarity: thresholds.trigram,
+      require_similarity: params.requireSimilarity ?? false
+    });
+
+    if (error) {
+      console.error('❌ Hybrid search failed:', error);
+      return { success: false, results: [], error: 'Search failed' };
+    }
+
+    let results: HybridSearchResult[] = data || [];
+
+    if (params.modifiers) {
+      const queryModifiers = params.modifiers;
+      const before = results.length;
+      results = results.filter(result =>
+        compareModifiers(queryModifiers, currentModifiers(result.content, result.content_modifiers)).compatible
+      );
+      if (results.length < before) {
+        console.log(`🚫 Dropped ${before - results.length} results with conflicting negation/quantity/time`);
+      }
+    }
+
+    const bySignal = (signal: MatchSignal) => results.filter(result => result.matched_by.includes(signal)).length;
+    console.log(
+      `🔎 Hybrid search: ${results.length} results ` +
+      `(fulltext ${bySignal('fulltext')}, trigram ${bySignal('trigram')}, vector ${bySignal('vector')})`
+    );
+
+    return { success: true, results };
+  }
+}
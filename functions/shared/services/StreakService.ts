@@ -0,0 +1,187 @@
+/**
+ * Streak Service
+ *
+ * Maintains user_streaks on every post and reads streaks back for display.
+ * Days are counted in the user's local time zone; missed days are covered by
+ * freezes (STREAK_FREEZES_PER_MONTH, refilled monthly) before a streak breaks.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { daysBetween, DEFAULT_TIME_ZONE, localDate } from '../utils/time.ts';
+
+export type StreakStatus = 'active' | 'at_risk' | 'broken' | 'none';
+export type StreakLeaderboard = 'current' | 'longest';
+
+export interface StreakInfo {
+  currentStreak: number;
+  longestStreak: number;
+  lastPostDate: string | null;   // User's local day, YYYY-MM-DD
+  totalPosts: number;
+  freezesAvailable: number;
+  freezesUsed?: number;          // Freezes consumed by this post
+  extended?: boolean;            // Whether this post extended the streak
+  status: StreakStatus;
+  timezone: string;
+}
+
+export interface StreakLeaderboardEntry {
+  rank: number;
+  userId: string;
+  username?: string;
+  avatarUrl?: string;
+  currentStreak: number;
+  longestStreak: number;
+  lastPostDate: string | null;
+}
+
+export class StreakService {
+  private supabase: any;
+  private freezesPerMonth: number;
+
+  constructor() {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    this.freezesPerMonth = parseInt(Deno.env.get('STREAK_FREEZES_PER_MONTH') ?? '2') || 0;
+  }
+
+  /**
+   * Count a new post towards the user's streak
+   */
+  async recordPost(
+    userId: string,
+    options: { tier?: string; timezone?: string; postedAt?: string } = {}
+  ): Promise<StreakInfo | null> {
+    try {
+      const timezone = options.timezone || await this.getStoredTimeZone(userId);
+      const postedAt = options.postedAt ? new Date(options.postedAt) : new Date();
+      const today = localDate(postedAt, timezone);
+
+      const { data, error } = await this.supabase.rpc('record_streak_post', {
+        p_user_id: userId,
+        p_local_date: today,
+        p_timezone: timezone,
+        p_tier: options.tier ?? null,
+        p_freezes_per_month: this.freezesPerMonth
+      });
+
+      if (error) {
+        console.error('❌ Streak update failed:', error);
+        return null;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      console.log(`🔥 Streak for ${userId}: ${row.current_streak} day(s)`);
+
+      return {
+        currentStreak: row.current_streak,
+        longestStreak: row.longest_streak,
+        lastPostDate: row.last_post_date,
+        totalPosts: row.total_posts,
+        freezesAvailable: row.freezes_available,
+        freezesUsed: row.freezes_used,
+        extended: row.streak_extended,
+        status: 'active',
+        timezone
+      };
+    } catch (error) {
+      console.error('❌ Streak service error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Current streak as of now in the user's time zone. Stored streaks are only
+   * updated on posts, so a streak whose gap exceeds the freezes reads as broken.
+   */
+  async getStreak(userId: string, timezone?: string): Promise<StreakInfo | null> {
+    const { data, error } = await this.supabase
+      .from('user_streaks')
+      .select('current_streak, longest_streak, last_post_date, total_posts, freezes_available, freezes_reset_on, timezone')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Fetch streak error:', error);
+      return null;
+    }
+
+    const zone = timezone || data?.timezone || DEFAULT_TIME_ZONE;
+
+    if (!data || !data.last_post_date) {
+      return {
+        currentStreak: 0,
+        longestStreak: data?.longest_streak || 0,
+        lastPostDate: null,
+        totalPosts: data?.total_posts || 0,
+        freezesAvailable: this.freezesPerMonth,
+        status: 'none',
+        timezone: zone
+      };
+    }
+
+    const today = localDate(new Date(), zone);
+    const monthStart = `${today.slice(0, 7)}-01`;
+    const freezesAvailable = !data.freezes_reset_on || data.freezes_reset_on < monthStart
+      ? this.freezesPerMonth
+      : data.freezes_available;
+
+    const gap = daysBetween(data.last_post_date, today);
+    let status: StreakStatus;
+    if (gap <= 0) {
+      status = 'active';
+    } else if (gap - 1 <= freezesAvailable) {
+      status = 'at_risk'; // Posting today keeps the streak
+    } else {
+      status = 'broken';
+    }
+
+    return {
+      currentStreak: status === 'broken' ? 0 : data.current_streak,
+      longestStreak: data.longest_streak,
+      lastPostDate: data.last_post_date,
+      totalPosts: data.total_posts,
+      freezesAvailable,
+      status,
+      timezone: zone
+    };
+  }
+
+  /**
+   * Top streaks: live current streaks, or all-time longest
+   */
+  async getLeaderboard(board: StreakLeaderboard = 'current', limit: number = 10): Promise<StreakLeaderboardEntry[]> {
+    const { data, error } = await this.supabase.rpc('get_streak_leaderboard', {
+      board,
+      result_limit: limit
+    });
+
+    if (error) {
+      console.error('❌ Streak leaderboard error:', error);
+      return [];
+    }
+
+    return (data || []).map((row: any, index: number) => ({
+      rank: index + 1,
+      userId: row.user_id,
+      username: row.username ?? undefined,
+      avatarUrl: row.avatar_url ?? undefined,
+      currentStreak: row.current_streak,
+      longestStreak: row.longest_streak,
+      lastPostDate: row.last_post_date
+    }));
+  }
+
+  /**
+   * Time zone saved from the user's last post
+   */
+  private async getStoredTimeZone(userId: string): Promise<string> {
+    const { data } = await this.supabase
+      .from('user_streaks')
+      .select('timezone')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return data?.timezone || DEFAULT_TIME_ZONE;
+  }
+}
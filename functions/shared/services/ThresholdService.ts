@@ -0,0 +1,64 @@
+/**
+ * Threshold Service - Configured Matching Thresholds
+ *
+ * Reads post matching thresholds from similarity_thresholds (migration 030)
+ * for an input type, scope and embedding model; the most specific row wins.
+ * Lookups are cached; on any failure the built-in MATCH_THRESHOLDS apply.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { HybridThresholds, MATCH_THRESHOLDS } from './SearchService.ts';
+import { cacheGet, cacheSet, CacheKeys, CacheTTL } from '../utils/redis.ts';
+
+export class ThresholdService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Thresholds for counting a post of this input type / scope / model as a match
+   */
+  async getMatchThresholds(
+    inputType: string,
+    scope: string,
+    embeddingModel: string
+  ): Promise<HybridThresholds> {
+    const cacheKey = CacheKeys.similarityThresholds(inputType, scope, embeddingModel);
+    const cached = await cacheGet<HybridThresholds>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const { data, error } = await this.supabase.rpc('get_similarity_thresholds', {
+        p_input_type: inputType,
+        p_scope: scope,
+        p_embedding_model: embeddingModel
+      });
+
+      if (error || !data || data.length === 0) {
+        if (error) console.error('❌ Threshold lookup failed:', error);
+        return MATCH_THRESHOLDS;
+      }
+
+      const thresholds: HybridThresholds = {
+        vector: data[0].vector_threshold,
+        trigram: data[0].trigram_threshold
+      };
+      await cacheSet(cacheKey, thresholds, CacheTTL.SIMILARITY_THRESHOLDS);
+
+      console.log(
+        `🎯 Thresholds for ${inputType}/${scope}/${embeddingModel}: ` +
+        `vector ${thresholds.vector}, trigram ${thresholds.trigram}`
+      );
+      return thresholds;
+    } catch (error) {
+      console.error('❌ Threshold lookup error:', error);
+      return MATCH_THRESHOLDS;
+    }
+  }
+}
@@ -3,6 +3,8 @@
  * Supports night dreams, daydreams, lucid dreams, and nightmares
  */
 
+import { RedactionSpan } from '../utils/pii.ts';
+
 export type DreamType = 'night_dream' | 'daydream' | 'lucid_dream' | 'nightmare';
 
 export type DreamEmotion = 
@@ -36,17 +38,26 @@ export interface DreamPost {
 
 export interface DreamEmbedding {
   contentEmbedding: number[];
-  symbolEmbedding: number[];
-  emotionEmbedding: number[];
+  symbolEmbedding: number[] | null;  // null when no symbol vector is available
+  emotionEmbedding: number[] | null; // null when no emotion vector is available
   combinedEmbedding: number[];
+  // Vocabulary vectors embedded for this dream, to store on their dream_symbols / dream_emotions rows
+  newSymbolEmbeddings: Record<string, number[]>;
+  newEmotionEmbeddings: Record<string, number[]>;
 }
 
 export interface DreamMatch {
   postId: string;
-  similarity: number;
-  matchType: 'content' | 'symbol' | 'emotion' | 'combined';
+  similarity: number; // Fused score (0-1)
+  matchType: 'content' | 'symbol' | 'emotion' | 'combined'; // Signal that contributed most
   sharedSymbols: DreamSymbol[];
   sharedEmotions: DreamEmotion[];
+  signals: {
+    content: number; // Content embedding similarity
+    symbol: number;  // Jaccard overlap of symbols
+    emotion: number; // Jaccard overlap of emotions
+  };
+  explanation: string;
 }
 
 export interface DreamAnalytics {
@@ -70,6 +81,7 @@ export interface CreateDreamRequest {
   clarity: number;
   interpretation?: string;
   isAnonymous?: boolean;
+  userId?: string | null; // Verified from the request JWT; null for unauthenticated dreams
   scope: 'city' | 'state' | 'country' | 'world';
   locationCity?: string;
   locationState?: string;
@@ -77,6 +89,15 @@ export interface CreateDreamRequest {
   supportMessage?: string; // Optional support message for the community
 }
 
+export interface DreamPostFilters {
+  dreamType?: DreamType;
+  scope?: CreateDreamRequest['scope'];
+  limit?: number;
+  cursor?: string;
+  /** @deprecated Offset pagination; pass cursor instead */
+  offset?: number;
+}
+
 // Dream Support Message interfaces
 export interface DreamSupportMessage {
   id: string;
@@ -107,6 +128,7 @@ export interface DreamPostResult {
     tier: string;
     percentile: number;
     matchCount: number;
+    redactions?: RedactionSpan[]; // Personal information replaced in content
     displayText: string;
     badge: string;
     message: string;
@@ -115,5 +137,8 @@ export interface DreamPostResult {
     communityData?: DreamCommunityData;
   };
   error?: string;
+  rejected?: boolean; // true when the content itself was refused (validation / moderation)
+  unavailable?: boolean; // true when moderation could not run (fail_closed / hold_for_review policy)
+  moderationEventId?: string; // Set on moderation rejections; pass to appeal-moderation
   analytics?: DreamAnalytics;
 }
@@ -0,0 +1,42 @@
+import { assertEquals, assertNotEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { canonicalizeAction } from './actionKey.ts';
+
+Deno.test('canonicalizeAction: paraphrases share a key', () => {
+  assertEquals(canonicalizeAction('Went for a run'), 'run');
+  assertEquals(canonicalizeAction('went running'), 'run');
+  assertEquals(canonicalizeAction('Jogged this morning'), canonicalizeAction('ran this morning'));
+  assertEquals(canonicalizeAction('Watched a film'), canonicalizeAction('watched movies'));
+});
+
+Deno.test('canonicalizeAction: normalises numbers and units', () => {
+  assertEquals(canonicalizeAction('Ran five kilometers'), '5:km:run');
+  assertEquals(canonicalizeAction('ran 5km'), '5:km:run');
+  assertEquals(canonicalizeAction('Walked 10,000 steps'), canonicalizeAction('walked 10000 steps'));
+  assertEquals(canonicalizeAction('Woke up at 5 am'), canonicalizeAction('woke up at 5am'));
+});
+
+Deno.test('canonicalizeAction: sorts terms so word order does not matter', () => {
+  assertEquals(canonicalizeAction('Ate pizza and played football'), 'eat:football:pizza:play');
+  assertEquals(canonicalizeAction('played football and ate pizza'), 'eat:football:pizza:play');
+});
+
+Deno.test('canonicalizeAction: keeps negation', () => {
+  assertNotEquals(canonicalizeAction("Didn't eat meat"), canonicalizeAction('Ate meat'));
+  assertEquals(canonicalizeAction("didn't eat meat"), canonicalizeAction('did not eat meat'));
+});
+
+Deno.test('canonicalizeAction: lemmatises regular inflections', () => {
+  assertEquals(canonicalizeAction('baked cookies'), 'bake:cookie');
+  assertEquals(canonicalizeAction('studies'), 'study');
+  assertEquals(canonicalizeAction('danced'), 'dance');
+});
+
+Deno.test('canonicalizeAction: falls back to the words when all are stop words', () => {
+  assertEquals(canonicalizeAction('I did it'), 'do'); // Light verb kept when it is the only term
+  assertEquals(canonicalizeAction('I am here'), 'i:am:here');
+});
+
+Deno.test('canonicalizeAction: caps the key length', () => {
+  const long = Array.from({ length: 60 }, (_, i) => `word${i}x`).join(' ');
+  assertEquals(canonicalizeAction(long).length <= 100, true);
+});
@@ -0,0 +1,191 @@
+/**
+ * Canonical Action Keys
+ *
+ * Reduces a post to a stable key that paraphrases share:
+ *   "Went for a run" / "went running"       → run
+ *   "Ran five kilometers" / "ran 5km"       → 5:km:run
+ *   "Ate pizza and played football"         → eat:football:pizza:play
+ * by lemmatising, mapping synonyms, normalising numbers and units and
+ * dropping stop words and light verbs, then sorting the remaining terms.
+ * Negation is kept as a "not" term, so "didn't eat meat" ≠ "ate meat".
+ *
+ * Stored as posts.action_key; used when matching without embeddings and to
+ * group temporal_uniqueness rows.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LEXICONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'i', 'im', 'ive', 'id', 'me', 'my', 'myself', 'we', 'our', 'us', 'you',
+  'your', 'he', 'she', 'his', 'her', 'they', 'their', 'it', 'its', 'this', 'that', 'these',
+  'those', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'up', 'out', 'about',
+  'into', 'onto', 'over', 'off', 'and', 'or', 'but', 'so', 'then', 'also', 'some', 'any',
+  'all', 'just', 'even', 'really', 'very', 'too', 'again', 'finally', 'actually', 'lot', 'bit',
+  'be', 'will', 'would', 'can', 'could', 'should', 'shall', 'may', 'might', 'must',
+  'today', 'yesterday', 'now', 'there', 'here'
+]);
+
+// Verbs that carry little meaning next to another term ("went for a run", "had a nap")
+const LIGHT_VERBS = new Set(['go', 'do', 'have', 'get', 'take']);
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'nothing', 'without', 'cannot']);
+
+const IRREGULAR: Record<string, string> = {
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  went: 'go', gone: 'go', goes: 'go', ran: 'run', ate: 'eat', eaten: 'eat',
+  had: 'have', has: 'have', did: 'do', done: 'do', does: 'do', made: 'make',
+  took: 'take', taken: 'take', got: 'get', gotten: 'get', saw: 'see', seen: 'see',
+  bought: 'buy', brought: 'bring', caught: 'catch', drank: 'drink', drunk: 'drink',
+  drove: 'drive', driven: 'drive', rode: 'ride', ridden: 'ride', swam: 'swim', swum: 'swim',
+  wrote: 'write', written: 'write', slept: 'sleep', met: 'meet', felt: 'feel',
+  built: 'build', taught: 'teach', thought: 'think', found: 'find', won: 'win',
+  began: 'begin', begun: 'begin', sang: 'sing', sung: 'sing', spoke: 'speak', woke: 'wake',
+  fell: 'fall', flew: 'fly', gave: 'give', came: 'come', sat: 'sit', threw: 'throw',
+  children: 'child', people: 'person', men: 'man', women: 'woman', feet: 'foot',
+  cycling: 'cycle', cycled: 'cycle', used: 'use',
+  cookies: 'cookie', movies: 'movie', selfies: 'selfie', pies: 'pie', ties: 'tie'
+};
+
+// -ing words that are not verb forms
+const ING_WORDS = new Set([
+  'morning', 'evening', 'thing', 'nothing', 'something', 'anything', 'everything', 'during',
+  'ceiling', 'wedding', 'pudding', 'sibling', 'spring', 'string', 'king', 'ring', 'sing',
+  'bring', 'wing', 'sling', 'swing', 'sting', 'ding', 'ping'
+]);
+
+const SYNONYMS: Record<string, string> = {
+  jog: 'run', sprint: 'run',
+  film: 'movie', cinema: 'movie', flick: 'movie',
+  bicycle: 'bike', cycle: 'bike',
+  tv: 'television', telly: 'television',
+  supper: 'dinner',
+  purchase: 'buy',
+  workout: 'exercise',
+  mum: 'mom', mother: 'mom', father: 'dad',
+  buddy: 'friend', pal: 'friend',
+  kid: 'child',
+  pic: 'photo', picture: 'photo',
+  // Units
+  k: 'km', kilometer: 'km', kilometre: 'km',
+  mi: 'mile', m: 'meter', metre: 'meter',
+  h: 'hour', hr: 'hour', min: 'minute', sec: 'second',
+  kilogram: 'kg', kilo: 'kg', lb: 'pound', liter: 'l', litre: 'l'
+};
+
+const NUMBER_WORDS: Record<string, string> = {
+  one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8',
+  nine: '9', ten: '10', eleven: '11', twelve: '12', fifteen: '15', twenty: '20',
+  thirty: '30', forty: '40', fifty: '50', hundred: '100', dozen: '12', half: '0.5'
+};
+
+const MAX_KEY_LENGTH = 100;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CANONICALISATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Stable action key for a text; paraphrases of the same action share it
+ */
+export function canonicalizeAction(text: string): string {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/n't\b/g, ' not')
+    .replace(/(\d),(\d{3})\b/g, '$1$2')         // 10,000 → 10000
+    .replace(/(\d)\s*([ap]m)\b/g, '$1$2')       // 5 am → 5am
+    .replace(/(\d)(?![ap]m\b)([a-z]+)\b/g, '$1 $2') // 5km → 5 km
+    .replace(/'/g, '')
+    .replace(/[^a-z0-9.\s]/g, ' ')
+    .replace(/\.(?!\d)/g, ' ');
+
+  const terms = normalized
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(canonicalTerm)
+    .filter(term => term.length > 0 && !STOPWORDS.has(term));
+
+  const content = terms.filter(term => !LIGHT_VERBS.has(term));
+  const kept = content.length > 0 ? content : terms;
+
+  const key = [...new Set(kept)].sort().join(':').substring(0, MAX_KEY_LENGTH);
+
+  // Nothing but stop words: fall back to the plain words
+  return key || normalized.trim().split(/\s+/).join(':').substring(0, MAX_KEY_LENGTH);
+}
+
+function canonicalTerm(token: string): string {
+  if (/^\d+[ap]m$/.test(token)) {
+    return token;
+  }
+  if (/^\d+(?:\.\d+)?$/.test(token)) {
+    return String(parseFloat(token)); // 5.0 → 5
+  }
+  if (NEGATIONS.has(token)) {
+    return 'not';
+  }
+  if (NUMBER_WORDS[token]) {
+    return NUMBER_WORDS[token];
+  }
+
+  const lemma = IRREGULAR[token] ?? lemmatize(token);
+  return SYNONYMS[lemma] ?? lemma;
+}
+
+/**
+ * Rule-based lemma for regular inflections: studies → study, running → run,
+ * baked → bake, glasses → glass
+ */
+function lemmatize(word: string): string {
+  if (word.length <= 3 || STOPWORDS.has(word)) {
+    return word;
+  }
+
+  if (/ies$/.test(word) && word.length > 4) {
+    return word.slice(0, -3) + 'y';
+  }
+
+  if (/ied$/.test(word)) {
+    return word.slice(0, -3) + 'y';
+  }
+
+  if (word.endsWith('ing') && !ING_WORDS.has(word)) {
+    return restoreStem(word.slice(0, -3), word);
+  }
+
+  if (word.endsWith('ed') && !word.endsWith('eed') && word.length > 4) {
+    return restoreStem(word.slice(0, -2), word);
+  }
+
+  if (/(?:ch|sh|ss|x|z)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+
+  if (word.endsWith('s') && !/(?:ss|us|is)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+
+  return word;
+}
+
+/**
+ * Undo spelling changes made when adding -ing / -ed:
+ * runn → run, mak → make, danc → dance
+ */
+function restoreStem(stem: string, word: string): string {
+  if (stem.length < 2 || !/[aeiouy]/.test(stem)) {
+    return word;
+  }
+  if (/([bdgmnprt])\1$/.test(stem)) {
+    return stem.slice(0, -1);
+  }
+  if (/^[^aeiou]+[aeiou][bcdgkmnpstvz]$/.test(stem)) {
+    return stem + 'e';
+  }
+  if (/(?:[^c]c|v|[^aeiou]s)$/.test(stem) && !/(?:ss|us)$/.test(stem)) {
+    return stem + 'e';
+  }
+  return stem;
+}
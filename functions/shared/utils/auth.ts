@@ -0,0 +1,108 @@
+declare const Deno: any;
+
+/**
+ * Auth Utility for Supabase Edge Functions
+ *
+ * Verifies the Bearer JWT on incoming requests the same way auth-check does
+ * (service role client + auth.getUser) and resolves the posting policy for
+ * requests that arrive without a signed-in user.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  created_at?: string;
+}
+
+export interface AuthResult {
+  user: AuthenticatedUser | null;
+  error?: string; // Set when a token was sent but could not be verified
+}
+
+/**
+ * What to do with create requests that carry no user token:
+ * - 'reject'    → respond 401
+ * - 'anonymous' → accept, store without user_id and force isAnonymous
+ */
+export type UnauthenticatedPostPolicy = 'reject' | 'anonymous';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TOKEN VERIFICATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Extract the bearer token from the Authorization header.
+ * Returns null when there is no header, or when the client sent the project's
+ * anon key (supabase-js does this for signed-out users).
+ */
+export function getBearerToken(req: Request): string | null {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return null;
+  }
+
+  const token = authHeader.replace(/^Bearer\s+/i, '').trim();
+  if (!token) {
+    return null;
+  }
+
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  if (anonKey && token === anonKey) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Resolve the user behind the request's Bearer JWT.
+ * A missing token is not an error (user is null); an invalid one is.
+ */
+export async function getRequestUser(req: Request, supabase: any): Promise<AuthResult> {
+  const token = getBearerToken(req);
+  if (!token) {
+    return { user: null };
+  }
+
+  try {
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+
+    if (error || !user) {
+      console.error('Auth verification failed:', error);
+      return { user: null, error: 'Invalid or expired token' };
+    }
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        created_at: user.created_at
+      }
+    };
+  } catch (error) {
+    console.error('❌ Auth verification error:', error);
+    return { user: null, error: 'Invalid or expired token' };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// POSTING POLICY
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Read UNAUTHENTICATED_POST_POLICY ('reject' | 'anonymous', default 'anonymous')
+ */
+export function getUnauthenticatedPostPolicy(): UnauthenticatedPostPolicy {
+  const policy = (Deno.env.get('UNAUTHENTICATED_POST_POLICY') || 'anonymous').toLowerCase();
+
+  if (policy !== 'reject' && policy !== 'anonymous') {
+    console.warn(`⚠️ Unknown UNAUTHENTICATED_POST_POLICY "${policy}", using "anonymous"`);
+    return 'anonymous';
+  }
+
+  return policy;
+}
@@ -0,0 +1,402 @@
+/**
+ * Cache Providers for Supabase Edge Functions
+ *
+ * The cache backend is chosen explicitly with CACHE_PROVIDER:
+ * - 'upstash' → Upstash Redis REST API (UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN)
+ * - 'memory'  → per-isolate LRU, for local dev and tests
+ *
+ * In production (ENVIRONMENT=production) a missing or misconfigured provider
+ * throws at startup instead of silently running without a shared cache.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// PROVIDER INTERFACE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** A raw command for pipelining, e.g. ['SET', 'key', 'value'] */
+export type CacheCommand = [string, ...(string | number)[]];
+
+export interface CacheProvider {
+  readonly name: 'upstash' | 'memory';
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttl?: number): Promise<boolean>;
+  del(key: string): Promise<boolean>;
+  delMany(keys: string[]): Promise<number>;
+  exists(key: string): Promise<boolean>;
+  /** Returns null when the backend is unavailable */
+  incr(key: string, ttl?: number): Promise<number | null>;
+  expire(key: string, ttl: number): Promise<boolean>;
+  mget(keys: string[]): Promise<(string | null)[]>;
+  sadd(key: string, members: string[], ttl?: number): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  /** Delete every key matching a glob pattern (`*` and `?`) */
+  delPattern(pattern: string): Promise<number>;
+  /** Run several commands in one round trip; raw replies are in command order */
+  pipeline(commands: CacheCommand[]): Promise<unknown[]>;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// UPSTASH (REDIS REST)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class UpstashCacheProvider implements CacheProvider {
+  readonly name = 'upstash' as const;
+  private url: string;
+  private token: string;
+
+  constructor(url: string, token: string) {
+    this.url = url.replace(/\/$/, '');
+    this.token = token;
+  }
+
+  private async request(command: string, args: (string | number)[] = []): Promise<unknown> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify([command, ...args]),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Redis request failed:', response.status, response.statusText, errorText);
+        return null;
+      }
+
+      const result: { result?: unknown } = await response.json();
+      return result.result ?? null;
+    } catch (error) {
+      console.error('❌ Redis error:', error);
+      return null;
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.request('GET', [key]);
+    return typeof result === 'string' ? result : null;
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<boolean> {
+    const result = ttl
+      ? await this.request('SETEX', [key, ttl, value])
+      : await this.request('SET', [key, value]);
+    return result === 'OK';
+  }
+
+  async del(key: string): Promise<boolean> {
+    const result = await this.request('DEL', [key]);
+    return result === 1;
+  }
+
+  async delMany(keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    const result = await this.request('DEL', keys);
+    return typeof result === 'number' ? result : 0;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const result = await this.request('EXISTS', [key]);
+    return result === 1;
+  }
+
+  async incr(key: string, ttl?: number): Promise<number | null> {
+    const result = await this.request('INCR', [key]);
+    if (typeof result !== 'number') {
+      return null;
+    }
+    if (ttl && result === 1) {
+      await this.expire(key, ttl);
+    }
+    return result;
+  }
+
+  async expire(key: string, ttl: number): Promise<boolean> {
+    const result = await this.request('EXPIRE', [key, ttl]);
+    return result === 1;
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    if (keys.length === 0) return [];
+    const result = await this.request('MGET', keys);
+    return Array.isArray(result)
+      ? keys.map((_, i) => (typeof result[i] === 'string' ? result[i] : null))
+      : keys.map(() => null);
+  }
+
+  async sadd(key: string, members: string[], ttl?: number): Promise<number> {
+    if (members.length === 0) return 0;
+    const commands: CacheCommand[] = [['SADD', key, ...members]];
+    if (ttl) {
+      commands.push(['EXPIRE', key, ttl]);
+    }
+    const [added] = await this.pipeline(commands);
+    return typeof added === 'number' ? added : 0;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    const result = await this.request('SMEMBERS', [key]);
+    return Array.isArray(result) ? result.filter(isString) : [];
+  }
+
+  async delPattern(pattern: string): Promise<number> {
+    let cursor = '0';
+    let deleted = 0;
+
+    do {
+      const result = await this.request('SCAN', [cursor, 'MATCH', pattern, 'COUNT', 200]);
+      if (!Array.isArray(result)) break;
+
+      const [nextCursor, keys] = result;
+      cursor = String(nextCursor);
+      deleted += await this.delMany(Array.isArray(keys) ? keys.filter(isString) : []);
+    } while (cursor !== '0');
+
+    return deleted;
+  }
+
+  async pipeline(commands: CacheCommand[]): Promise<unknown[]> {
+    if (commands.length === 0) return [];
+
+    try {
+      const response = await fetch(`${this.url}/pipeline`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(commands),
+      });
+
+      if (!response.ok) {
+        console.error('❌ Redis pipeline failed:', response.status, response.statusText);
+        return commands.map(() => null);
+      }
+
+      const results: { result?: unknown; error?: string }[] = await response.json();
+      return results.map(entry => (entry.error ? null : entry.result ?? null));
+    } catch (error) {
+      console.error('❌ Redis pipeline error:', error);
+      return commands.map(() => null);
+    }
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// IN-MEMORY LRU
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+interface MemoryEntry {
+  value: string | Set<string>;
+  expiresAt: number | null;
+}
+
+/**
+ * Least-recently-used cache living in the isolate's memory. Map iteration
+ * order is insertion order, so re-inserting on access keeps the oldest entry
+ * first in line for eviction.
+ */
+export class MemoryCacheProvider implements CacheProvider {
+  readonly name = 'memory' as const;
+  private entries = new Map<string, MemoryEntry>();
+  private maxEntries: number;
+
+  constructor(maxEntries = 5000) {
+    this.maxEntries = maxEntries;
+  }
+
+  private read(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private write(key: string, value: string | Set<string>, ttl?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : null });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get(key: string): Promise<string | null> {
+    const entry = this.read(key);
+    return Promise.resolve(entry && typeof entry.value === 'string' ? entry.value : null);
+  }
+
+  set(key: string, value: string, ttl?: number): Promise<boolean> {
+    this.write(key, value, ttl);
+    return Promise.resolve(true);
+  }
+
+  del(key: string): Promise<boolean> {
+    return Promise.resolve(this.entries.delete(key));
+  }
+
+  delMany(keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of keys) {
+      if (this.entries.delete(key)) deleted++;
+    }
+    return Promise.resolve(deleted);
+  }
+
+  exists(key: string): Promise<boolean> {
+    return Promise.resolve(this.read(key) !== null);
+  }
+
+  incr(key: string, ttl?: number): Promise<number | null> {
+    const entry = this.read(key);
+    const current = entry && typeof entry.value === 'string' ? parseInt(entry.value) || 0 : 0;
+    const next = current + 1;
+
+    if (entry) {
+      entry.value = String(next);
+    } else {
+      this.write(key, String(next), ttl);
+    }
+    return Promise.resolve(next);
+  }
+
+  expire(key: string, ttl: number): Promise<boolean> {
+    const entry = this.read(key);
+    if (!entry) return Promise.resolve(false);
+    entry.expiresAt = Date.now() + ttl * 1000;
+    return Promise.resolve(true);
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    return await Promise.all(keys.map(key => this.get(key)));
+  }
+
+  sadd(key: string, members: string[], ttl?: number): Promise<number> {
+    const entry = this.read(key);
+    const set = entry && entry.value instanceof Set ? entry.value : new Set<string>();
+    const before = set.size;
+    members.forEach(member => set.add(member));
+
+    if (entry && entry.value instanceof Set) {
+      if (ttl) entry.expiresAt = Date.now() + ttl * 1000;
+    } else {
+      this.write(key, set, ttl);
+    }
+    return Promise.resolve(set.size - before);
+  }
+
+  smembers(key: string): Promise<string[]> {
+    const entry = this.read(key);
+    return Promise.resolve(entry && entry.value instanceof Set ? [...entry.value] : []);
+  }
+
+  async delPattern(pattern: string): Promise<number> {
+    const regex = globToRegExp(pattern);
+    const keys = [...this.entries.keys()].filter(key => regex.test(key));
+    return await this.delMany(keys);
+  }
+
+  async pipeline(commands: CacheCommand[]): Promise<unknown[]> {
+    const results: unknown[] = [];
+    for (const [command, ...args] of commands) {
+      results.push(await this.execute(command.toUpperCase(), args.map(String)));
+    }
+    return results;
+  }
+
+  /**
+   * Map raw Redis commands used in pipelines onto the provider methods
+   */
+  private async execute(command: string, args: string[]): Promise<unknown> {
+    switch (command) {
+      case 'GET': return await this.get(args[0]);
+      case 'SET': return (await this.set(args[0], args[1])) ? 'OK' : null;
+      case 'SETEX': return (await this.set(args[0], args[2], Number(args[1]))) ? 'OK' : null;
+      case 'DEL': return await this.delMany(args);
+      case 'EXISTS': return (await this.exists(args[0])) ? 1 : 0;
+      case 'INCR': return await this.incr(args[0]);
+      case 'EXPIRE': return (await this.expire(args[0], Number(args[1]))) ? 1 : 0;
+      case 'MGET': return await this.mget(args);
+      case 'SADD': return await this.sadd(args[0], args.slice(1));
+      case 'SMEMBERS': return await this.smembers(args[0]);
+      default:
+        console.warn(`⚠️ Unsupported command in memory cache pipeline: ${command}`);
+        return null;
+    }
+  }
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// PROVIDER SELECTION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export function isProduction(): boolean {
+  return (Deno.env.get('ENVIRONMENT') || '').toLowerCase() === 'production';
+}
+
+/**
+ * Build the provider named by CACHE_PROVIDER.
+ * Outside production, missing configuration falls back to the memory provider
+ * with a warning; in production it throws.
+ */
+export function createCacheProvider(): CacheProvider {
+  const configured = (Deno.env.get('CACHE_PROVIDER') || '').toLowerCase();
+  const production = isProduction();
+
+  if (!configured) {
+    if (production) {
+      throw new Error('CACHE_PROVIDER must be set in production (upstash | memory)');
+    }
+    console.warn('⚠️ CACHE_PROVIDER not set, using in-memory cache');
+    return new MemoryCacheProvider();
+  }
+
+  switch (configured) {
+    case 'upstash': {
+      const url = Deno.env.get('UPSTASH_REDIS_REST_URL');
+      const token = Deno.env.get('UPSTASH_REDIS_REST_TOKEN');
+
+      if (!url || !token) {
+        if (production) {
+          throw new Error('UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are required when CACHE_PROVIDER=upstash');
+        }
+        console.warn('⚠️ Upstash credentials missing, using in-memory cache');
+        return new MemoryCacheProvider();
+      }
+
+      console.log('✅ Redis configured successfully');
+      return new UpstashCacheProvider(url, token);
+    }
+
+    case 'memory': {
+      const maxEntries = parseInt(Deno.env.get('CACHE_MEMORY_MAX_ENTRIES') || '5000');
+      return new MemoryCacheProvider(maxEntries);
+    }
+
+    default:
+      throw new Error(`Unknown CACHE_PROVIDER "${configured}" (expected upstash | memory)`);
+  }
+}
@@ -0,0 +1,73 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { analyzeContent, compareModifiers, currentModifiers, MODIFIERS_VERSION } from './contentModifiers.ts';
+
+const compatible = (a: string, b: string) => compareModifiers(analyzeContent(a), analyzeContent(b)).compatible;
+
+Deno.test('analyzeContent: negation is per clause', () => {
+  const modifiers = analyzeContent("Didn't eat meat, went for a run");
+  assertEquals(modifiers.hasNegation, true);
+  assertEquals(modifiers.negatedClauses, ["didn't eat meat"]);
+  assertEquals(modifiers.negatedTerms, ['eat', 'meat']);
+  assertEquals(modifiers.assertedTerms, ['went', 'run']);
+});
+
+Deno.test('analyzeContent: positive idioms are not negations', () => {
+  assertEquals(analyzeContent('Nothing beats a morning run').hasNegation, false);
+  assertEquals(analyzeContent("Can't wait for the weekend").hasNegation, false);
+  assertEquals(analyzeContent('No regrets about eating cake').hasNegation, false);
+});
+
+Deno.test('analyzeContent: negation scope ends at the next phrase', () => {
+  const modifiers = analyzeContent("Didn't eat meat at the party");
+  assertEquals(modifiers.negatedTerms, ['eat', 'meat']);
+  assertEquals(modifiers.assertedTerms, ['party']);
+
+  // A preposition right after the cue does not end an empty scope
+  assertEquals(analyzeContent('Never at home').negatedTerms, ['home']);
+});
+
+Deno.test('analyzeContent: quantities with units and counts', () => {
+  const { quantities } = analyzeContent('Ran 5km and read 3 books in two hours');
+  assertEquals(quantities, [
+    { value: 5, unit: 'km', dimension: 'distance', normalized: 5000 },
+    { value: 3, unit: 'book', dimension: 'count', normalized: 3 },
+    { value: 2, unit: 'hour', dimension: 'duration', normalized: 7200 }
+  ]);
+});
+
+Deno.test('analyzeContent: clock times and parts of day', () => {
+  assertEquals(analyzeContent('Woke up at 6am').times, [{ part: 'early_morning', hour: 6 }]);
+  assertEquals(analyzeContent('Coffee at 12pm').times, [{ part: 'afternoon', hour: 12 }]);
+  assertEquals(analyzeContent('Pizza for dinner tonight').times, [{ part: 'evening' }, { part: 'night' }]);
+});
+
+Deno.test('compareModifiers: negation conflicts with the asserted action', () => {
+  assertEquals(compatible("Didn't eat meat today", 'Ate meat today'), false);
+  assertEquals(compatible('No regrets about eating cake', 'Ate cake'), true);
+  assertEquals(compatible("Didn't drink coffee at work", 'Went to work'), true);
+});
+
+Deno.test('compareModifiers: quantities within tolerance match', () => {
+  assertEquals(compatible('Ran 5km', 'Ran 5.5 km'), true);
+  assertEquals(compatible('Ran 5km', 'Ran 20km'), false);
+  assertEquals(compatible('Ran 5km', 'Went for a run'), true);
+  assertEquals(compatible('Read 3 books', 'Read 3 pages'), true);
+});
+
+Deno.test('compareModifiers: neighbouring times of day are compatible', () => {
+  assertEquals(compatible('Woke up at 6am', 'Woke up this morning'), true);
+  assertEquals(compatible('Went for a walk this afternoon', 'Went for a walk this evening'), true);
+  assertEquals(compatible('Stayed up until midnight', 'Up since dawn'), true);
+  assertEquals(compatible('Went for a run this morning', 'Went for a run this evening'), false);
+  assertEquals(compatible('Woke up at 6am', 'Woke up at 7am'), true);
+  assertEquals(compatible('Woke up at 6am', 'Woke up at 11am'), false);
+});
+
+Deno.test('currentModifiers: reanalyses results of older versions', () => {
+  const stored = analyzeContent('Ate cake');
+  assertEquals(currentModifiers('Ate cake', stored), stored);
+  assertEquals(currentModifiers('Ate cake', null).version, MODIFIERS_VERSION);
+
+  const outdated = { ...stored, version: 1, assertedTerms: [] } as unknown as typeof stored;
+  assertEquals(currentModifiers('Ate cake', outdated).assertedTerms, ['ate', 'cake']);
+});
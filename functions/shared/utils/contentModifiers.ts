@@ -0,0 +1,371 @@
+/**
+ * Content Modifier Analysis
+ *
+ * Extracts the parts of a post that embeddings blur over:
+ * - negation per clause, up to the end of the negated phrase ("didn't eat
+ *   meat", but not "nothing beats a morning run" or "no regrets about cake")
+ * - quantities with units ("ran 5km" vs "ran 20km")
+ * - times of day ("at 5am", "this morning")
+ *
+ * The result is stored per post (posts.content_modifiers) and compared
+ * pairwise with compareModifiers to drop matches that embed alike but say
+ * something different.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type QuantityDimension = 'distance' | 'duration' | 'mass' | 'volume' | 'count';
+
+export interface Quantity {
+  value: number;               // As written
+  unit: string;                // As written, singular (e.g. "km", "book")
+  dimension: QuantityDimension;
+  normalized: number;          // In the dimension's base unit (m, s, g, ml) or the count
+}
+
+export interface TimeOfDay {
+  part: 'early_morning' | 'morning' | 'afternoon' | 'evening' | 'night';
+  hour?: number;               // 0-23 when a clock time was given
+}
+
+// Bumped when the analysis changes; stored results of older versions are recomputed
+export const MODIFIERS_VERSION = 2;
+
+export interface ContentModifiers {
+  version: typeof MODIFIERS_VERSION;
+  hasNegation: boolean;        // At least one clause is negated
+  negatedClauses: string[];
+  negatedTerms: string[];      // Stemmed content words inside a negation's scope
+  assertedTerms: string[];     // Stemmed content words outside any negation
+  quantities: Quantity[];
+  times: TimeOfDay[];
+}
+
+export interface ModifierComparison {
+  compatible: boolean;
+  conflicts: string[];         // Why the two contents disagree
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LEXICONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const NEGATION_CUES = new Set([
+  'not', 'no', 'never', 'none', 'nothing', 'nobody', 'nowhere', 'neither', 'nor', 'without',
+  'cannot', "can't", "don't", "doesn't", "didn't", "won't", "wouldn't", "shouldn't",
+  "couldn't", "haven't", "hasn't", "hadn't", "isn't", "aren't", "wasn't", "weren't",
+  'cant', 'dont', 'doesnt', 'didnt', 'wont', 'wouldnt', 'shouldnt', 'couldnt',
+  'havent', 'hasnt', 'hadnt', 'isnt', 'arent', 'wasnt', 'werent', "n't"
+]);
+
+// Negation words used to say something positive
+const POSITIVE_IDIOMS = [
+  /\bnothing (?:beats|compares|like|better than)\b/,
+  /\bno (?:doubt|wonder|problem|worries|way i'?d miss)\b/,
+  /\bnot only\b/,
+  /\bnot bad\b/,
+  /\bno regrets?\b/,
+  /\bcan'?t wait\b/,
+  /\bcan'?t (?:stop|help) (?:smiling|laughing)\b/,
+  /\b(?:couldn'?t|could not) be (?:happier|better|prouder|more)\b/,
+  /\bnever (?:been|felt) (?:better|happier)\b/,
+  /\bwouldn'?t (?:miss|trade) it\b/
+];
+
+// Words that end a clause (and with it a negation's scope)
+const CLAUSE_BREAKS = /[.!?;:,]+|\b(?:but|and then|although|though|however|whereas|yet|so|because)\b/;
+
+// Words that end a negation's scope once it covers a content word:
+// "didn't eat meat at the party" negates eating meat, not the party
+const SCOPE_BREAKS = new Set([
+  'about', 'after', 'before', 'during', 'while', 'when', 'since', 'until',
+  'at', 'in', 'on', 'with', 'from', 'for', 'than'
+]);
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'it', 'its', 'this', 'that',
+  'to', 'of', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'up', 'out', 'about', 'into',
+  'and', 'or', 'any', 'some', 'all', 'just', 'even', 'really', 'very', 'too', 'again',
+  'is', 'am', 'are', 'was', 'were', 'be', 'been', 'being', 'do', 'does', 'did', 'have', 'has',
+  'had', 'will', 'would', 'can', 'could', 'should', 'today', 'yet', 'still', 'single', 'one'
+]);
+
+// Units → dimension and factor to the base unit
+const UNITS: Record<string, { dimension: QuantityDimension; factor: number; canonical: string }> = {
+  km: { dimension: 'distance', factor: 1000, canonical: 'km' },
+  k: { dimension: 'distance', factor: 1000, canonical: 'km' },
+  kilometer: { dimension: 'distance', factor: 1000, canonical: 'km' },
+  kilometre: { dimension: 'distance', factor: 1000, canonical: 'km' },
+  mi: { dimension: 'distance', factor: 1609.34, canonical: 'mile' },
+  mile: { dimension: 'distance', factor: 1609.34, canonical: 'mile' },
+  m: { dimension: 'distance', factor: 1, canonical: 'm' },
+  meter: { dimension: 'distance', factor: 1, canonical: 'm' },
+  metre: { dimension: 'distance', factor: 1, canonical: 'm' },
+  step: { dimension: 'distance', factor: 0.75, canonical: 'step' },
+  h: { dimension: 'duration', factor: 3600, canonical: 'hour' },
+  hr: { dimension: 'duration', factor: 3600, canonical: 'hour' },
+  hour: { dimension: 'duration', factor: 3600, canonical: 'hour' },
+  min: { dimension: 'duration', factor: 60, canonical: 'minute' },
+  minute: { dimension: 'duration', factor: 60, canonical: 'minute' },
+  sec: { dimension: 'duration', factor: 1, canonical: 'second' },
+  second: { dimension: 'duration', factor: 1, canonical: 'second' },
+  day: { dimension: 'duration', factor: 86400, canonical: 'day' },
+  kg: { dimension: 'mass', factor: 1000, canonical: 'kg' },
+  g: { dimension: 'mass', factor: 1, canonical: 'g' },
+  lb: { dimension: 'mass', factor: 453.6, canonical: 'lb' },
+  pound: { dimension: 'mass', factor: 453.6, canonical: 'lb' },
+  l: { dimension: 'volume', factor: 1000, canonical: 'l' },
+  liter: { dimension: 'volume', factor: 1000, canonical: 'l' },
+  litre: { dimension: 'volume', factor: 1000, canonical: 'l' },
+  ml: { dimension: 'volume', factor: 1, canonical: 'ml' },
+  cup: { dimension: 'volume', factor: 240, canonical: 'cup' },
+  glass: { dimension: 'volume', factor: 250, canonical: 'glass' }
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30,
+  forty: 40, fifty: 50, hundred: 100, dozen: 12, half: 0.5
+};
+
+const PARTS_OF_DAY: Record<string, TimeOfDay['part']> = {
+  dawn: 'early_morning',
+  sunrise: 'early_morning',
+  morning: 'morning',
+  breakfast: 'morning',
+  noon: 'afternoon',
+  lunch: 'afternoon',
+  afternoon: 'afternoon',
+  evening: 'evening',
+  sunset: 'evening',
+  dusk: 'evening',
+  dinner: 'evening',
+  night: 'night',
+  tonight: 'night',
+  midnight: 'night'
+};
+
+// Ratio between two amounts of the same dimension beyond which they differ
+const QUANTITY_TOLERANCE = 1.5;
+
+// Clock times further apart than this (hours) differ
+const HOUR_TOLERANCE = 2;
+
+// Parts of the day in order; neighbours (night wraps to early morning) blur
+// into each other ("woke up at 6am" is also "this morning")
+const PART_ORDER: TimeOfDay['part'][] = ['early_morning', 'morning', 'afternoon', 'evening', 'night'];
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ANALYSIS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Structured negation, quantity and time modifiers of a text
+ */
+export function analyzeContent(text: string): ContentModifiers {
+  const lower = text.toLowerCase().replace(/[’‘]/g, "'");
+
+  const negatedClauses: string[] = [];
+  const negated = new Set<string>();
+  const asserted = new Set<string>();
+
+  for (const clause of splitClauses(lower)) {
+    const tokens = clause.match(/[a-z0-9']+/g) || [];
+    const idiomatic = POSITIVE_IDIOMS.some(idiom => idiom.test(clause));
+    let inScope = false;
+    let scopeHasContent = false;
+
+    if (!idiomatic && tokens.some(isNegationCue)) {
+      negatedClauses.push(clause);
+    }
+
+    for (const token of tokens) {
+      if (isNegationCue(token)) {
+        inScope = !idiomatic;
+        scopeHasContent = false;
+        continue;
+      }
+      if (inScope && scopeHasContent && SCOPE_BREAKS.has(token)) {
+        inScope = false;
+      }
+      if (STOPWORDS.has(token) || SCOPE_BREAKS.has(token) || /^\d/.test(token) || token.length < 2) {
+        continue;
+      }
+      (inScope ? negated : asserted).add(stem(token));
+      scopeHasContent = scopeHasContent || inScope;
+    }
+  }
+
+  return {
+    version: MODIFIERS_VERSION,
+    hasNegation: negatedClauses.length > 0,
+    negatedClauses,
+    negatedTerms: [...negated],
+    assertedTerms: [...asserted].filter(term => !negated.has(term)),
+    quantities: extractQuantities(lower),
+    times: extractTimes(lower)
+  };
+}
+
+/**
+ * Stored modifiers when they come from the current analysis, otherwise a
+ * fresh analysis of the content
+ */
+export function currentModifiers(content: string, stored?: ContentModifiers | null): ContentModifiers {
+  return stored?.version === MODIFIERS_VERSION ? stored : analyzeContent(content);
+}
+
+function splitClauses(text: string): string[] {
+  return text
+    .split(CLAUSE_BREAKS)
+    .map(clause => clause?.trim())
+    .filter((clause): clause is string => !!clause);
+}
+
+function isNegationCue(token: string): boolean {
+  return NEGATION_CUES.has(token) || token.endsWith("n't");
+}
+
+/**
+ * Crude suffix stripping so "eating" / "eats" / "eat" line up
+ */
+function stem(word: string): string {
+  return word
+    .replace(/'s$/, '')
+    .replace(/(?:ing|ed|es|s)$/, '')
+    .replace(/(.)\1$/, '$1') || word;
+}
+
+function extractQuantities(text: string): Quantity[] {
+  const quantities: Quantity[] = [];
+  const numberPattern = `(\\d+(?:[.,]\\d+)?|${Object.keys(NUMBER_WORDS).filter(word => word.length > 2).join('|')})`;
+  const pattern = new RegExp(`\\b${numberPattern}\\s*-?\\s*([a-z]+)\\b`, 'g');
+
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const value = /^\d/.test(match[1]) ? parseFloat(match[1].replace(',', '.')) : NUMBER_WORDS[match[1]];
+    const word = match[2];
+    const singular = singularize(word);
+    const unit = UNITS[word] ?? UNITS[singular];
+
+    // am/pm belong to clock times
+    if (word === 'am' || word === 'pm' || word === 'o') {
+      continue;
+    }
+
+    if (unit) {
+      quantities.push({ value, unit: unit.canonical, dimension: unit.dimension, normalized: value * unit.factor });
+    } else if (!STOPWORDS.has(word) && /^\d/.test(match[1])) {
+      // "read 3 books": counted things, only for digits ("one of", "a few" are too vague)
+      quantities.push({ value, unit: singular, dimension: 'count', normalized: value });
+    }
+  }
+
+  return quantities;
+}
+
+function singularize(word: string): string {
+  if (/(?:ch|sh|ss|x)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 2 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function extractTimes(text: string): TimeOfDay[] {
+  const times: TimeOfDay[] = [];
+
+  const clock = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)|\b(\d{1,2}):(\d{2})\b/g;
+  let match;
+  while ((match = clock.exec(text)) !== null) {
+    let hour = parseInt(match[1] ?? match[4], 10);
+    const meridiem = match[3]?.[0];
+    if (meridiem === 'p' && hour < 12) hour += 12;
+    if (meridiem === 'a' && hour === 12) hour = 0;
+    if (hour > 23) continue;
+    times.push({ part: partOfDay(hour), hour });
+  }
+
+  for (const [word, part] of Object.entries(PARTS_OF_DAY)) {
+    if (new RegExp(`\\b${word}\\b`).test(text) && !times.some(time => time.part === part)) {
+      times.push({ part });
+    }
+  }
+
+  return times;
+}
+
+function partOfDay(hour: number): TimeOfDay['part'] {
+  if (hour >= 4 && hour < 7) return 'early_morning';
+  if (hour >= 7 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// COMPARISON
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Whether two contents can describe the same thing. Missing details never
+ * conflict ("ran" vs "ran 5km"); contradicting ones do.
+ */
+export function compareModifiers(a: ContentModifiers, b: ContentModifiers): ModifierComparison {
+  const conflicts: string[] = [];
+
+  // Negation: one side negates what the other asserts
+  const aNegatesB = a.negatedTerms.filter(term => b.assertedTerms.includes(term));
+  const bNegatesA = b.negatedTerms.filter(term => a.assertedTerms.includes(term));
+  if (aNegatesB.length > 0 || bNegatesA.length > 0) {
+    conflicts.push(`negation: ${[...new Set([...aNegatesB, ...bNegatesA])].join(', ')}`);
+  }
+
+  // Quantities: an amount with no close counterpart among the other side's
+  // amounts of the same dimension (and unit, for counts)
+  const comparable = (qa: Quantity, qb: Quantity) =>
+    qa.dimension === qb.dimension && (qa.dimension !== 'count' || qa.unit === qb.unit);
+  const close = (qa: Quantity, qb: Quantity) =>
+    Math.max(qa.normalized, qb.normalized) / Math.max(Math.min(qa.normalized, qb.normalized), 1e-9) <= QUANTITY_TOLERANCE;
+
+  const quantityConflict = [[a, b], [b, a]]
+    .flatMap(([from, to]) => from.quantities.map(quantity => ({
+      quantity,
+      counterparts: to.quantities.filter(other => comparable(quantity, other))
+    })))
+    .find(({ quantity, counterparts }) =>
+      counterparts.length > 0 && !counterparts.some(other => close(quantity, other))
+    );
+  if (quantityConflict) {
+    const { quantity, counterparts } = quantityConflict;
+    conflicts.push(`quantity: ${quantity.value} ${quantity.unit} vs ${counterparts[0].value} ${counterparts[0].unit}`);
+  }
+
+  // Time of day: both specific and far apart
+  const aHours = a.times.filter(time => time.hour !== undefined);
+  const bHours = b.times.filter(time => time.hour !== undefined);
+  if (aHours.length > 0 && bHours.length > 0) {
+    const closest = Math.min(...aHours.flatMap(ta => bHours.map(tb => hourDistance(ta.hour!, tb.hour!))));
+    if (closest > HOUR_TOLERANCE) {
+      conflicts.push(`time: ${aHours[0].hour}:00 vs ${bHours[0].hour}:00`);
+    }
+  } else if (a.times.length > 0 && b.times.length > 0) {
+    // A clock time counts by its part of the day
+    const overlapping = a.times.some(ta => b.times.some(tb => partDistance(ta.part, tb.part) <= 1));
+    if (!overlapping) {
+      conflicts.push(`time: ${a.times[0].part} vs ${b.times[0].part}`);
+    }
+  }
+
+  return { compatible: conflicts.length === 0, conflicts };
+}
+
+function partDistance(a: TimeOfDay['part'], b: TimeOfDay['part']): number {
+  const diff = Math.abs(PART_ORDER.indexOf(a) - PART_ORDER.indexOf(b));
+  return Math.min(diff, PART_ORDER.length - diff);
+}
+
+function hourDistance(a: number, b: number): number {
+  const diff = Math.abs(a - b);
+  return Math.min(diff, 24 - diff);
+}
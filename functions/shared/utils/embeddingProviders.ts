@@ -0,0 +1,293 @@
+declare const Deno: any;
+
+/**
+ * Embedding Providers for Supabase Edge Functions
+ *
+ * The embedding backend is chosen with EMBEDDING_PROVIDER:
+ * - 'openai'      → OpenAI embeddings API (OPENAI_API_KEY, default text-embedding-3-small)
+ * - 'huggingface' → HuggingFace Inference API (HUGGINGFACE_API_KEY, default all-MiniLM-L6-v2)
+ * - 'local'       → deterministic hashing-trick vectors, no network (offline dev / tests)
+ *
+ * Every stored vector is tagged with its provider, model and native dimension
+ * (see embeddingModelTag) and similarity search only compares vectors with the
+ * same tag. Vectors shorter than the vector(1536) columns are zero-padded,
+ * which leaves cosine similarity unchanged.
+ */
+
+import { isProduction } from './cacheProviders.ts';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// PROVIDER INTERFACE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Width of every embedding column in the database */
+export const EMBEDDING_STORAGE_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  readonly name: 'openai' | 'huggingface' | 'local';
+  readonly model: string;
+  /** Native output size, before padding to EMBEDDING_STORAGE_DIMENSIONS */
+  readonly dimensions: number;
+  /** One vector per input, in input order; throws when the backend fails */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Tag stored next to each vector, e.g. "openai:text-embedding-3-small:1536"
+ */
+export function embeddingModelTag(provider: EmbeddingProvider): string {
+  return `${provider.name}:${provider.model}:${provider.dimensions}`;
+}
+
+/**
+ * Zero-pad a vector to the storage width
+ */
+export function padEmbedding(embedding: number[], size: number = EMBEDDING_STORAGE_DIMENSIONS): number[] {
+  if (embedding.length > size) {
+    throw new Error(`Embedding has ${embedding.length} dimensions, storage supports ${size}`);
+  }
+  if (embedding.length === size) {
+    return embedding;
+  }
+  return [...embedding, ...new Array(size - embedding.length).fill(0)];
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// OPENAI PROVIDER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  private apiUrl = 'https://api.openai.com/v1';
+
+  constructor(
+    private apiKey: string,
+    readonly model: string = 'text-embedding-3-small',
+    readonly dimensions: number = EMBEDDING_STORAGE_DIMENSIONS
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const body: Record<string, unknown> = { input: texts, model: this.model };
+    // text-embedding-3 models can shorten their output natively
+    if (this.model.startsWith('text-embedding-3')) {
+      body.dimensions = this.dimensions;
+    }
+
+    const response = await fetch(`${this.apiUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    if (!Array.isArray(result.data)) {
+      throw new Error('Invalid OpenAI response format');
+    }
+
+    const embeddings: number[][] = new Array(texts.length);
+    for (const item of result.data) {
+      embeddings[item.index] = item.embedding;
+    }
+    return assertAligned(embeddings, texts.length, this.dimensions);
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HUGGINGFACE PROVIDER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class HuggingFaceEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'huggingface' as const;
+  private apiUrl = 'https://api-inference.huggingface.co/pipeline/feature-extraction';
+
+  constructor(
+    private apiKey: string,
+    readonly model: string = 'sentence-transformers/all-MiniLM-L6-v2',
+    readonly dimensions: number = 384
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.apiUrl}/${this.model}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ inputs: texts, options: { wait_for_model: true } }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`HuggingFace API error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    if (!Array.isArray(result)) {
+      throw new Error('Invalid HuggingFace response format');
+    }
+
+    // Sentence-transformer models return pooled vectors; token-level models
+    // return one vector per token, which we mean-pool here
+    const embeddings = result.map((item: any) =>
+      Array.isArray(item[0]) ? meanPool(item as number[][]) : item as number[]
+    );
+    return assertAligned(embeddings, texts.length, this.dimensions);
+  }
+}
+
+function meanPool(tokens: number[][]): number[] {
+  const pooled = new Array(tokens[0]?.length || 0).fill(0);
+  for (const token of tokens) {
+    for (let i = 0; i < pooled.length; i++) {
+      pooled[i] += token[i] / tokens.length;
+    }
+  }
+  return pooled;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LOCAL HASHING PROVIDER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Lexical embeddings via the hashing trick: words, word bigrams and character
+ * trigrams are hashed into signed buckets with log-scaled counts, then the
+ * vector is L2-normalised. No semantics beyond shared vocabulary and spelling,
+ * but deterministic, free and offline - texts that share words score as similar,
+ * unrelated texts score near zero.
+ */
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model = 'hashing-v1';
+
+  constructor(readonly dimensions: number = EMBEDDING_STORAGE_DIMENSIONS) {}
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map(text => this.embedOne(text)));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) =>
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+
+    const words = text.toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}']+/gu) || [];
+
+    words.forEach((word, i) => {
+      add(`w:${word}`, 1);
+      if (i > 0) {
+        add(`b:${words[i - 1]} ${word}`, 0.5);
+      }
+      const padded = `<${word}>`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    const vector = new Array(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      const sign = (fnv1a(`#${feature}`) & 1) === 0 ? 1 : -1;
+      vector[index] += sign * Math.log1p(count);
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    return magnitude > 0 ? vector.map(val => val / magnitude) : vector;
+  }
+}
+
+/** 32-bit FNV-1a hash */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SHARED CHECKS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function assertAligned(embeddings: number[][], expected: number, dimensions: number): number[][] {
+  if (embeddings.length !== expected) {
+    throw new Error(`Expected ${expected} embeddings, got ${embeddings.length}`);
+  }
+  embeddings.forEach((embedding, i) => {
+    if (!Array.isArray(embedding) || embedding.length !== dimensions) {
+      throw new Error(`Embedding ${i} has ${embedding?.length ?? 0} dimensions, expected ${dimensions}`);
+    }
+  });
+  return embeddings;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// FACTORY
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Build the provider named by EMBEDDING_PROVIDER (EMBEDDING_MODEL and
+ * EMBEDDING_DIMENSIONS override the provider's defaults).
+ * Unset defaults to OpenAI when OPENAI_API_KEY is present. Outside production,
+ * missing credentials fall back to the local provider with a warning.
+ *
+ * envPrefix selects another set of variables, e.g. 'EMBEDDING_NEXT' reads
+ * EMBEDDING_NEXT_PROVIDER / _MODEL / _DIMENSIONS (the backfill target model).
+ */
+export function createEmbeddingProvider(envPrefix: string = 'EMBEDDING'): EmbeddingProvider {
+  const openaiKey = Deno.env.get('OPENAI_API_KEY');
+  const configured = (Deno.env.get(`${envPrefix}_PROVIDER`) || (openaiKey ? 'openai' : '')).toLowerCase();
+  const model = Deno.env.get(`${envPrefix}_MODEL`) || undefined;
+  const dimensions = parseInt(Deno.env.get(`${envPrefix}_DIMENSIONS`) || '') || undefined;
+  const production = isProduction();
+
+  const fallback = (reason: string): EmbeddingProvider => {
+    if (production) {
+      throw new Error(reason);
+    }
+    console.warn(`⚠️ ${reason}, using local hashing embeddings`);
+    return new LocalHashingEmbeddingProvider();
+  };
+
+  if (dimensions !== undefined && dimensions > EMBEDDING_STORAGE_DIMENSIONS) {
+    throw new Error(`${envPrefix}_DIMENSIONS cannot exceed ${EMBEDDING_STORAGE_DIMENSIONS}`);
+  }
+
+  switch (configured) {
+    case '':
+      return fallback(`${envPrefix}_PROVIDER must be set in production (openai | huggingface | local)`);
+
+    case 'openai':
+      if (!openaiKey) {
+        return fallback(`OPENAI_API_KEY is required when ${envPrefix}_PROVIDER=openai`);
+      }
+      return new OpenAIEmbeddingProvider(openaiKey, model, dimensions);
+
+    case 'huggingface': {
+      const hfKey = Deno.env.get('HUGGINGFACE_API_KEY');
+      if (!hfKey) {
+        return fallback(`HUGGINGFACE_API_KEY is required when ${envPrefix}_PROVIDER=huggingface`);
+      }
+      if (model && dimensions === undefined) {
+        throw new Error(`${envPrefix}_DIMENSIONS is required with a custom HuggingFace ${envPrefix}_MODEL`);
+      }
+      return new HuggingFaceEmbeddingProvider(hfKey, model, dimensions);
+    }
+
+    case 'local':
+      return new LocalHashingEmbeddingProvider(dimensions);
+
+    default:
+      throw new Error(`Unknown ${envPrefix}_PROVIDER "${configured}" (expected openai | huggingface | local)`);
+  }
+}
@@ -0,0 +1,303 @@
+declare const Deno: any;
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AuthenticatedUser, getBearerToken, getRequestUser } from './auth.ts';
+import { Infer, Schema, validate } from './validation.ts';
+import {
+  checkRateLimit,
+  getRateLimitIdentifier,
+  RateLimitAction,
+  rateLimitHeaders
+} from './rateLimit.ts';
+
+/**
+ * Request Pipeline for Supabase Edge Functions
+ *
+ * Wraps a function's handler with CORS, method checks, Supabase client setup,
+ * auth, rate limiting, body/query validation and a uniform error body:
+ *
+ *   { success: false, error: 'Human readable message', code: 'MACHINE_CODE', details? }
+ *
+ * Usage:
+ *   serve(createHandler({ methods: ['POST'], auth: 'optional', body: schema, handler }));
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ERRORS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type ErrorCode =
+  | 'INVALID_JSON'
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'CONTENT_REJECTED'
+  | 'UPSTREAM_ERROR'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Throw from a handler to return a specific status and error code
+ */
+export class ApiError extends Error {
+  status: number;
+  code: ErrorCode;
+  details?: unknown;
+  headers?: Record<string, string>;
+
+  constructor(
+    status: number,
+    code: ErrorCode,
+    message: string,
+    details?: unknown,
+    headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.headers = headers;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * - 'none'     → no token lookup
+ * - 'optional' → user when a valid token is sent, null when none; invalid tokens are rejected
+ * - 'required' → a valid user token is required
+ * - 'service'  → the bearer token must be the service role key (cron / internal callers)
+ * - 'admin'    → a valid user token whose profile has is_admin
+ */
+export type AuthMode = 'none' | 'optional' | 'required' | 'service' | 'admin';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface HandlerContext<TBody, TQuery> {
+  req: Request;
+  url: URL;
+  supabase: any;
+  user: AuthenticatedUser | null;
+  body: TBody;
+  query: TQuery;
+}
+
+export interface HandlerOptions<B extends Schema, Q extends Schema> {
+  name: string; // Used in logs
+  methods: HttpMethod[];
+  auth?: AuthMode;
+  rateLimit?: RateLimitAction; // Checked after auth, so signed-in users are limited per account
+  body?: B;
+  query?: Q;
+  handler: (
+    ctx: HandlerContext<Infer<B>, Infer<Q>>
+  ) => Promise<Response | object>;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// RESPONSES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export function corsHeaders(methods: HttpMethod[]): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', ')
+  };
+}
+
+export function jsonResponse(
+  data: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+export function errorResponse(error: ApiError, headers: Record<string, string> = {}): Response {
+  const body: Record<string, unknown> = {
+    success: false,
+    error: error.message,
+    code: error.code
+  };
+  if (error.details !== undefined) {
+    body.details = error.details;
+  }
+  return jsonResponse(body, error.status, { ...headers, ...error.headers });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Default for endpoints without a body / query schema
+type EmptySchema = Record<string, never>;
+
+export function createHandler<B extends Schema = EmptySchema, Q extends Schema = EmptySchema>(
+  options: HandlerOptions<B, Q>
+): (req: Request) => Promise<Response> {
+  const cors = corsHeaders(options.methods);
+  const authMode = options.auth || 'none';
+
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: cors });
+    }
+
+    let responseHeaders = cors;
+
+    try {
+      if (!options.methods.includes(req.method as HttpMethod)) {
+        throw new ApiError(405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+      }
+
+      const url = new URL(req.url);
+      const supabase = createClient(
+        Deno.env.get('SUPABASE_URL')!,
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+      );
+
+      const user = await authenticate(req, supabase, authMode);
+
+      if (options.rateLimit) {
+        const limitHeaders = await enforceRateLimit(options.rateLimit, req, user);
+        responseHeaders = { ...cors, ...limitHeaders };
+      }
+
+      const body = options.body ? await parseBody(req, options.body) : ({} as Infer<B>);
+      const query = options.query ? parseQuery(url, options.query) : ({} as Infer<Q>);
+
+      const result = await options.handler({ req, url, supabase, user, body, query });
+
+      if (result instanceof Response) {
+        for (const [key, value] of Object.entries(responseHeaders)) {
+          result.headers.set(key, value);
+        }
+        return result;
+      }
+
+      return jsonResponse(result, 200, responseHeaders);
+
+    } catch (error) {
+      if (error instanceof ApiError) {
+        if (error.status >= 500) {
+          console.error(`❌ ${options.name} failed:`, error.message, error.details ?? '');
+        }
+        return errorResponse(error, responseHeaders);
+      }
+
+      console.error(`❌ ${options.name} failed:`, error);
+      return errorResponse(
+        new ApiError(500, 'INTERNAL_ERROR', 'Internal server error', error instanceof Error ? error.message : undefined),
+        cors
+      );
+    }
+  };
+}
+
+/**
+ * Count the request against an action's quota; throws 429 when exceeded.
+ * Returns the X-RateLimit-* headers to attach to the response.
+ */
+export async function enforceRateLimit(
+  action: RateLimitAction,
+  req: Request,
+  user: AuthenticatedUser | null
+): Promise<Record<string, string>> {
+  const result = await checkRateLimit(action, getRateLimitIdentifier(req, user));
+  const headers = rateLimitHeaders(result);
+
+  if (!result.allowed) {
+    throw new ApiError(
+      429,
+      'RATE_LIMITED',
+      `Too many requests, try again in ${result.retryAfter} seconds`,
+      { action, retryAfter: result.retryAfter },
+      headers
+    );
+  }
+
+  return headers;
+}
+
+/**
+ * Resolve the caller according to the auth mode
+ */
+async function authenticate(
+  req: Request,
+  supabase: any,
+  mode: AuthMode
+): Promise<AuthenticatedUser | null> {
+  if (mode === 'none') {
+    return null;
+  }
+
+  if (mode === 'service') {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceKey || getBearerToken(req) !== serviceKey) {
+      throw new ApiError(403, 'FORBIDDEN', 'Service role key required');
+    }
+    return null;
+  }
+
+  const { user, error } = await getRequestUser(req, supabase);
+
+  if (error) {
+    throw new ApiError(401, 'UNAUTHORIZED', error);
+  }
+
+  if (!user && (mode === 'required' || mode === 'admin')) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  if (mode === 'admin') {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', user!.id)
+      .maybeSingle();
+
+    if (!profile?.is_admin) {
+      throw new ApiError(403, 'FORBIDDEN', 'Admin access required');
+    }
+  }
+
+  return user;
+}
+
+async function parseBody<B extends Schema>(req: Request, schema: B): Promise<Infer<B>> {
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    throw new ApiError(400, 'INVALID_JSON', 'Request body must be valid JSON');
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ApiError(400, 'INVALID_JSON', 'Request body must be a JSON object');
+  }
+
+  const { value, issues } = validate(schema, raw as Record<string, unknown>);
+  if (issues.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', issues[0].message, issues);
+  }
+  return value;
+}
+
+function parseQuery<Q extends Schema>(url: URL, schema: Q): Infer<Q> {
+  const raw = Object.fromEntries(url.searchParams.entries());
+  const { value, issues } = validate(schema, raw, { coerce: true });
+  if (issues.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', issues[0].message, issues);
+  }
+  return value;
+}
@@ -0,0 +1,348 @@
+declare const Deno: any;
+
+/**
+ * Moderation Checkers for Supabase Edge Functions
+ *
+ * ModerationPipeline runs every enabled checker (MODERATION_CHECKERS) in
+ * parallel and combines their category scores:
+ * - 'quality'     → repetition and gibberish heuristics, no network
+ * - 'rules'       → regex / lexicon rows from moderation_rules (migration 034)
+ * - 'blocklist'   → blocklist rows from moderation_rules
+ * - 'huggingface' → unitary/toxic-bert (HUGGINGFACE_API_KEY)
+ * - 'openai'      → OpenAI moderation endpoint (OPENAI_API_KEY), opt-in
+ *
+ * Checkers receive the text after obfuscation normalisation
+ * (textNormalization.ts) and the original for structural checks. They report
+ * scores in [0, 1] per category; categories double as the flags returned to
+ * clients. A checker that cannot run throws, and the
+ * pipeline applies MODERATION_FAILURE_POLICY.
+ *
+ * The pipeline gives each checker CHECKER_TIMEOUT_MS; remote checkers abort
+ * their request earlier (REMOTE_TIMEOUT_MS) so they fail on their own.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CHECKER INTERFACE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type ModerationContentType = 'post' | 'dream' | 'comment' | 'profile' | 'support_message';
+
+export type CheckerName = 'quality' | 'rules' | 'blocklist' | 'huggingface' | 'openai';
+
+export interface CheckerResult {
+  /** Score per category, e.g. { toxic: 0.9 } */
+  scores: Record<string, number>;
+  /** What matched, for logs (rule ids, model labels) */
+  matches?: string[];
+}
+
+export interface ModerationChecker {
+  readonly name: CheckerName;
+  /**
+   * content is normalised, original is the text as submitted.
+   * Throws when the check cannot run.
+   */
+  check(content: string, contentType: ModerationContentType, original: string): Promise<CheckerResult>;
+}
+
+/** Time the pipeline waits for one checker */
+export const CHECKER_TIMEOUT_MS = 3000;
+
+/** Request timeout of remote checkers, inside CHECKER_TIMEOUT_MS */
+export const REMOTE_TIMEOUT_MS = 2500;
+
+/** Rule row from moderation_rules */
+export interface ModerationRule {
+  id: string;
+  kind: 'regex' | 'lexicon' | 'blocklist';
+  category: string;
+  pattern: string;
+  score: number;
+  content_types: string[] | null;
+  case_sensitive?: boolean; // Compiled without the i flag (migration 043)
+}
+
+/** Source of the enabled rules; the pipeline caches them */
+export type RuleLoader = () => Promise<ModerationRule[]>;
+
+/**
+ * Add a score to a category, capped at 1
+ */
+function addScore(scores: Record<string, number>, category: string, score: number): void {
+  scores[category] = Math.min(1, (scores[category] ?? 0) + score);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// QUALITY CHECKER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class QualityChecker implements ModerationChecker {
+  readonly name = 'quality' as const;
+
+  // Normalisation shortens repeats, so these heuristics read the original
+  check(_content: string, _contentType: ModerationContentType, original: string): Promise<CheckerResult> {
+    const scores: Record<string, number> = {};
+    if (hasExcessiveRepetition(original)) {
+      scores.repetitive = 0.8;
+    }
+    if (isGibberish(original)) {
+      scores.gibberish = 0.7;
+    }
+    return Promise.resolve({ scores });
+  }
+}
+
+function hasExcessiveRepetition(content: string): boolean {
+  const wordCounts = new Map<string, number>();
+  for (const word of content.toLowerCase().split(/\s+/)) {
+    if (word.length > 3) { // Only count meaningful words
+      wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
+    }
+  }
+
+  const counts = Array.from(wordCounts.values());
+  const meaningfulWords = counts.reduce((sum, count) => sum + count, 0);
+
+  // Short content: any repeated word; longer content: one word over 30%
+  if (meaningfulWords < 5) {
+    return counts.some(count => count > 1);
+  }
+  return counts.some(count => count / meaningfulWords > 0.3);
+}
+
+function isGibberish(content: string): boolean {
+  const nonAlphaRatio = (content.match(/[^a-zA-Z\s]/g) || []).length / content.length;
+  if (nonAlphaRatio > 0.5) {
+    return true;
+  }
+
+  return /[a-z][A-Z][a-z][A-Z]/.test(content) || // Alternating case
+    /(.)\1{5,}/.test(content);                     // Same character 6+ times
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// RULE CHECKERS (moderation_rules)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class RuleChecker implements ModerationChecker {
+  private compiled = new Map<string, RegExp | null>();
+
+  constructor(
+    readonly name: 'rules' | 'blocklist',
+    private loadRules: RuleLoader
+  ) {}
+
+  async check(content: string, contentType: ModerationContentType, original: string): Promise<CheckerResult> {
+    const kinds = this.name === 'blocklist' ? ['blocklist'] : ['regex', 'lexicon'];
+    const rules = (await this.loadRules()).filter(rule =>
+      kinds.includes(rule.kind) &&
+      (!rule.content_types || rule.content_types.includes(contentType))
+    );
+
+    const scores: Record<string, number> = {};
+    const matches: string[] = [];
+
+    for (const rule of rules) {
+      // Regex rules may target raw structure (repeats, punctuation), so they see both texts
+      const regex = this.compile(rule);
+      if (regex && (regex.test(content) || (rule.kind === 'regex' && regex.test(original)))) {
+        addScore(scores, rule.category, Number(rule.score));
+        matches.push(rule.id);
+      }
+    }
+
+    return { scores, matches };
+  }
+
+  private compile(rule: ModerationRule): RegExp | null {
+    const flags = rule.case_sensitive ? '' : 'i';
+    const key = `${rule.kind}:${flags}:${rule.pattern}`;
+    if (!this.compiled.has(key)) {
+      try {
+        const source = rule.kind === 'regex' ? rule.pattern : lexiconPattern(rule.pattern);
+        this.compiled.set(key, new RegExp(source, flags));
+      } catch (error) {
+        console.warn(`⚠️ Skipping invalid moderation rule ${rule.id}:`, error instanceof Error ? error.message : error);
+        this.compiled.set(key, null);
+      }
+    }
+    return this.compiled.get(key)!;
+  }
+}
+
+/**
+ * Whole-word pattern for a term; letters may repeat, since normalisation
+ * leaves doubled letters ("fuuck" matches "fuck")
+ */
+function lexiconPattern(term: string): string {
+  const words = term.trim().split(/\s+/).map(word =>
+    Array.from(word)
+      .map(char => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') + (/\p{L}/u.test(char) ? '+' : ''))
+      .join('')
+  );
+  return `(?<!\\w)${words.join('\\s+')}(?!\\w)`;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HUGGINGFACE CLASSIFIER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// toxic-bert labels → categories
+const TOXIC_BERT_CATEGORIES: Record<string, string> = {
+  toxic: 'toxic',
+  severe_toxic: 'toxic',
+  threat: 'toxic',
+  insult: 'toxic',
+  identity_hate: 'toxic',
+  obscene: 'adult_content'
+};
+
+export class HuggingFaceModerationChecker implements ModerationChecker {
+  readonly name = 'huggingface' as const;
+  private apiUrl = 'https://api-inference.huggingface.co/models';
+
+  constructor(
+    private apiKey: string,
+    private model: string = 'unitary/toxic-bert',
+    private timeoutMs: number = REMOTE_TIMEOUT_MS
+  ) {}
+
+  async check(content: string): Promise<CheckerResult> {
+    const response = await fetch(`${this.apiUrl}/${this.model}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ inputs: content, parameters: { return_all_scores: true } }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HuggingFace moderation API error: ${response.status}`);
+    }
+
+    // One list of { label, score } per input; older models return it flat
+    const data = await response.json();
+    const labels: { label: string; score: number }[] = Array.isArray(data?.[0]) ? data[0] : data;
+    if (!Array.isArray(labels)) {
+      throw new Error('Unexpected HuggingFace moderation response');
+    }
+
+    const scores: Record<string, number> = {};
+    for (const { label, score } of labels) {
+      const category = TOXIC_BERT_CATEGORIES[label?.toLowerCase()];
+      if (category) {
+        scores[category] = Math.max(scores[category] ?? 0, score);
+      }
+    }
+    return { scores, matches: labels.map(l => `${l.label}:${l.score.toFixed(3)}`) };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// OPENAI MODERATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// OpenAI moderation categories → categories
+const OPENAI_CATEGORIES: Record<string, string> = {
+  'harassment': 'toxic',
+  'harassment/threatening': 'toxic',
+  'hate': 'toxic',
+  'hate/threatening': 'toxic',
+  'violence': 'toxic',
+  'self-harm': 'self_harm',
+  'self-harm/intent': 'self_harm',
+  'self-harm/instructions': 'self_harm',
+  'sexual': 'adult_content',
+  'sexual/minors': 'adult_content'
+};
+
+export class OpenAIModerationChecker implements ModerationChecker {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private apiKey: string,
+    private model: string = 'omni-moderation-latest',
+    private timeoutMs: number = REMOTE_TIMEOUT_MS
+  ) {}
+
+  async check(content: string): Promise<CheckerResult> {
+    const response = await fetch('https://api.openai.com/v1/moderations', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: this.model, input: content }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI moderation API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const categoryScores: Record<string, number> | undefined = data?.results?.[0]?.category_scores;
+    if (!categoryScores) {
+      throw new Error('Unexpected OpenAI moderation response');
+    }
+
+    const scores: Record<string, number> = {};
+    for (const [label, score] of Object.entries(categoryScores)) {
+      const category = OPENAI_CATEGORIES[label];
+      if (category) {
+        scores[category] = Math.max(scores[category] ?? 0, score);
+      }
+    }
+    return { scores };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// FACTORY
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const DEFAULT_CHECKERS: CheckerName[] = ['quality', 'rules', 'blocklist', 'huggingface'];
+
+/**
+ * Checkers named in MODERATION_CHECKERS (comma separated, default
+ * DEFAULT_CHECKERS). Remote checkers without an API key are skipped.
+ */
+export function createModerationCheckers(loadRules: RuleLoader): ModerationChecker[] {
+  const configured = (Deno.env.get('MODERATION_CHECKERS') || DEFAULT_CHECKERS.join(','))
+    .split(',')
+    .map((name: string) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const checkers: ModerationChecker[] = [];
+  for (const name of configured) {
+    switch (name) {
+      case 'quality':
+        checkers.push(new QualityChecker());
+        break;
+      case 'rules':
+      case 'blocklist':
+        checkers.push(new RuleChecker(name, loadRules));
+        break;
+      case 'huggingface': {
+        const apiKey = Deno.env.get('HUGGINGFACE_API_KEY');
+        if (apiKey) {
+          checkers.push(new HuggingFaceModerationChecker(apiKey, Deno.env.get('MODERATION_HUGGINGFACE_MODEL') || undefined));
+        }
+        break;
+      }
+      case 'openai': {
+        const apiKey = Deno.env.get('OPENAI_API_KEY');
+        if (apiKey) {
+          checkers.push(new OpenAIModerationChecker(apiKey, Deno.env.get('MODERATION_OPENAI_MODEL') || undefined));
+        }
+        break;
+      }
+      default:
+        console.warn(`⚠️ Unknown moderation checker "${name}", ignoring`);
+    }
+  }
+
+  return checkers;
+}
@@ -0,0 +1,73 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildCursorPage, decodeCursor, encodeCursor, keysetFilter } from './pagination.ts';
+
+const createdAt = '2025-01-02T03:04:05.678+00:00';
+const id = '0b6f1c2e-4d5a-4f6b-8c7d-9e0f1a2b3c4d';
+const cursorOf = (payload: Record<string, unknown>) => btoa(JSON.stringify({ v: 1, ...payload }));
+
+Deno.test('cursor: round-trips through an URL-safe string', () => {
+  const cursor = encodeCursor({ createdAt, id, tierRank: 2 });
+  assertEquals(/^[A-Za-z0-9_-]+$/.test(cursor), true);
+  assertEquals(decodeCursor(cursor), { createdAt, id, tierRank: 2, reactionCount: undefined });
+});
+
+Deno.test('cursor: rejects malformed input', () => {
+  assertEquals(decodeCursor('not-a-cursor'), null);
+  assertEquals(decodeCursor(btoa(JSON.stringify({ v: 2, c: createdAt, i: id }))), null);
+  assertEquals(decodeCursor(cursorOf({ c: 'yesterday', i: id })), null);
+  assertEquals(decodeCursor(cursorOf({ c: createdAt, i: id, r: 1.5 })), null);
+});
+
+Deno.test('cursor: rejects values that could change the filter', () => {
+  assertEquals(decodeCursor(cursorOf({ c: createdAt, i: 'x' })), null);
+  assertEquals(decodeCursor(cursorOf({ c: createdAt, i: `${id}"),user_id.neq.("` })), null);
+  assertEquals(decodeCursor(cursorOf({ c: `${createdAt}"),is_hidden.eq.(true`, i: id })), null);
+  assertEquals(decodeCursor(cursorOf({ c: 'January 2, 2025', i: id })), null);
+  assertEquals(decodeCursor(cursorOf({ c: '2025-01-02T03:04:05Z', i: id.toUpperCase() }))?.id, id.toUpperCase());
+});
+
+Deno.test('keysetFilter: newest orders by created_at then id', () => {
+  assertEquals(
+    keysetFilter({ createdAt, id: 'abc' }),
+    `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt."abc")`
+  );
+});
+
+Deno.test('keysetFilter: group column leads tier and reaction sorts', () => {
+  assertEquals(
+    keysetFilter({ createdAt, id: 'abc', tierRank: 3 }, 'tier'),
+    `tier_rank.gt.3,and(tier_rank.eq.3,created_at.lt."${createdAt}"),` +
+      `and(tier_rank.eq.3,created_at.eq."${createdAt}",id.lt."abc")`
+  );
+  assertEquals(
+    keysetFilter({ createdAt, id: 'abc', reactionCount: 7 }, 'most_reacted'),
+    `total_reactions.lt.7,and(total_reactions.eq.7,created_at.lt."${createdAt}"),` +
+      `and(total_reactions.eq.7,created_at.eq."${createdAt}",id.lt."abc")`
+  );
+});
+
+Deno.test('keysetFilter: falls back to newest when the cursor lacks the group value', () => {
+  assertEquals(keysetFilter({ createdAt, id: 'abc' }, 'tier'), keysetFilter({ createdAt, id: 'abc' }));
+});
+
+Deno.test('buildCursorPage: trims the extra row and points at the last item', () => {
+  const rows = [
+    { id: 'a', created_at: '2025-01-03T00:00:00Z', tier_rank: 1 },
+    { id, created_at: '2025-01-02T00:00:00Z', tier_rank: 1 },
+    { id: 'c', created_at: '2025-01-01T00:00:00Z', tier_rank: 2 }
+  ];
+  const page = buildCursorPage(rows, 2, 'tier');
+  assertEquals(page.items.map(row => row.id), ['a', id]);
+  assertEquals(page.hasNext, true);
+  assertEquals(decodeCursor(page.nextCursor!), {
+    createdAt: '2025-01-02T00:00:00Z',
+    id,
+    tierRank: 1,
+    reactionCount: undefined
+  });
+});
+
+Deno.test('buildCursorPage: last page has no cursor', () => {
+  const page = buildCursorPage([{ id: 'a', created_at: createdAt }], 2);
+  assertEquals(page, { items: [{ id: 'a', created_at: createdAt }], nextCursor: null, hasNext: false });
+});
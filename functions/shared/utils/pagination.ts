@@ -0,0 +1,148 @@
+/**
+ * Keyset (cursor) Pagination Utility
+ *
+ * Cursors are opaque base64url strings wrapping the sort key of the last row
+ * on a page: (created_at, id), plus the tier rank or reaction count when a
+ * feed is sorted by one of those.
+ * The next page is everything strictly after that key, so rows inserted while
+ * a client is scrolling never shift pages the way offsets do.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type KeysetSort = 'newest' | 'tier' | 'most_reacted';
+
+export interface CursorPayload {
+  createdAt: string;
+  id: string;
+  tierRank?: number;
+  reactionCount?: number;
+}
+
+// Only shapes Postgres itself returns are accepted, so decoded values are
+// safe to splice into a PostgREST filter
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+interface EncodedCursor {
+  v: 1;
+  c: string;
+  i: string;
+  r?: number;
+  n?: number;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ENCODING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export function encodeCursor(payload: CursorPayload): string {
+  const encoded: EncodedCursor = { v: 1, c: payload.createdAt, i: payload.id };
+  if (payload.tierRank !== undefined) {
+    encoded.r = payload.tierRank;
+  }
+  if (payload.reactionCount !== undefined) {
+    encoded.n = payload.reactionCount;
+  }
+
+  const bytes = new TextEncoder().encode(JSON.stringify(encoded));
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor; returns null for anything malformed or from another version,
+ * including ids that are not UUIDs and timestamps that are not strict ISO-8601
+ */
+export function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const binary = atob(padded);
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    const decoded = JSON.parse(new TextDecoder().decode(bytes)) as EncodedCursor;
+
+    if (decoded?.v !== 1 || typeof decoded.c !== 'string' || typeof decoded.i !== 'string') {
+      return null;
+    }
+    if (!UUID_PATTERN.test(decoded.i) || !TIMESTAMP_PATTERN.test(decoded.c) || Number.isNaN(Date.parse(decoded.c))) {
+      return null;
+    }
+
+    if ((decoded.r !== undefined && !Number.isInteger(decoded.r)) ||
+        (decoded.n !== undefined && !Number.isInteger(decoded.n))) {
+      return null;
+    }
+
+    return { createdAt: decoded.c, id: decoded.i, tierRank: decoded.r, reactionCount: decoded.n };
+  } catch {
+    return null;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// QUERY HELPERS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * PostgREST `or` filter selecting rows after the cursor for
+ * ORDER BY [tier_rank ASC | total_reactions DESC,] created_at DESC, id DESC
+ * (tier_rank 1 = elite). Values are quoted because timestamps contain reserved characters.
+ * Only pass cursors returned by decodeCursor, which validates every value.
+ */
+export function keysetFilter(cursor: CursorPayload, sort: KeysetSort = 'newest'): string {
+  const createdAt = `"${cursor.createdAt}"`;
+  const id = `"${cursor.id}"`;
+  if (sort === 'tier' && cursor.tierRank !== undefined) {
+    return afterInGroup('tier_rank', 'gt', cursor.tierRank, createdAt, id);
+  }
+  if (sort === 'most_reacted' && cursor.reactionCount !== undefined) {
+    return afterInGroup('total_reactions', 'lt', cursor.reactionCount, createdAt, id);
+  }
+
+  return `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${id})`;
+}
+
+/**
+ * Rows after the cursor when a group column leads the sort
+ */
+function afterInGroup(column: string, after: 'gt' | 'lt', value: number, createdAt: string, id: string): string {
+  return [
+    `${column}.${after}.${value}`,
+    `and(${column}.eq.${value},created_at.lt.${createdAt})`,
+    `and(${column}.eq.${value},created_at.eq.${createdAt},id.lt.${id})`
+  ].join(',');
+}
+
+/**
+ * Trim a page fetched with limit + 1 rows and build the cursor for the next one
+ */
+export function buildCursorPage<T extends {
+  id: string;
+  created_at: string;
+  tier_rank?: number;
+  total_reactions?: number;
+}>(
+  rows: T[],
+  limit: number,
+  sort: KeysetSort = 'newest'
+): { items: T[]; nextCursor: string | null; hasNext: boolean } {
+  const hasNext = rows.length > limit;
+  const items = hasNext ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  const nextCursor = hasNext && last
+    ? encodeCursor({
+      createdAt: last.created_at,
+      id: last.id,
+      tierRank: sort === 'tier' ? last.tier_rank : undefined,
+      reactionCount: sort === 'most_reacted' ? last.total_reactions : undefined
+    })
+    : null;
+
+  return { items, nextCursor, hasNext };
+}
@@ -0,0 +1,51 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { detectPII, redactPII } from './pii.ts';
+
+const redact = (text: string) => redactPII(text, detectPII(text)).text;
+
+Deno.test('detectPII: contact details and numbers', () => {
+  assertEquals(redact('Mail me at jane.doe@example.com'), 'Mail me at [email]');
+  assertEquals(redact('Call +1 (415) 555-0132 tonight'), 'Call [phone] tonight');
+  assertEquals(redact('Card 4111 1111 1111 1111 got declined'), 'Card [card_number] got declined');
+  assertEquals(redact('SSN 123-45-6789'), 'SSN [ssn]');
+});
+
+Deno.test('detectPII: dates and times are not phone numbers', () => {
+  assertEquals(redact('On 2024-01-15 10:30 I ran my first marathon'), 'On 2024-01-15 10:30 I ran my first marathon');
+  assertEquals(redact('Woke up 15.01.2024 at 06:45:10'), 'Woke up 15.01.2024 at 06:45:10');
+  assertEquals(redact('Moved in 01/15/2024 12:00'), 'Moved in 01/15/2024 12:00');
+  assertEquals(
+    redact('Landed 2024-03-02 08:15, call me on 415 555 0132'),
+    'Landed 2024-03-02 08:15, call me on [phone]'
+  );
+});
+
+Deno.test('detectPII: street addresses need a capitalised street name', () => {
+  assertEquals(redact('Moved to 221B Baker Street last week'), 'Moved to [street_address] last week');
+  assertEquals(redact('Parcel went to 42 Elm st. by mistake'), 'Parcel went to [street_address] by mistake');
+  assertEquals(redact('Ran 5 miles down the road this morning'), 'Ran 5 miles down the road this morning');
+});
+
+Deno.test('detectPII: names after cues in any case', () => {
+  assertEquals(redact('Met John Smith today'), 'Met [person_name] today');
+  assertEquals(redact('Had coffee with my boss Jane Doe'), 'Had coffee with my boss [person_name]');
+  assertEquals(redact('Saw Dr. Patel about my knee'), 'Saw [person_name] about my knee');
+});
+
+Deno.test('detectPII: everyday sentences stay untouched', () => {
+  const sentences = [
+    'Had lunch with New York friends',
+    'Flew to San Francisco with coworkers',
+    'Watched the sunset with Los Angeles locals',
+    'Went hiking with Central Park regulars',
+    'Read 3 chapters before bed',
+    'Drank 2 liters of water today',
+    'Walked 10 blocks to the station',
+    'Called my mom and told her about the trip',
+    'Got 8 hours of sleep for once',
+    'Finished my 5k in 28:41'
+  ];
+  for (const sentence of sentences) {
+    assertEquals(redact(sentence), sentence);
+  }
+});
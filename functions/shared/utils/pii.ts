@@ -0,0 +1,244 @@
+declare const Deno: any;
+
+/**
+ * PII Detection & Redaction
+ *
+ * Finds personal details in user text:
+ * - 'email'          → name@example.com
+ * - 'phone'          → 10-15 digits in 2-5 groups, e.g. +1 (415) 555-0132
+ * - 'card_number'    → 13-19 digits passing the Luhn check
+ * - 'ssn'            → 123-45-6789
+ * - 'street_address' → house number + capitalised street name + suffix, e.g. 221B Baker Street
+ * - 'person_name'    → a capitalised full name after a cue ("met John Smith",
+ *                      "my boss Jane Doe", "Dr. Patel"); a heuristic, so names
+ *                      without a cue are missed. Place names ("with New York
+ *                      friends") are not names.
+ *
+ * What happens to a match depends on PII_POLICY for the content type:
+ * 'allow', 'redact' (replace with a [type] placeholder) or 'block'.
+ */
+
+import { ModerationContentType } from './moderationCheckers.ts';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type PIIType = 'email' | 'phone' | 'card_number' | 'ssn' | 'street_address' | 'person_name';
+
+export type PIIPolicy = 'allow' | 'redact' | 'block';
+
+export interface PIIMatch {
+  type: PIIType;
+  start: number; // Offsets into the scanned text
+  end: number;
+}
+
+/** Placeholder position in redacted text */
+export interface RedactionSpan {
+  type: PIIType;
+  start: number;
+  end: number;
+}
+
+export interface RedactedText {
+  text: string;
+  spans: RedactionSpan[];
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// POLICY
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const PII_POLICIES: PIIPolicy[] = ['allow', 'redact', 'block'];
+
+export const DEFAULT_PII_POLICIES: Record<ModerationContentType, PIIPolicy> = {
+  post: 'redact',
+  dream: 'redact',
+  comment: 'redact',
+  profile: 'allow',
+  support_message: 'block' // Sent to strangers; ask the author to rewrite
+};
+
+/**
+ * Policy for a content type: DEFAULT_PII_POLICIES overridden by PII_POLICY
+ * (JSON, e.g. {"post": "block"})
+ */
+export function getPIIPolicy(contentType: ModerationContentType): PIIPolicy {
+  const raw = Deno.env.get('PII_POLICY');
+  if (raw) {
+    try {
+      const policy = JSON.parse(raw)[contentType];
+      if (PII_POLICIES.includes(policy)) {
+        return policy;
+      }
+      if (policy !== undefined) {
+        console.warn(`⚠️ Unknown PII_POLICY "${policy}" for ${contentType}, using default`);
+      }
+    } catch (error) {
+      console.warn('⚠️ Invalid PII_POLICY, using defaults:', error instanceof Error ? error.message : error);
+    }
+  }
+  return DEFAULT_PII_POLICIES[contentType] ?? 'redact';
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// DETECTION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+const SSN = /(?<!\d)\d{3}-\d{2}-\d{4}(?!\d)/g;
+
+// Digit runs with separators; phones and card numbers are told apart by length / Luhn
+const DIGIT_RUN = /(?<![\w+])\+?\(?\d[\d\s().-]{7,}\d(?!\w)/g;
+
+// Dates and clock times ("2024-01-15 10:30", "15.01.2024") are masked before the digit-run scan
+const DATE_OR_TIME = /(?<!\d)(?:\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}|\d{1,2}:\d{2}(?::\d{2})?)(?!\d)/g;
+
+const STREET_SUFFIXES = [
+  'street', 'st', 'avenue', 'ave', 'road', 'rd', 'boulevard', 'blvd', 'lane', 'ln', 'drive', 'dr',
+  'court', 'ct', 'way', 'place', 'pl', 'terrace', 'circle', 'highway', 'hwy', 'parkway', 'pkwy'
+];
+
+/**
+ * Pattern source matching the word in any letter case ("st" → "[sS][tT]"), for
+ * the parts of a case-sensitive pattern that are not
+ */
+function anyCase(word: string): string {
+  return word.replace(/[a-z]/g, letter => `[${letter}${letter.toUpperCase()}]`);
+}
+
+// Street names must be capitalised ("5 miles down the road" is not an address); suffixes may not be
+const STREET_ADDRESS = new RegExp(
+  `(?<!\\w)\\d{1,5}[A-Za-z]?\\s+(?:[A-Z][A-Za-z'-]*\\s+){1,3}(?:${STREET_SUFFIXES.map(anyCase).join('|')})\\b\\.?`,
+  'g'
+);
+
+const NAME_CUES = [
+  'with', 'met', 'saw', 'called', 'texted', 'named', 'told', 'asked', 'by', 'friend', 'boss',
+  'neighbou?r', 'coworker', 'colleague', 'ex', 'teacher', 'roommate', 'cousin'
+];
+
+// Cue words in any case ("Met John Smith"), then a capitalised full name (2-3 words)
+const NAME_CUE = new RegExp(
+  `\\b(?:${NAME_CUES.map(anyCase).join('|')})\\s+((?:[A-Z][a-z]+)(?:\\s+[A-Z][a-z]+){1,2})\\b`,
+  'g'
+);
+
+const TITLED_NAME = /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/g;
+
+// Capitalised words that end place names, not people's names
+const NOT_SURNAMES = new Set([
+  'Street', 'Avenue', 'Road', 'Park', 'City', 'Lake', 'River', 'Beach', 'Mountain', 'Hall',
+  'Center', 'Centre', 'Mall', 'Market', 'Station', 'Airport', 'Hospital', 'School', 'University',
+  'College', 'Church', 'Bridge', 'Square', 'Garden', 'Gardens', 'Museum', 'Stadium', 'Cafe',
+  'York', 'Jersey', 'Francisco', 'Angeles', 'Vegas', 'Diego', 'Orleans', 'Zealand', 'Hampshire',
+  'Mexico', 'Dakota', 'Carolina', 'Island', 'Islands', 'Coast', 'Valley', 'County', 'Kingdom',
+  'States', 'Springs', 'Falls', 'Heights', 'Hills', 'Village', 'Kong', 'Rica', 'Rico', 'Lanka',
+  'Arabia', 'Africa', 'America', 'Europe', 'Asia'
+]);
+
+// Capitalised words that start place names (New York, San Jose, Fort Worth)
+const PLACE_PREFIXES = new Set([
+  'New', 'San', 'Santa', 'Los', 'Las', 'Fort', 'Port', 'Mount', 'Saint', 'North', 'South',
+  'East', 'West', 'Hong', 'Costa', 'Puerto', 'Sri', 'Saudi'
+]);
+
+/**
+ * All PII in a text, sorted by position, without overlaps
+ */
+export function detectPII(text: string): PIIMatch[] {
+  const matches: PIIMatch[] = [];
+  const add = (type: PIIType, start: number, end: number) => matches.push({ type, start, end });
+
+  for (const m of text.matchAll(EMAIL)) {
+    add('email', m.index!, m.index! + m[0].length);
+  }
+
+  for (const m of text.matchAll(SSN)) {
+    add('ssn', m.index!, m.index! + m[0].length);
+  }
+
+  // Same length as text, so match positions carry over
+  const withoutDates = text.replace(DATE_OR_TIME, shape => '_'.repeat(shape.length));
+  for (const m of withoutDates.matchAll(DIGIT_RUN)) {
+    const digits = m[0].replace(/\D/g, '');
+    const groups = m[0].split(/[\s().-]+/).filter(Boolean);
+    if (digits.length >= 13 && digits.length <= 19 && luhnValid(digits)) {
+      add('card_number', m.index!, m.index! + m[0].length);
+    } else if (
+      digits.length >= 10 && digits.length <= 15 &&
+      groups.length <= 5 &&
+      groups.slice(1).every(group => group.replace(/\D/g, '').length >= 2)
+    ) {
+      add('phone', m.index!, m.index! + m[0].length);
+    }
+  }
+
+  for (const m of text.matchAll(STREET_ADDRESS)) {
+    add('street_address', m.index!, m.index! + m[0].length);
+  }
+
+  for (const m of text.matchAll(NAME_CUE)) {
+    const name = m[1];
+    const words = name.split(/\s+/);
+    if (!PLACE_PREFIXES.has(words[0]) && !NOT_SURNAMES.has(words[words.length - 1])) {
+      const start = m.index! + m[0].length - name.length;
+      add('person_name', start, start + name.length);
+    }
+  }
+
+  for (const m of text.matchAll(TITLED_NAME)) {
+    add('person_name', m.index!, m.index! + m[0].length);
+  }
+
+  // Keep the earliest, then longest, of overlapping matches
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  const result: PIIMatch[] = [];
+  for (const match of matches) {
+    const last = result[result.length - 1];
+    if (!last || match.start >= last.end) {
+      result.push(match);
+    }
+  }
+  return result;
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// REDACTION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Replace each match with a [type] placeholder; spans locate the
+ * placeholders in the redacted text
+ */
+export function redactPII(text: string, matches: PIIMatch[]): RedactedText {
+  let redacted = '';
+  let cursor = 0;
+  const spans: RedactionSpan[] = [];
+
+  for (const match of matches) {
+    redacted += text.slice(cursor, match.start);
+    const placeholder = `[${match.type}]`;
+    spans.push({ type: match.type, start: redacted.length, end: redacted.length + placeholder.length });
+    redacted += placeholder;
+    cursor = match.end;
+  }
+  redacted += text.slice(cursor);
+
+  return { text: redacted, spans };
+}
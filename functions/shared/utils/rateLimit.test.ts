@@ -0,0 +1,52 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { checkRateLimit, getRateLimitIdentifier, RateLimits, rateLimitHeaders } from './rateLimit.ts';
+
+// Without CACHE_PROVIDER the cache is the in-memory provider, so counters are local to this run
+
+Deno.test('getRateLimitIdentifier: users by id, others by the platform-appended IP', () => {
+  // The first hop is whatever the client sent; the platform appends the real address
+  const req = new Request('http://localhost', {
+    headers: { 'x-forwarded-for': '198.51.100.1, 203.0.113.7', 'x-real-ip': '10.0.0.2' }
+  });
+  assertEquals(getRateLimitIdentifier(req, { id: 'u1' }), 'user:u1');
+  assertEquals(getRateLimitIdentifier(req, null), 'ip:203.0.113.7');
+  assertEquals(getRateLimitIdentifier(new Request('http://localhost'), null), 'ip:unknown');
+});
+
+Deno.test('checkRateLimit: allows the quota, then blocks with a retry delay', async () => {
+  const { limit } = RateLimits.dream;
+  const identifier = `test:${crypto.randomUUID()}`;
+
+  for (let i = 1; i <= limit; i++) {
+    const result = await checkRateLimit('dream', identifier);
+    assertEquals(result.allowed, true);
+    assertEquals(result.remaining, limit - i);
+    assertEquals(result.retryAfter, 0);
+  }
+
+  const blocked = await checkRateLimit('dream', identifier);
+  assertEquals(blocked.allowed, false);
+  assertEquals(blocked.remaining, 0);
+  assertEquals(blocked.retryAfter >= 1, true);
+  assertEquals(blocked.retryAfter <= RateLimits.dream.window * 2, true);
+});
+
+Deno.test('checkRateLimit: counts actions and callers separately', async () => {
+  const identifier = `test:${crypto.randomUUID()}`;
+  for (let i = 0; i < RateLimits.dream.limit; i++) {
+    await checkRateLimit('dream', identifier);
+  }
+
+  assertEquals((await checkRateLimit('post', identifier)).allowed, true);
+  assertEquals((await checkRateLimit('dream', `test:${crypto.randomUUID()}`)).allowed, true);
+});
+
+Deno.test('rateLimitHeaders: Retry-After only when blocked', () => {
+  const base = { limit: 10, remaining: 0, reset: 1700000000, retryAfter: 0, backend: 'memory' as const };
+  assertEquals(rateLimitHeaders({ ...base, allowed: true }), {
+    'X-RateLimit-Limit': '10',
+    'X-RateLimit-Remaining': '0',
+    'X-RateLimit-Reset': '1700000000'
+  });
+  assertEquals(rateLimitHeaders({ ...base, allowed: false, retryAfter: 42 })['Retry-After'], '42');
+});
@@ -0,0 +1,176 @@
+/**
+ * Rate Limiting for Supabase Edge Functions
+ *
+ * Sliding-window counter per (user or IP, action), stored under
+ * CacheKeys.rateLimit. The current and previous fixed windows are blended by
+ * how far we are into the current window, which smooths bursts at window edges
+ * without storing every request timestamp.
+ *
+ * When Redis is unavailable, counters fall back to this isolate's memory so
+ * limits still apply (per instance) instead of failing open.
+ */
+
+import { AuthenticatedUser } from './auth.ts';
+import { CacheKeys, CacheTTL, redis } from './redis.ts';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// QUOTAS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface RateLimitQuota {
+  limit: number;   // Requests allowed per window
+  window: number;  // Window length in seconds
+}
+
+export const RateLimits = {
+  post: { limit: 10, window: CacheTTL.RATE_LIMIT },
+  dream: { limit: 5, window: CacheTTL.RATE_LIMIT },
+  interpret: { limit: 5, window: CacheTTL.RATE_LIMIT },
+  support_message: { limit: 10, window: 10 * CacheTTL.RATE_LIMIT },
+  reaction: { limit: 30, window: CacheTTL.RATE_LIMIT },
+  search: { limit: 20, window: CacheTTL.RATE_LIMIT },
+  appeal: { limit: 5, window: 10 * CacheTTL.RATE_LIMIT },
+} as const;
+
+export type RateLimitAction = keyof typeof RateLimits;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;       // Unix seconds when the current window ends
+  retryAfter: number;  // Seconds until a request would be allowed (0 when allowed)
+  backend: 'redis' | 'memory';
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// IN-MEMORY FALLBACK
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const memoryCounters = new Map<string, { count: number; expiresAt: number }>();
+const MAX_MEMORY_COUNTERS = 10000;
+
+function memoryIncr(key: string, ttl: number): number {
+  const now = Date.now();
+  const entry = memoryCounters.get(key);
+
+  if (entry && entry.expiresAt > now) {
+    entry.count++;
+    return entry.count;
+  }
+
+  if (memoryCounters.size >= MAX_MEMORY_COUNTERS) {
+    for (const [k, v] of memoryCounters) {
+      if (v.expiresAt <= now) memoryCounters.delete(k);
+    }
+    const oldest = memoryCounters.keys().next().value;
+    if (memoryCounters.size >= MAX_MEMORY_COUNTERS && oldest !== undefined) {
+      memoryCounters.delete(oldest);
+    }
+  }
+
+  memoryCounters.set(key, { count: 1, expiresAt: now + ttl * 1000 });
+  return 1;
+}
+
+function memoryGet(key: string): number {
+  const entry = memoryCounters.get(key);
+  return entry && entry.expiresAt > Date.now() ? entry.count : 0;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LIMITER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Identify the caller: signed-in users by id, everyone else by client IP.
+ * The IP is the last x-forwarded-for hop, the one the platform appends;
+ * earlier hops come from the client and can be anything.
+ */
+export function getRateLimitIdentifier(req: Request, user: AuthenticatedUser | null): string {
+  if (user) {
+    return `user:${user.id}`;
+  }
+
+  const forwarded = req.headers.get('x-forwarded-for');
+  const ip = forwarded?.split(',').pop()?.trim() ||
+             req.headers.get('cf-connecting-ip') ||
+             req.headers.get('x-real-ip') ||
+             'unknown';
+
+  return `ip:${ip}`;
+}
+
+/**
+ * Count this request against the caller's quota for an action
+ */
+export async function checkRateLimit(
+  action: RateLimitAction,
+  identifier: string
+): Promise<RateLimitResult> {
+  const { limit, window } = RateLimits[action];
+  const nowSeconds = Date.now() / 1000;
+  const windowIndex = Math.floor(nowSeconds / window);
+  const elapsed = nowSeconds - windowIndex * window;
+
+  const currentKey = CacheKeys.rateLimit(identifier, `${action}:${windowIndex}`);
+  const previousKey = CacheKeys.rateLimit(identifier, `${action}:${windowIndex - 1}`);
+
+  // Counters must outlive the next window so they can be read as "previous"
+  const ttl = window * 2;
+
+  let backend: RateLimitResult['backend'] = 'redis';
+  let current = await redis.incr(currentKey, ttl);
+  let previous = 0;
+
+  if (current === null) {
+    backend = 'memory';
+    current = memoryIncr(currentKey, ttl);
+    previous = memoryGet(previousKey);
+  } else {
+    previous = parseInt((await redis.get(previousKey)) || '0') || 0;
+  }
+
+  const weight = 1 - elapsed / window;
+  const used = previous * weight + current;
+  const allowed = used <= limit;
+
+  let retryAfter = 0;
+  if (!allowed) {
+    if (current < limit && previous > 0) {
+      // Wait for enough of the previous window to slide out
+      retryAfter = window * (1 - (limit - current) / previous) - elapsed;
+    } else {
+      // Wait for the next window, then for this window's weight to decay
+      retryAfter = (window - elapsed) + Math.max(0, window * (1 - limit / current));
+    }
+    retryAfter = Math.max(1, Math.ceil(retryAfter));
+    console.log(`⚠️ Rate limit exceeded: ${identifier} ${action} (${used.toFixed(1)}/${limit})`);
+  }
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - used)),
+    reset: Math.ceil((windowIndex + 1) * window),
+    retryAfter,
+    backend
+  };
+}
+
+/**
+ * Standard headers for a rate limit decision
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.reset)
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+
+  return headers;
+}
@@ -1,122 +1,19 @@
 /**
- * Redis Client Utility for Supabase Edge Functions
+ * Cache Utility for Supabase Edge Functions
  * 
  * Provides caching layer for:
  * - Moderation results (5 min TTL)
  * - Similar posts (10 min TTL)
  * - Feed results (2 min TTL)
  * - Rate limiting (1 min TTL)
+ * - Embeddings (7 day TTL, backed by the embedding_cache table)
+ * - Similarity thresholds (5 min TTL)
  * 
- * Using Upstash Redis REST API (compatible with Deno)
+ * The backend (Upstash Redis or in-memory LRU) is chosen by CACHE_PROVIDER,
+ * see cacheProviders.ts
  */
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// REDIS CLIENT
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-interface RedisClient {
-  get(key: string): Promise<string | null>;
-  set(key: string, value: string, ttl?: number): Promise<boolean>;
-  del(key: string): Promise<boolean>;
-  exists(key: string): Promise<boolean>;
-}
-
-class UpstashRedisClient implements RedisClient {
-  private url: string;
-  private token: string;
-
-  constructor() {
-    // Try completely generic environment variable names
-    this.url = Deno.env.get('DB_URL') || 
-               Deno.env.get('API_URL') || 
-               Deno.env.get('CACHE_URL') || 
-               Deno.env.get('KV_URL') || 
-               Deno.env.get('REDIS_URL') || 
-               Deno.env.get('UPSTASH_REDIS_REST_URL') || 
-               Deno.env.get('KV_REST_API_URL') || '';
-    this.token = Deno.env.get('DB_TOKEN') || 
-                 Deno.env.get('API_TOKEN') || 
-                 Deno.env.get('CACHE_TOKEN') || 
-                 Deno.env.get('KV_TOKEN') || 
-                 Deno.env.get('REDIS_TOKEN') || 
-                 Deno.env.get('UPSTASH_REDIS_REST_TOKEN') || 
-                 Deno.env.get('KV_REST_API_TOKEN') || '';
-    
-    // TEMPORARY: Hardcode Redis credentials for testing
-    if (!this.url || !this.token) {
-      console.log('⚠️ Environment variables not found, using hardcoded credentials for testing');
-      this.url = 'https://comic-glowworm-16004.upstash.io';
-      this.token = 'AT6EAAIncDIwZTY3MmZjMWVjYzI0NDVlOGI5OGVkYjQzNmU5MmIxYXAyMTYwMDQ';
-    }
-    
-    // Redis configuration loaded successfully
-    if (this.url && this.token) {
-      console.log('✅ Redis configured successfully');
-    } else {
-      console.log('⚠️ Redis not configured, skipping cache');
-    }
-  }
-
-  private async request(command: string, args: any[] = []): Promise<any> {
-    if (!this.url || !this.token) {
-      console.log('⚠️ Redis not configured, skipping cache');
-      // Return appropriate default values for different commands
-      if (command === 'GET') return null;
-      if (command === 'SET' || command === 'SETEX') return 'OK';
-      if (command === 'DEL') return 0;
-      if (command === 'EXISTS') return 0;
-      return null;
-    }
-
-    try {
-      // Upstash Redis REST API format - use the correct endpoint
-      const response = await fetch(this.url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify([command, ...args]),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Redis request failed:', response.status, response.statusText, errorText);
-        return null;
-      }
-
-      const result = await response.json();
-      return result.result;
-    } catch (error) {
-      console.error('❌ Redis error:', error);
-      return null;
-    }
-  }
-
-  async get(key: string): Promise<string | null> {
-    return await this.request('GET', [key]);
-  }
-
-  async set(key: string, value: string, ttl?: number): Promise<boolean> {
-    if (ttl) {
-      const result = await this.request('SETEX', [key, ttl, value]);
-      return result === 'OK';
-    } else {
-      const result = await this.request('SET', [key, value]);
-      return result === 'OK';
-    }
-  }
-
-  async del(key: string): Promise<boolean> {
-    const result = await this.request('DEL', [key]);
-    return result === 1;
-  }
-
-  async exists(key: string): Promise<boolean> {
-    const result = await this.request('EXISTS', [key]);
-    return result === 1;
-  }
-}
+import { CacheProvider, createCacheProvider } from './cacheProviders.ts';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // CACHE KEY CONSTANTS
@@ -124,18 +21,19 @@ class UpstashRedisClient implements RedisClient {
 
 export const CacheKeys = {
   // Moderation
-  moderation: (contentHash: string) => `moderation:${contentHash}`,
+  moderation: (contentType: string, contentHash: string) => `moderation:${contentType}:${contentHash}`,
+  moderationRules: () => `moderation:rules`,
   
   // Similar posts
   similarPosts: (contentHash: string) => `similar:${contentHash}`,
   
-  // Feed results
-  feed: (scope: string, filter: string, page: number) => 
+  // Feed results (page is a page number in offset mode, or a cursor key)
+  feed: (scope: string, filter: string, page: number | string) => 
     `feed:${scope}:${filter}:${page}`,
   
-  // Rate limiting
-  rateLimit: (ip: string, action: string) => 
-    `ratelimit:${ip}:${action}`,
+  // Rate limiting (identifier is `user:<id>` or `ip:<address>`)
+  rateLimit: (identifier: string, action: string) => 
+    `ratelimit:${identifier}:${action}`,
   
   // User posts
   userPosts: (userId: string) => 
@@ -145,15 +43,96 @@ export const CacheKeys = {
   stats: (scope: string, period: string) => 
     `stats:${scope}:${period}`,
   
-  // Temporal analytics
-  temporalAnalytics: (contentHash: string, scope: string) => 
-    `temporal:${contentHash}:${scope}`,
+  // Temporal analytics (grouped by canonical action key, windows of a local day)
+  temporalAnalytics: (actionKey: string, scope: string, timeZone: string, day: string) => 
+    `temporal:${actionKey}:${scope}:${timeZone}:${day}`,
   
   // Total posts count
   totalPostsCount: (scope: string, city?: string, state?: string, country?: string) => 
     `count:${scope}:${city || 'any'}:${state || 'any'}:${country || 'any'}`,
+  
+  // Embedding for a model tag + sha256 of the normalized text
+  embedding: (model: string, textHash: string) => 
+    `embedding:${model}:${textHash}`,
+  
+  // Matching thresholds for an input type + scope + model tag
+  similarityThresholds: (inputType: string, scope: string, model: string) => 
+    `thresholds:${inputType}:${scope}:${model}`,
+  
+  // Tag index (set of cache keys carrying the tag)
+  tag: (tag: string) => 
+    `tag:${tag}`,
 } as const;
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CACHE TAGS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const CacheTags = {
+  // Feed pages for a scope filter + input type filter ('world' / 'all' mean unfiltered)
+  feed: (scope: string, inputType: string) => 
+    `feed:${scope}:${inputType}`,
+  
+  // Scope on its own (world-wide entries use scope('world'))
+  scope: (scope: string) => 
+    `scope:${scope}`,
+  
+  // A city / state / country
+  location: (level: 'city' | 'state' | 'country', value: string) => 
+    `location:${level}:${value.toLowerCase()}`,
+  
+  // Anything computed for a calendar day (YYYY-MM-DD)
+  date: (day: string) => 
+    `date:${day}`,
+  
+  /**
+   * The one area tag describing an entry computed for a scope + location
+   * (counts, temporal analytics). Falls back to world when the location is missing.
+   */
+  area: (scope: string, city?: string, state?: string, country?: string): string => {
+    if (scope === 'city' && city) return CacheTags.location('city', city);
+    if (scope === 'state' && state) return CacheTags.location('state', state);
+    if (scope === 'country' && country) return CacheTags.location('country', country);
+    return CacheTags.scope('world');
+  },
+  
+  /**
+   * Feed pages a post can appear on: its own scope / input type and the
+   * unfiltered variants. Enough for changes that only move it within feeds
+   * (reactions).
+   */
+  feedsForPost: (post: { scope: string; input_type: string }): string[] => [...new Set([
+    CacheTags.feed(post.scope, post.input_type),
+    CacheTags.feed(post.scope, 'all'),
+    CacheTags.feed('world', post.input_type),
+    CacheTags.feed('world', 'all')
+  ])],
+  
+  /**
+   * Every tag whose entries can change when a post is created, moderated or
+   * deleted: its feeds (own + unfiltered scope/input type), every area the
+   * post's location falls in, and its day.
+   */
+  forPost: (post: {
+    scope: string;
+    input_type: string;
+    location_city?: string | null;
+    location_state?: string | null;
+    location_country?: string | null;
+    created_at?: string;
+  }): string[] => {
+    const tags = new Set<string>([
+      ...CacheTags.feedsForPost(post),
+      CacheTags.scope('world'),
+      CacheTags.date((post.created_at || new Date().toISOString()).slice(0, 10))
+    ]);
+    if (post.location_city) tags.add(CacheTags.location('city', post.location_city));
+    if (post.location_state) tags.add(CacheTags.location('state', post.location_state));
+    if (post.location_country) tags.add(CacheTags.location('country', post.location_country));
+    return [...tags];
+  },
+};
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // CACHE TTL CONSTANTS (seconds)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -166,13 +145,16 @@ export const CacheTTL = {
   USER_POSTS: 300,        // 5 minutes
   STATS: 180,             // 3 minutes
   TEMPORAL_ANALYTICS: 300, // 5 minutes
+  EMBEDDING: 604800,      // 7 days (vectors never change for a model + text)
+  SIMILARITY_THRESHOLDS: 300, // 5 minutes
+  MODERATION_RULES: 300,  // 5 minutes
 } as const;
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// REDIS INSTANCE
+// CACHE INSTANCE
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export const redis = new UpstashRedisClient();
+export const redis: CacheProvider = createCacheProvider();
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // UTILITY FUNCTIONS
@@ -229,6 +211,106 @@ export async function cacheExists(key: string): Promise<boolean> {
   }
 }
 
+export async function cacheMGet<T>(keys: string[]): Promise<(T | null)[]> {
+  try {
+    const values = await redis.mget(keys);
+    return values.map(value => (value ? JSON.parse(value) : null));
+  } catch (error) {
+    console.error('❌ Cache mget error:', error);
+    return keys.map(() => null);
+  }
+}
+
+export async function cacheDelPattern(pattern: string): Promise<number> {
+  try {
+    const deleted = await redis.delPattern(pattern);
+    console.log(`🗑️ Cache pattern deleted: ${pattern} (${deleted} keys)`);
+    return deleted;
+  } catch (error) {
+    console.error('❌ Cache pattern delete error:', error);
+    return 0;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TAG-BASED INVALIDATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Cache a value and register its key under each tag, so that
+ * invalidateCacheTags can later drop every key carrying a tag.
+ * Tag sets live slightly longer than the entries they index.
+ */
+export async function cacheSetWithTags<T>(
+  key: string,
+  value: T,
+  tags: string[],
+  ttl?: number
+): Promise<boolean> {
+  try {
+    const serialized = JSON.stringify(value);
+    const tagTtl = ttl ? ttl * 2 : undefined;
+
+    const results = await redis.pipeline([
+      ttl ? ['SETEX', key, ttl, serialized] : ['SET', key, serialized],
+      ...tags.map(tag => ['SADD', CacheKeys.tag(tag), key] as [string, string, string]),
+      ...(tagTtl ? tags.map(tag => ['EXPIRE', CacheKeys.tag(tag), tagTtl] as [string, string, number]) : [])
+    ]);
+
+    const success = results[0] === 'OK';
+    if (success) {
+      console.log(`✅ Cache set: ${key} (TTL: ${ttl || 'none'}, tags: ${tags.join(', ')})`);
+    }
+    return success;
+  } catch (error) {
+    console.error('❌ Cache set with tags error:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete every cache entry registered under any of the given tags
+ */
+export async function invalidateCacheTags(tags: string[]): Promise<number> {
+  try {
+    const tagKeys = tags.map(tag => CacheKeys.tag(tag));
+    const memberLists = await redis.pipeline(tagKeys.map(tagKey => ['SMEMBERS', tagKey]));
+    const keys = new Set<string>();
+
+    memberLists.forEach(members => {
+      if (Array.isArray(members)) members.forEach(member => keys.add(member));
+    });
+
+    const deleted = await redis.delMany([...keys, ...tagKeys]);
+    console.log(`🗑️ Invalidated tags [${tags.join(', ')}]: ${keys.size} keys`);
+    return deleted;
+  } catch (error) {
+    console.error('❌ Cache tag invalidation error:', error);
+    return 0;
+  }
+}
+
+/**
+ * Invalidate the tagged caches (feeds, counts, stats, temporal) a post belongs
+ * to, and the similar-posts entry for its content
+ */
+export async function invalidatePostCaches(post: {
+  content_hash?: string | null;
+  scope: string;
+  input_type: string;
+  location_city?: string | null;
+  location_state?: string | null;
+  location_country?: string | null;
+  created_at?: string;
+}): Promise<void> {
+  console.log('🗑️ Invalidating caches for post...');
+  await invalidateCacheTags(CacheTags.forPost(post));
+
+  if (post.content_hash) {
+    await cacheDel(CacheKeys.similarPosts(post.content_hash));
+  }
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // CONTENT HASHING
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -0,0 +1,41 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { normalizeForModeration } from './textNormalization.ts';
+
+const normalize = (input: string) => normalizeForModeration(input).text;
+
+Deno.test('normalizeForModeration: undoes obfuscation', () => {
+  assertEquals(normalize('ｓｅｘ'), 'sex');
+  assertEquals(normalize('ѕех'), 'sex');
+  assertEquals(normalize('s\u200Bex'), 'sex');
+  assertEquals(normalize('s3x'), 'sex');
+  assertEquals(normalize('s.e.x'), 'sex');
+  assertEquals(normalize('seeeex'), 'seex');
+});
+
+Deno.test('normalizeForModeration: reports the steps that changed the text', () => {
+  assertEquals(normalizeForModeration('k1ll'), { text: 'kill', transformations: ['leet'] });
+  assertEquals(normalizeForModeration('Went for a run').transformations, []);
+});
+
+Deno.test('leet: only between letters', () => {
+  assertEquals(normalize('k1ll'), 'kill');
+  assertEquals(normalize('b!tch'), 'bitch');
+  assertEquals(normalize('a$$hole'), 'asshole');
+  assertEquals(normalize('Got an A+ on my exam'), 'Got an A+ on my exam');
+  assertEquals(normalize('Learning C++ tonight'), 'Learning C++ tonight');
+  assertEquals(normalize('Coffee b4 work'), 'Coffee b4 work');
+  assertEquals(normalize('Ran 5km at 6am, finished 1st!'), 'Ran 5km at 6am, finished 1st!');
+});
+
+Deno.test('spacing: a leading "a" or "I" is also read as a word', () => {
+  assertEquals(normalize('want a s e x tape'), 'want asex sex tape');
+  assertEquals(normalize('a s s'), 'ass');
+  assertEquals(normalize('s e x'), 'sex');
+  assertEquals(normalize('a.s.s'), 'ass');
+  assertEquals(normalize('I went to a b c'), 'I went to abc');
+});
+
+Deno.test('confusables: Russian and Greek text is left alone', () => {
+  assertEquals(normalize('Привет, как дела'), 'Привет, как дела');
+  assertEquals(normalizeForModeration('Καλημέρα').transformations.includes('confusables'), false);
+});
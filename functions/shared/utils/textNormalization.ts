@@ -0,0 +1,145 @@
+/**
+ * Text Normalisation for Moderation
+ *
+ * Undoes common filter-evasion tricks before moderation checks run:
+ *   "ｓｅｘ" / "ѕех" / "s\u200Bex" / "s3x" / "s e x" / "seeeex" → "sex"
+ * Steps, in order (each reports a transformation when it changed the text):
+ *   - 'nfkc'        Unicode NFKC (full-width, ligatures, super/subscripts)
+ *   - 'zero_width'  zero-width characters and soft hyphens removed
+ *   - 'confusables' Cyrillic / Greek lookalikes folded to Latin in Latin-looking words
+ *   - 'diacritics'  combining accents removed from Latin letters
+ *   - 'leet'        digits / symbols between letters mapped to letters (k1ll → kill)
+ *   - 'spacing'     letters spaced out with spaces or punctuation joined (s.e.x → sex)
+ *                   A run led by the word "a" or "I" is matched with and without it
+ *   - 'repeats'     runs of 3+ identical letters shortened to 2 (fuuuuck → fuuck)
+ *
+ * The result is only used for matching; stored content is never changed.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type Transformation =
+  | 'nfkc'
+  | 'zero_width'
+  | 'confusables'
+  | 'diacritics'
+  | 'leet'
+  | 'spacing'
+  | 'repeats';
+
+export interface NormalizedText {
+  text: string;
+  transformations: Transformation[]; // In the order they were applied
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TABLES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ZERO_WIDTH = /[\u00AD\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+
+// Cyrillic and Greek letters that render like Latin ones
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'ѕ': 's', 'і': 'i', 'ї': 'i', 'ј': 'j', 'ԁ': 'd',
+  'ԛ': 'q', 'ԝ': 'w', 'ɡ': 'g', 'ո': 'n',
+  'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P', 'С': 'C',
+  'Т': 'T', 'У': 'Y', 'Х': 'X', 'Ѕ': 'S', 'І': 'I', 'Ј': 'J',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x', 'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M',
+  'Ν': 'N', 'Ο': 'O', 'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X', 'Ζ': 'Z'
+};
+
+const LEET: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l', '+': 't', '€': 'e', '£': 'l'
+};
+
+// Leet characters with letters on both sides; leading and trailing ones are left
+// alone, so quantities and names keep their meaning (5km, 6am, A+, C++, b4)
+const LEET_RUN = /(?<=\p{L})[0-9@$!|+€£]+(?=\p{L})/gu;
+
+// Three or more single letters separated by spaces or punctuation
+const SPACED_LETTERS = /(?<!\p{L})\p{L}(?:[\s.\-_*·~]+\p{L}(?!\p{L})){2,}/gu;
+
+// Single-letter English words that can lead a spaced-out run ("a s e x")
+const SINGLE_LETTER_WORD = /^[aAI]\s/;
+
+const REPEATED_LETTERS = /(\p{L})\1{2,}/gu;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// NORMALISATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Normalise a text for moderation matching and report what changed
+ */
+export function normalizeForModeration(input: string): NormalizedText {
+  const transformations: Transformation[] = [];
+  let text = input;
+
+  const apply = (name: Transformation, transform: (value: string) => string) => {
+    const next = transform(text);
+    if (next !== text) {
+      transformations.push(name);
+      text = next;
+    }
+  };
+
+  apply('nfkc', value => value.normalize('NFKC'));
+  apply('zero_width', value => value.replace(ZERO_WIDTH, ''));
+  apply('confusables', value => {
+    // Cyrillic / Greek that cannot pass for Latin means the text is genuinely in that script
+    const foreignScript = Array.from(value).some(char =>
+      /[\p{Script=Cyrillic}\p{Script=Greek}]/u.test(char) && !CONFUSABLES[char]
+    );
+    return mapWords(value, word => foldConfusables(word, foreignScript));
+  });
+  apply('diacritics', value => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC'));
+  apply('leet', value => value.replace(LEET_RUN, run => Array.from(run).map(char => LEET[char]).join('')));
+  apply('spacing', value => value.replace(SPACED_LETTERS, joinSpacedLetters));
+  apply('repeats', value => value.replace(REPEATED_LETTERS, '$1$1'));
+
+  return { text, transformations };
+}
+
+/**
+ * Apply a transform to each whitespace-separated word, keeping the whitespace
+ */
+function mapWords(text: string, transform: (word: string) => string): string {
+  return text.replace(/\S+/g, transform);
+}
+
+/**
+ * Fold lookalikes in words that mix them with Latin letters, or consist only
+ * of them in a text that is otherwise Latin; Russian or Greek text is left alone
+ */
+function foldConfusables(word: string, foreignScript: boolean): string {
+  const chars = Array.from(word);
+  const letters = chars.filter(char => /\p{L}/u.test(char));
+  const lookalikes = letters.filter(char => CONFUSABLES[char]);
+  if (lookalikes.length === 0) {
+    return word;
+  }
+
+  const hasLatin = letters.some(char => /[A-Za-z]/.test(char));
+  if (!hasLatin && (foreignScript || lookalikes.length !== letters.length)) {
+    return word;
+  }
+  return chars.map(char => CONFUSABLES[char] ?? char).join('');
+}
+
+/**
+ * Join a run of spaced-out letters. When it starts with the word "a" or "I"
+ * and the rest is a run on its own, both readings are kept: "a s e x" →
+ * "asex sex", "a s s h o l e" → "asshole sshole".
+ */
+function joinSpacedLetters(run: string): string {
+  const joined = run.replace(/[^\p{L}]/gu, '');
+  if (!SINGLE_LETTER_WORD.test(run) || joined.length < 4) {
+    return joined;
+  }
+  return `${joined} ${joined.slice(1)}`;
+}
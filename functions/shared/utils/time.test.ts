@@ -0,0 +1,43 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { addDays, addMonths, daysBetween, isValidTimeZone, localDate, startOfLocalDay } from './time.ts';
+
+Deno.test('isValidTimeZone: accepts IANA names only', () => {
+  assertEquals(isValidTimeZone('America/Phoenix'), true);
+  assertEquals(isValidTimeZone('UTC'), true);
+  assertEquals(isValidTimeZone('Mars/Olympus_Mons'), false);
+});
+
+Deno.test('localDate: calendar day depends on the zone', () => {
+  const instant = new Date('2025-03-10T05:30:00Z');
+  assertEquals(localDate(instant), '2025-03-10');
+  assertEquals(localDate(instant, 'America/Los_Angeles'), '2025-03-09');
+  assertEquals(localDate(instant, 'Asia/Kolkata'), '2025-03-10');
+});
+
+Deno.test('daysBetween / addDays: whole calendar days', () => {
+  assertEquals(daysBetween('2024-02-28', '2024-03-01'), 2);
+  assertEquals(daysBetween('2025-01-10', '2025-01-03'), -7);
+  assertEquals(addDays('2024-12-31', 1), '2025-01-01');
+  assertEquals(addDays('2024-03-01', -1), '2024-02-29');
+});
+
+Deno.test('addMonths: clamps to the last day of the target month', () => {
+  assertEquals(addMonths('2024-03-31', -1), '2024-02-29');
+  assertEquals(addMonths('2025-01-31', 1), '2025-02-28');
+  assertEquals(addMonths('2024-11-15', 2), '2025-01-15');
+});
+
+Deno.test('startOfLocalDay: local midnight as an instant', () => {
+  assertEquals(startOfLocalDay('2025-06-01').toISOString(), '2025-06-01T00:00:00.000Z');
+  assertEquals(startOfLocalDay('2025-06-01', 'America/Phoenix').toISOString(), '2025-06-01T07:00:00.000Z');
+  assertEquals(startOfLocalDay('2025-06-01', 'Asia/Kolkata').toISOString(), '2025-05-31T18:30:00.000Z');
+});
+
+Deno.test('startOfLocalDay: handles DST changes', () => {
+  // New York springs forward at 02:00, so midnight still exists (EST, UTC-5)
+  assertEquals(startOfLocalDay('2025-03-09', 'America/New_York').toISOString(), '2025-03-09T05:00:00.000Z');
+  // The day after is on EDT (UTC-4)
+  assertEquals(startOfLocalDay('2025-03-10', 'America/New_York').toISOString(), '2025-03-10T04:00:00.000Z');
+  // Santiago skips midnight when DST starts; the day begins at 01:00 local
+  assertEquals(startOfLocalDay('2024-09-08', 'America/Santiago').toISOString(), '2024-09-08T04:00:00.000Z');
+});
@@ -0,0 +1,105 @@
+/**
+ * Time Zone Utilities
+ *
+ * Helpers for working with a user's local calendar day. Time zones are IANA
+ * names (e.g. "America/Phoenix"); anything Intl does not recognise is
+ * rejected rather than silently treated as UTC.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// VALIDATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LOCAL DATES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant in a time zone
+ */
+export function localDate(instant: Date = new Date(), timeZone: string = DEFAULT_TIME_ZONE): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(instant);
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (positive when `to` is later)
+ */
+export function daysBetween(from: string, to: string): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / msPerDay);
+}
+
+/**
+ * YYYY-MM-DD date shifted by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * YYYY-MM-DD date shifted by a number of months, clamped to the target month's
+ * last day (2024-03-31 - 1 month = 2024-02-29)
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LOCAL WINDOWS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Instant at which a calendar day (YYYY-MM-DD) starts in a time zone
+ */
+export function startOfLocalDay(date: string, timeZone: string = DEFAULT_TIME_ZONE): Date {
+  const utcMidnight = Date.parse(`${date}T00:00:00Z`);
+
+  // Apply the zone's offset, then re-check it in case a DST change is near midnight.
+  // Where midnight is skipped the day starts at the first instant after the jump.
+  const first = utcMidnight - offsetMinutes(new Date(utcMidnight), timeZone) * 60_000;
+  const second = utcMidnight - offsetMinutes(new Date(first), timeZone) * 60_000;
+  return new Date(localDate(new Date(second), timeZone) === date ? second : first);
+}
+
+/**
+ * Minutes the zone is ahead of UTC at an instant (-420 for America/Phoenix)
+ */
+function offsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(instant);
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60_000);
+}
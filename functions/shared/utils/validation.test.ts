@@ -0,0 +1,78 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { validate } from './validation.ts';
+
+const postSchema = {
+  content: { type: 'string', required: true, minLength: 3, maxLength: 20 },
+  scope: { type: 'string', enum: ['city', 'world'], default: 'world' },
+  limit: { type: 'integer', min: 1, max: 50, clamp: true, default: 20 },
+  score: { type: 'number', min: 0, max: 1 },
+  anonymous: { type: 'boolean' },
+  tags: { type: 'string[]', maxLength: 2 }
+} as const;
+
+Deno.test('validate: applies defaults and drops unknown keys', () => {
+  const { value, issues } = validate(postSchema, { content: 'hello', extra: 1 });
+  assertEquals(issues, []);
+  assertEquals(value, { content: 'hello', scope: 'world', limit: 20 });
+});
+
+Deno.test('validate: trims strings before length checks', () => {
+  const { value, issues } = validate(postSchema, { content: '   hello   ' });
+  assertEquals(issues, []);
+  assertEquals(value.content, 'hello');
+
+  const short = validate(postSchema, { content: '  a  ' });
+  assertEquals(short.issues, [{ field: 'content', message: 'content must be at least 3 characters long' }]);
+});
+
+Deno.test('validate: reports missing required fields and empty strings', () => {
+  assertEquals(validate(postSchema, {}).issues, [{ field: 'content', message: 'content is required' }]);
+  assertEquals(validate(postSchema, { content: '' }).issues, [{ field: 'content', message: 'content is required' }]);
+  assertEquals(validate(postSchema, { content: '   ' }).issues, [{ field: 'content', message: 'content is required' }]);
+});
+
+Deno.test('validate: rejects values outside an enum', () => {
+  const { issues } = validate(postSchema, { content: 'hello', scope: 'galaxy' });
+  assertEquals(issues, [{ field: 'scope', message: 'scope must be one of: city, world' }]);
+});
+
+Deno.test('validate: clamps or rejects out-of-range numbers', () => {
+  assertEquals(validate(postSchema, { content: 'hello', limit: 500 }).value.limit, 50);
+  assertEquals(validate(postSchema, { content: 'hello', limit: 0 }).value.limit, 1);
+  assertEquals(
+    validate(postSchema, { content: 'hello', score: 2 }).issues,
+    [{ field: 'score', message: 'score must be at most 1' }]
+  );
+  assertEquals(
+    validate(postSchema, { content: 'hello', limit: 2.5 }).issues,
+    [{ field: 'limit', message: 'limit must be an integer' }]
+  );
+});
+
+Deno.test('validate: checks types without coercion', () => {
+  const { issues } = validate(postSchema, { content: 'hello', limit: '10', anonymous: 'true', tags: 'a,b' });
+  assertEquals(issues.map(issue => issue.field), ['limit', 'anonymous', 'tags']);
+});
+
+Deno.test('validate: coerces query string values', () => {
+  const { value, issues } = validate(
+    postSchema,
+    { content: 'hello', limit: '10', anonymous: '1', tags: 'a, b' },
+    { coerce: true }
+  );
+  assertEquals(issues, []);
+  assertEquals(value.limit, 10);
+  assertEquals(value.anonymous, true);
+  assertEquals(value.tags, ['a', 'b']);
+});
+
+Deno.test('validate: limits array length', () => {
+  const { issues } = validate(postSchema, { content: 'hello', tags: ['a', 'b', 'c'] });
+  assertEquals(issues, [{ field: 'tags', message: 'tags must contain at most 2 items' }]);
+});
+
+Deno.test('validate: uses a custom message when given', () => {
+  const schema = { email: { type: 'string', required: true, message: 'Email please' } } as const;
+  assertEquals(validate(schema, {}).issues, [{ field: 'email', message: 'Email please' }]);
+  assertEquals(validate(schema, { email: 5 }).issues, [{ field: 'email', message: 'Email please' }]);
+});
@@ -0,0 +1,191 @@
+/**
+ * Request Validation for Supabase Edge Functions
+ *
+ * Small declarative schemas for JSON bodies and query strings. Declare a
+ * schema `as const` and `Infer<typeof schema>` gives the validated type.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SCHEMA TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'string[]';
+
+export interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  default?: unknown;
+  enum?: readonly string[];
+  min?: number;        // numbers: minimum value
+  max?: number;        // numbers: maximum value (values above are rejected unless clamp is set)
+  clamp?: boolean;     // numbers: clamp to min/max instead of rejecting
+  minLength?: number;  // strings (after trim) and arrays
+  maxLength?: number;
+  trim?: boolean;      // strings: trim whitespace before checks (default true)
+  message?: string;    // custom error message for this field
+}
+
+export type Schema = Record<string, FieldSpec>;
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+type FieldValue<F extends FieldSpec> =
+  F extends { type: 'string'; enum: readonly (infer E)[] } ? E :
+  F extends { type: 'string' } ? string :
+  F extends { type: 'number' | 'integer' } ? number :
+  F extends { type: 'boolean' } ? boolean :
+  F extends { type: 'string[]' } ? string[] :
+  unknown;
+
+/**
+ * Validated object type for a schema declared `as const`
+ */
+export type Infer<S extends Schema> = {
+  [K in keyof S]: S[K] extends { required: true } | { default: unknown }
+    ? FieldValue<S[K]>
+    : FieldValue<S[K]> | undefined;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// VALIDATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Validate (and coerce, for query strings) an input object against a schema.
+ * Unknown keys are dropped from the returned value.
+ */
+export function validate<S extends Schema>(
+  schema: S,
+  input: Record<string, unknown>,
+  options: { coerce?: boolean } = {}
+): { value: Infer<S>; issues: ValidationIssue[] } {
+  const value: Record<string, unknown> = {};
+  const issues: ValidationIssue[] = [];
+
+  for (const [field, spec] of Object.entries(schema)) {
+    let raw = input?.[field];
+
+    if (options.coerce && raw !== undefined && raw !== null) {
+      raw = coerceValue(raw, spec);
+    }
+
+    // Whitespace-only strings count as missing
+    if (raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '')) {
+      if (spec.default !== undefined) {
+        value[field] = spec.default;
+      } else if (spec.required) {
+        issues.push({ field, message: spec.message || `${field} is required` });
+      }
+      continue;
+    }
+
+    const result = checkField(field, raw, spec);
+    if (result.issue) {
+      issues.push(result.issue);
+    } else {
+      value[field] = result.value;
+    }
+  }
+
+  return { value: value as Infer<S>, issues };
+}
+
+/**
+ * Convert query string values to the schema's type
+ */
+function coerceValue(raw: unknown, spec: FieldSpec): unknown {
+  if (typeof raw !== 'string') {
+    return raw;
+  }
+
+  switch (spec.type) {
+    case 'number':
+    case 'integer': {
+      const parsed = Number(raw);
+      return Number.isNaN(parsed) ? raw : parsed;
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === '1') return true;
+      if (raw === 'false' || raw === '0') return false;
+      return raw;
+    case 'string[]':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Check a single present value against its spec
+ */
+function checkField(
+  field: string,
+  raw: unknown,
+  spec: FieldSpec
+): { value?: unknown; issue?: ValidationIssue } {
+  const fail = (message: string) => ({ issue: { field, message: spec.message || message } });
+
+  switch (spec.type) {
+    case 'string': {
+      if (typeof raw !== 'string') {
+        return fail(`${field} must be a string`);
+      }
+      const str = spec.trim === false ? raw : raw.trim();
+      if (spec.minLength !== undefined && str.length < spec.minLength) {
+        return fail(`${field} must be at least ${spec.minLength} characters long`);
+      }
+      if (spec.maxLength !== undefined && str.length > spec.maxLength) {
+        return fail(`${field} too long (max ${spec.maxLength} characters)`);
+      }
+      if (spec.enum && !spec.enum.includes(str)) {
+        return fail(`${field} must be one of: ${spec.enum.join(', ')}`);
+      }
+      return { value: str };
+    }
+
+    case 'number':
+    case 'integer': {
+      if (typeof raw !== 'number' || Number.isNaN(raw)) {
+        return fail(`${field} must be a number`);
+      }
+      if (spec.type === 'integer' && !Number.isInteger(raw)) {
+        return fail(`${field} must be an integer`);
+      }
+      let num = raw;
+      if (spec.min !== undefined && num < spec.min) {
+        if (!spec.clamp) return fail(`${field} must be at least ${spec.min}`);
+        num = spec.min;
+      }
+      if (spec.max !== undefined && num > spec.max) {
+        if (!spec.clamp) return fail(`${field} must be at most ${spec.max}`);
+        num = spec.max;
+      }
+      return { value: num };
+    }
+
+    case 'boolean':
+      if (typeof raw !== 'boolean') {
+        return fail(`${field} must be a boolean`);
+      }
+      return { value: raw };
+
+    case 'string[]': {
+      if (!Array.isArray(raw) || raw.some(item => typeof item !== 'string')) {
+        return fail(`${field} must be an array of strings`);
+      }
+      if (spec.minLength !== undefined && raw.length < spec.minLength) {
+        return fail(`${field} must contain at least ${spec.minLength} items`);
+      }
+      if (spec.maxLength !== undefined && raw.length > spec.maxLength) {
+        return fail(`${field} must contain at most ${spec.maxLength} items`);
+      }
+      return { value: raw };
+    }
+
+    default:
+      return { value: raw };
+  }
+}
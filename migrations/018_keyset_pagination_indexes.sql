@@ -0,0 +1,21 @@
+-- ============================================================
+-- KEYSET PAGINATION INDEXES
+-- ============================================================
+-- fetch-posts and fetch-dreams page with cursors on
+-- (created_at DESC, id DESC), and (tier, created_at DESC, id DESC) when a
+-- feed is sorted by tier. These indexes match those orderings exactly so
+-- every page is an index range scan regardless of depth.
+
+-- Feed: newest first (approved posts only)
+CREATE INDEX IF NOT EXISTS idx_posts_feed_keyset
+  ON public.posts(created_at DESC, id DESC)
+  WHERE moderation_status = 'approved';
+
+-- Feed: tier first, then newest
+CREATE INDEX IF NOT EXISTS idx_posts_feed_tier_keyset
+  ON public.posts(tier, created_at DESC, id DESC)
+  WHERE moderation_status = 'approved';
+
+-- Dreams: newest first
+CREATE INDEX IF NOT EXISTS idx_dream_posts_keyset
+  ON dream_posts(created_at DESC, id DESC);
@@ -0,0 +1,127 @@
+-- ============================================================
+-- PRECOMPUTED POST RANKINGS
+-- ============================================================
+-- The feed used to recompute match_count / percentile / tier for every post
+-- on every page (one vector search + one count query per post). Rankings are
+-- now computed in the background by the recompute-rankings edge function and
+-- stored here; the feed reads them through the feed_posts view.
+
+-- ============================================================
+-- 1. RANKINGS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.post_rankings (
+  post_id UUID PRIMARY KEY REFERENCES public.posts(id) ON DELETE CASCADE,
+  match_count INTEGER NOT NULL,
+  total_in_scope INTEGER NOT NULL,
+  percentile FLOAT NOT NULL,
+  tier tier_type NOT NULL,
+  display_text TEXT,
+  comparison TEXT,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_rankings_computed_at ON public.post_rankings(computed_at);
+
+ALTER TABLE public.post_rankings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Post rankings are viewable by everyone"
+  ON public.post_rankings FOR SELECT
+  USING (true);
+
+-- ============================================================
+-- 2. FEED VIEW
+-- ============================================================
+-- Approved posts with their latest ranking. Posts that have not been ranked
+-- yet fall back to the values stored when they were created.
+
+CREATE OR REPLACE VIEW public.feed_posts
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.content,
+  p.input_type,
+  p.scope,
+  p.location_city,
+  p.location_state,
+  p.location_country,
+  p.user_id,
+  p.is_anonymous,
+  p.created_at,
+  COALESCE(r.match_count, p.match_count) AS match_count,
+  r.total_in_scope,
+  COALESCE(r.percentile, p.percentile) AS percentile,
+  COALESCE(r.tier, p.tier) AS tier,
+  r.display_text,
+  r.comparison,
+  r.computed_at AS ranked_at
+FROM public.posts p
+LEFT JOIN public.post_rankings r ON r.post_id = p.id
+WHERE p.moderation_status = 'approved';
+
+GRANT SELECT ON public.feed_posts TO anon, authenticated;
+
+-- ============================================================
+-- 3. STALE RANKING SELECTION
+-- ============================================================
+-- Posts with no ranking, or one older than max_age_minutes, oldest first.
+
+CREATE OR REPLACE FUNCTION get_posts_needing_ranking(
+  batch_size int DEFAULT 100,
+  max_age_minutes int DEFAULT 15
+)
+RETURNS TABLE (
+  id uuid,
+  embedding vector(1536),
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  has_negation boolean
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.embedding,
+    p.scope::text,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    COALESCE(p.has_negation, false)
+  FROM public.posts p
+  LEFT JOIN public.post_rankings r ON r.post_id = p.id
+  WHERE p.moderation_status = 'approved'
+    AND p.embedding IS NOT NULL
+    AND (r.post_id IS NULL OR r.computed_at < NOW() - make_interval(mins => max_age_minutes))
+  ORDER BY r.computed_at ASC NULLS FIRST, p.created_at DESC
+  LIMIT batch_size;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_posts_needing_ranking(int, int) TO service_role;
+
+-- ============================================================
+-- 4. SCHEDULE
+-- ============================================================
+-- Calls the recompute-rankings edge function every 5 minutes via pg_net.
+-- Requires the project URL and service role key as database settings:
+--   ALTER DATABASE postgres SET app.settings.supabase_url = 'https://<project>.supabase.co';
+--   ALTER DATABASE postgres SET app.settings.service_role_key = '<service role key>';
+
+SELECT cron.schedule(
+  'recompute-post-rankings',
+  '*/5 * * * *', -- Every 5 minutes
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.settings.supabase_url') || '/functions/v1/recompute-rankings',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,65 @@
+-- ============================================================
+-- FEED TIER RANK: Server-side tier filtering and rarity ordering
+-- ============================================================
+-- ORDER BY tier sorts by tier_type declaration order, which no longer matches
+-- rarity since 'beloved' was appended in 015. tier_rank gives the feed an
+-- explicit elite-first order and a numeric column to keyset-paginate on.
+
+-- ============================================================
+-- 1. TIER RANK FUNCTION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION tier_rank(t tier_type)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE t
+    WHEN 'elite' THEN 1
+    WHEN 'rare' THEN 2
+    WHEN 'unique' THEN 3
+    WHEN 'notable' THEN 4
+    WHEN 'beloved' THEN 5
+    WHEN 'common' THEN 5 -- Legacy name for beloved (see 016)
+    WHEN 'popular' THEN 6
+    ELSE 7
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION tier_rank(tier_type) TO anon, authenticated, service_role;
+
+-- ============================================================
+-- 2. FEED VIEW
+-- ============================================================
+-- Same columns as 019 plus tier_rank (new columns must be appended).
+
+CREATE OR REPLACE VIEW public.feed_posts
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.content,
+  p.input_type,
+  p.scope,
+  p.location_city,
+  p.location_state,
+  p.location_country,
+  p.user_id,
+  p.is_anonymous,
+  p.created_at,
+  COALESCE(r.match_count, p.match_count) AS match_count,
+  r.total_in_scope,
+  COALESCE(r.percentile, p.percentile) AS percentile,
+  COALESCE(r.tier, p.tier) AS tier,
+  r.display_text,
+  r.comparison,
+  r.computed_at AS ranked_at,
+  tier_rank(COALESCE(r.tier, p.tier)) AS tier_rank
+FROM public.posts p
+LEFT JOIN public.post_rankings r ON r.post_id = p.id
+WHERE p.moderation_status = 'approved';
+
+-- ============================================================
+-- 3. INDEXES
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_post_rankings_tier ON public.post_rankings(tier);
@@ -0,0 +1,116 @@
+-- ============================================================
+-- POST REACTIONS API
+-- ============================================================
+-- Backs the react-to-post edge function and reaction-aware feeds:
+-- an atomic add/remove/toggle for one (post, user, reaction type), and
+-- reaction counts exposed on feed_posts for filtering and sorting.
+
+-- ============================================================
+-- 1. SET REACTION
+-- ============================================================
+-- p_action: 'toggle' (default), 'add' or 'remove'. Adding an existing
+-- reaction or removing a missing one is a no-op, so retries are safe.
+-- post_reaction_counts is maintained by trigger_update_reaction_counts (001).
+
+CREATE OR REPLACE FUNCTION set_post_reaction(
+  p_post_id uuid,
+  p_user_id uuid,
+  p_reaction_type reaction_type,
+  p_action text DEFAULT 'toggle'
+)
+RETURNS TABLE (
+  reacted boolean,
+  funny_count int,
+  creative_count int,
+  must_try_count int,
+  total_count int
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_removed int := 0;
+  v_reacted boolean;
+BEGIN
+  IF p_action NOT IN ('toggle', 'add', 'remove') THEN
+    RAISE EXCEPTION 'Invalid reaction action: %', p_action USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = p_post_id AND p.moderation_status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_action IN ('toggle', 'remove') THEN
+    DELETE FROM public.reactions r
+    WHERE r.post_id = p_post_id
+      AND r.user_id = p_user_id
+      AND r.reaction_type = p_reaction_type;
+    GET DIAGNOSTICS v_removed = ROW_COUNT;
+  END IF;
+
+  IF p_action = 'add' OR (p_action = 'toggle' AND v_removed = 0) THEN
+    INSERT INTO public.reactions (post_id, user_id, reaction_type)
+    VALUES (p_post_id, p_user_id, p_reaction_type)
+    ON CONFLICT (post_id, user_id, reaction_type) DO NOTHING;
+    v_reacted := true;
+  ELSE
+    v_reacted := false;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v_reacted,
+    COALESCE(c.funny_count, 0),
+    COALESCE(c.creative_count, 0),
+    COALESCE(c.must_try_count, 0),
+    COALESCE(c.total_count, 0)
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.post_reaction_counts c ON c.post_id = p_post_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_post_reaction(uuid, uuid, reaction_type, text) TO service_role;
+
+-- ============================================================
+-- 2. FEED VIEW
+-- ============================================================
+-- Same columns as 020 plus reaction counts (new columns must be appended).
+
+CREATE OR REPLACE VIEW public.feed_posts
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.content,
+  p.input_type,
+  p.scope,
+  p.location_city,
+  p.location_state,
+  p.location_country,
+  p.user_id,
+  p.is_anonymous,
+  p.created_at,
+  COALESCE(r.match_count, p.match_count) AS match_count,
+  r.total_in_scope,
+  COALESCE(r.percentile, p.percentile) AS percentile,
+  COALESCE(r.tier, p.tier) AS tier,
+  r.display_text,
+  r.comparison,
+  r.computed_at AS ranked_at,
+  tier_rank(COALESCE(r.tier, p.tier)) AS tier_rank,
+  COALESCE(c.funny_count, 0) AS funny_count,
+  COALESCE(c.creative_count, 0) AS creative_count,
+  COALESCE(c.must_try_count, 0) AS must_try_count,
+  COALESCE(c.total_count, 0) AS total_reactions
+FROM public.posts p
+LEFT JOIN public.post_rankings r ON r.post_id = p.id
+LEFT JOIN public.post_reaction_counts c ON c.post_id = p.id
+WHERE p.moderation_status = 'approved';
+
+-- ============================================================
+-- 3. INDEXES
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_post_reaction_counts_total
+  ON public.post_reaction_counts(total_count DESC);
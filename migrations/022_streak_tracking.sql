@@ -0,0 +1,176 @@
+-- ============================================================
+-- STREAK TRACKING
+-- ============================================================
+-- user_streaks (001) is now maintained on every post by StreakService.
+-- Days are the user's local calendar days; missed days are covered by
+-- streak freezes, which refill at the start of each local month.
+
+-- ============================================================
+-- 1. STREAK COLUMNS
+-- ============================================================
+
+ALTER TABLE public.user_streaks ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+ALTER TABLE public.user_streaks ADD COLUMN IF NOT EXISTS freezes_available INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.user_streaks ADD COLUMN IF NOT EXISTS freezes_reset_on DATE;
+ALTER TABLE public.user_streaks ADD COLUMN IF NOT EXISTS freezes_used_total INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.user_streaks.last_post_date IS 'Local calendar day (in timezone) of the latest post';
+COMMENT ON COLUMN public.user_streaks.freezes_available IS 'Missed days that can still be covered this month';
+COMMENT ON COLUMN public.user_streaks.freezes_reset_on IS 'First day of the month freezes were last refilled for';
+
+-- RLS is enabled in 001 without policies; streaks are public like reactions
+CREATE POLICY "Streaks are viewable by everyone"
+  ON public.user_streaks FOR SELECT
+  USING (true);
+
+-- ============================================================
+-- 2. RECORD A POST
+-- ============================================================
+-- Called once per created post. The row is locked so concurrent posts from
+-- the same user cannot both extend the streak.
+
+CREATE OR REPLACE FUNCTION record_streak_post(
+  p_user_id uuid,
+  p_local_date date,
+  p_timezone text DEFAULT 'UTC',
+  p_tier tier_type DEFAULT NULL,
+  p_freezes_per_month int DEFAULT 2
+)
+RETURNS TABLE (
+  current_streak int,
+  longest_streak int,
+  last_post_date date,
+  total_posts int,
+  freezes_available int,
+  freezes_used int,
+  streak_extended boolean
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  s public.user_streaks%ROWTYPE;
+  v_month date := date_trunc('month', p_local_date)::date;
+  v_freezes int;
+  v_reset date;
+  v_gap int;
+  v_used int := 0;
+  v_streak int;
+  v_last date;
+  v_extended boolean := false;
+BEGIN
+  INSERT INTO public.user_streaks (user_id, timezone, freezes_available, freezes_reset_on)
+  VALUES (p_user_id, p_timezone, p_freezes_per_month, v_month)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO s FROM public.user_streaks us WHERE us.user_id = p_user_id FOR UPDATE;
+
+  -- Refill freezes once per month
+  IF s.freezes_reset_on IS NULL OR s.freezes_reset_on < v_month THEN
+    v_freezes := p_freezes_per_month;
+    v_reset := v_month;
+  ELSE
+    v_freezes := s.freezes_available;
+    v_reset := s.freezes_reset_on;
+  END IF;
+
+  IF s.last_post_date IS NULL THEN
+    v_streak := 1;
+    v_last := p_local_date;
+    v_extended := true;
+  ELSE
+    v_gap := p_local_date - s.last_post_date;
+
+    IF v_gap <= 0 THEN
+      -- Same day (or an earlier day after a time zone change): nothing to extend
+      v_streak := GREATEST(s.current_streak, 1);
+      v_last := s.last_post_date;
+    ELSIF v_gap - 1 <= v_freezes THEN
+      -- Next day, or the missed days are covered by freezes
+      v_used := v_gap - 1;
+      v_freezes := v_freezes - v_used;
+      v_streak := s.current_streak + 1;
+      v_last := p_local_date;
+      v_extended := true;
+    ELSE
+      -- Streak broken: today starts a new one
+      v_streak := 1;
+      v_last := p_local_date;
+      v_extended := true;
+    END IF;
+  END IF;
+
+  UPDATE public.user_streaks us SET
+    current_streak = v_streak,
+    longest_streak = GREATEST(us.longest_streak, v_streak),
+    last_post_date = v_last,
+    total_posts = us.total_posts + 1,
+    elite_posts = us.elite_posts + CASE WHEN p_tier = 'elite' THEN 1 ELSE 0 END,
+    rare_posts = us.rare_posts + CASE WHEN p_tier = 'rare' THEN 1 ELSE 0 END,
+    timezone = p_timezone,
+    freezes_available = v_freezes,
+    freezes_reset_on = v_reset,
+    freezes_used_total = us.freezes_used_total + v_used,
+    updated_at = NOW()
+  WHERE us.user_id = p_user_id;
+
+  RETURN QUERY
+  SELECT
+    us.current_streak,
+    us.longest_streak,
+    us.last_post_date,
+    us.total_posts,
+    us.freezes_available,
+    v_used,
+    v_extended
+  FROM public.user_streaks us
+  WHERE us.user_id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_streak_post(uuid, date, text, tier_type, int) TO service_role;
+
+-- ============================================================
+-- 3. LEADERBOARD
+-- ============================================================
+-- 'current': streaks still alive in each user's own time zone (the last post
+-- was today or yesterday, or the gap since is covered by remaining freezes),
+-- walked in idx_streaks_current order. 'longest': all-time best streaks.
+
+CREATE OR REPLACE FUNCTION get_streak_leaderboard(
+  board text DEFAULT 'current',
+  result_limit int DEFAULT 10
+)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  avatar_url text,
+  current_streak int,
+  longest_streak int,
+  last_post_date date
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF board = 'longest' THEN
+    RETURN QUERY
+    SELECT s.user_id, p.username, p.avatar_url, s.current_streak, s.longest_streak, s.last_post_date
+    FROM public.user_streaks s
+    LEFT JOIN public.profiles p ON p.id = s.user_id
+    WHERE s.longest_streak > 0
+    ORDER BY s.longest_streak DESC, s.user_id
+    LIMIT result_limit;
+  ELSE
+    RETURN QUERY
+    SELECT s.user_id, p.username, p.avatar_url, s.current_streak, s.longest_streak, s.last_post_date
+    FROM public.user_streaks s
+    LEFT JOIN public.profiles p ON p.id = s.user_id
+    WHERE s.current_streak > 0
+      AND (NOW() AT TIME ZONE s.timezone)::date - s.last_post_date <= 1 + s.freezes_available
+    ORDER BY s.current_streak DESC, s.user_id
+    LIMIT result_limit;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_streak_leaderboard(text, int) TO anon, authenticated, service_role;
@@ -0,0 +1,219 @@
+-- ============================================================
+-- EMBEDDING MODEL TAGS
+-- ============================================================
+-- Embeddings now come from a configurable provider (EMBEDDING_PROVIDER).
+-- Each stored vector is tagged "<provider>:<model>:<dimensions>" and vector
+-- search only compares vectors with the caller's tag, so switching providers
+-- never mixes incompatible vector spaces.
+
+-- ============================================================
+-- 1. TAG COLUMNS
+-- ============================================================
+
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE public.dream_posts ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+COMMENT ON COLUMN public.posts.embedding_model IS 'Provider/model/dimension tag of embedding, e.g. openai:text-embedding-3-small:1536';
+COMMENT ON COLUMN public.dream_posts.embedding_model IS 'Provider/model/dimension tag of the dream embeddings';
+
+-- Vectors written by the removed hash fallback have no negative component
+-- (OpenAI vectors always do); they get their own tag so they are never
+-- compared with real embeddings and a backfill re-embeds them.
+UPDATE public.posts
+SET embedding_model = 'legacy:hash-fallback:1536'
+WHERE embedding IS NOT NULL AND embedding_model IS NULL
+  AND NOT EXISTS (SELECT 1 FROM unnest(embedding::real[]) AS c WHERE c < 0);
+
+UPDATE public.dream_posts
+SET embedding_model = 'legacy:hash-fallback:1536'
+WHERE combined_embedding IS NOT NULL AND embedding_model IS NULL
+  AND ((content_embedding IS NOT NULL AND NOT EXISTS (SELECT 1 FROM unnest(content_embedding::real[]) AS c WHERE c < 0))
+    OR (symbol_embedding IS NOT NULL AND NOT EXISTS (SELECT 1 FROM unnest(symbol_embedding::real[]) AS c WHERE c < 0))
+    OR (emotion_embedding IS NOT NULL AND NOT EXISTS (SELECT 1 FROM unnest(emotion_embedding::real[]) AS c WHERE c < 0)));
+
+-- Everything else embedded so far came from OpenAI text-embedding-3-small (004)
+UPDATE public.posts
+SET embedding_model = 'openai:text-embedding-3-small:1536'
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+UPDATE public.dream_posts
+SET embedding_model = 'openai:text-embedding-3-small:1536'
+WHERE combined_embedding IS NOT NULL AND embedding_model IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_posts_embedding_model ON public.posts(embedding_model);
+CREATE INDEX IF NOT EXISTS idx_dream_posts_embedding_model ON public.dream_posts(embedding_model);
+
+-- ============================================================
+-- 2. POST MATCHING
+-- ============================================================
+-- Same as 017 plus query_embedding_model. NULL keeps the old behaviour
+-- (no tag filter) for callers that have not been updated.
+
+DROP FUNCTION IF EXISTS match_posts_by_embedding(vector(1536), float, int, text, text, text, text, boolean, boolean);
+
+CREATE OR REPLACE FUNCTION match_posts_by_embedding(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.5,
+  match_limit int DEFAULT 10,
+  scope_filter text DEFAULT 'world',
+  filter_city text DEFAULT NULL,
+  filter_state text DEFAULT NULL,
+  filter_country text DEFAULT NULL,
+  today_only boolean DEFAULT false,
+  query_has_negation boolean DEFAULT false,
+  query_embedding_model text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  input_type post_type,
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  percentile float,
+  tier text,
+  created_at timestamptz,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    p.id,
+    p.content,
+    p.input_type,
+    p.scope::text as scope,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    p.percentile,
+    p.tier::text as tier,
+    p.created_at,
+    1 - (p.embedding <=> query_embedding) as similarity
+  FROM posts p
+  WHERE 
+    p.moderation_status = 'approved'
+    AND (query_embedding_model IS NULL OR p.embedding_model = query_embedding_model)
+    AND (1 - (p.embedding <=> query_embedding)) > match_threshold
+    AND (
+      CASE scope_filter
+        WHEN 'city' THEN p.scope = 'city' AND p.location_city = filter_city
+        WHEN 'state' THEN p.scope IN ('city', 'state') AND p.location_state = filter_state
+        WHEN 'country' THEN p.scope IN ('city', 'state', 'country') AND p.location_country = filter_country
+        WHEN 'world' THEN true
+        ELSE true
+      END
+    )
+    AND (
+      CASE 
+        WHEN today_only THEN p.created_at >= CURRENT_DATE
+        ELSE true
+      END
+    )
+    AND (
+      CASE 
+        WHEN query_has_negation THEN p.has_negation = true
+        ELSE true
+      END
+    )
+  ORDER BY p.embedding <=> query_embedding
+  LIMIT match_limit;
+END;
+$$;
+
+-- ============================================================
+-- 3. DREAM MATCHING
+-- ============================================================
+
+DROP FUNCTION IF EXISTS match_dreams_by_embedding(vector, float, int, dream_type, scope_type);
+
+CREATE OR REPLACE FUNCTION match_dreams_by_embedding(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10,
+  dream_type_filter dream_type DEFAULT NULL,
+  scope_filter scope_type DEFAULT NULL,
+  query_embedding_model text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  dream_type dream_type,
+  emotions dream_emotion[],
+  symbols dream_symbol[],
+  clarity integer,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    dp.id,
+    dp.content,
+    dp.dream_type,
+    dp.emotions,
+    dp.symbols,
+    dp.clarity,
+    1 - (dp.combined_embedding <=> query_embedding) as similarity
+  FROM dream_posts dp
+  WHERE 
+    dp.combined_embedding IS NOT NULL
+    AND (query_embedding_model IS NULL OR dp.embedding_model = query_embedding_model)
+    AND 1 - (dp.combined_embedding <=> query_embedding) > match_threshold
+    AND (dream_type_filter IS NULL OR dp.dream_type = dream_type_filter)
+    AND (scope_filter IS NULL OR dp.scope = scope_filter)
+  ORDER BY dp.combined_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_dreams_by_embedding(vector, float, int, dream_type, scope_type, text) TO authenticated;
+
+-- ============================================================
+-- 4. RANKING SELECTION
+-- ============================================================
+-- Same as 019 plus embedding_model, so rankings compare like with like.
+
+DROP FUNCTION IF EXISTS get_posts_needing_ranking(int, int);
+
+CREATE OR REPLACE FUNCTION get_posts_needing_ranking(
+  batch_size int DEFAULT 100,
+  max_age_minutes int DEFAULT 15
+)
+RETURNS TABLE (
+  id uuid,
+  embedding vector(1536),
+  embedding_model text,
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  has_negation boolean
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.embedding,
+    p.embedding_model,
+    p.scope::text,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    COALESCE(p.has_negation, false)
+  FROM public.posts p
+  LEFT JOIN public.post_rankings r ON r.post_id = p.id
+  WHERE p.moderation_status = 'approved'
+    AND p.embedding IS NOT NULL
+    AND (r.post_id IS NULL OR r.computed_at < NOW() - make_interval(mins => max_age_minutes))
+  ORDER BY r.computed_at ASC NULLS FIRST, p.created_at DESC
+  LIMIT batch_size;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_posts_needing_ranking(int, int) TO service_role;
@@ -0,0 +1,131 @@
+-- ============================================================
+-- EMBEDDING CACHE
+-- ============================================================
+-- Content-addressed store of embeddings keyed by model tag + sha256 of the
+-- normalized text. Redis holds hot entries (CacheKeys.embedding); this table
+-- is the durable layer behind it. Daily hit/miss counters per model feed the
+-- embedding_cache_hit_rate view.
+
+-- ============================================================
+-- 1. CACHE TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.embedding_cache (
+  model TEXT NOT NULL,                 -- Tag from embeddingModelTag, e.g. openai:text-embedding-3-small:1536
+  text_hash TEXT NOT NULL,             -- sha256 hex of the normalized text
+  embedding vector(1536) NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (model, text_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used ON public.embedding_cache(last_used_at);
+
+-- Service role only
+ALTER TABLE public.embedding_cache ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 2. METRICS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.embedding_cache_metrics (
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  model TEXT NOT NULL,
+  redis_hits INTEGER NOT NULL DEFAULT 0,
+  db_hits INTEGER NOT NULL DEFAULT 0,
+  misses INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (day, model)
+);
+
+ALTER TABLE public.embedding_cache_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE VIEW public.embedding_cache_hit_rate AS
+SELECT
+  day,
+  model,
+  redis_hits,
+  db_hits,
+  misses,
+  redis_hits + db_hits + misses AS lookups,
+  ROUND(
+    (redis_hits + db_hits)::numeric / NULLIF(redis_hits + db_hits + misses, 0) * 100,
+    2
+  ) AS hit_rate_percent
+FROM public.embedding_cache_metrics
+ORDER BY day DESC, model;
+
+REVOKE ALL ON public.embedding_cache_hit_rate FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_embedding_cache_metrics(
+  p_model text,
+  p_redis_hits int DEFAULT 0,
+  p_db_hits int DEFAULT 0,
+  p_misses int DEFAULT 0
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO public.embedding_cache_metrics (day, model, redis_hits, db_hits, misses)
+  VALUES (CURRENT_DATE, p_model, p_redis_hits, p_db_hits, p_misses)
+  ON CONFLICT (day, model) DO UPDATE SET
+    redis_hits = embedding_cache_metrics.redis_hits + EXCLUDED.redis_hits,
+    db_hits = embedding_cache_metrics.db_hits + EXCLUDED.db_hits,
+    misses = embedding_cache_metrics.misses + EXCLUDED.misses;
+$$;
+
+-- ============================================================
+-- 3. LOOKUP
+-- ============================================================
+-- Returns the cached rows for the given hashes, marks them used, and records
+-- this lookup's metrics (p_redis_hits are lookups Redis already answered).
+
+CREATE OR REPLACE FUNCTION lookup_embedding_cache(
+  p_model text,
+  p_text_hashes text[],
+  p_redis_hits int DEFAULT 0
+)
+RETURNS TABLE (
+  text_hash text,
+  embedding vector(1536)
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_found int;
+BEGIN
+  RETURN QUERY
+  UPDATE public.embedding_cache c
+  SET hit_count = c.hit_count + 1,
+      last_used_at = NOW()
+  WHERE c.model = p_model
+    AND c.text_hash = ANY(p_text_hashes)
+  RETURNING c.text_hash, c.embedding;
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+
+  PERFORM record_embedding_cache_metrics(
+    p_model,
+    p_redis_hits,
+    v_found,
+    COALESCE(array_length(p_text_hashes, 1), 0) - v_found
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION lookup_embedding_cache(text, text[], int) TO service_role;
+GRANT EXECUTE ON FUNCTION record_embedding_cache_metrics(text, int, int, int) TO service_role;
+
+-- ============================================================
+-- 4. CLEANUP
+-- ============================================================
+-- Drop entries unused for 90 days, daily at 03:30 UTC.
+
+SELECT cron.schedule(
+  'cleanup-embedding-cache',
+  '30 3 * * *',
+  $$
+  DELETE FROM public.embedding_cache
+  WHERE last_used_at < NOW() - INTERVAL '90 days'
+  $$
+);
@@ -0,0 +1,115 @@
+-- ============================================================
+-- DREAM VOCABULARY EMBEDDINGS
+-- ============================================================
+-- Each dream_symbols / dream_emotions row keeps the embedding of its name,
+-- tagged with the model that produced it. A dream's symbol and emotion
+-- embeddings are the mean of its rows' vectors, so per request only the
+-- dream content (plus any names without a vector for the current model)
+-- has to be embedded.
+
+-- ============================================================
+-- 1. VECTOR COLUMNS
+-- ============================================================
+
+ALTER TABLE public.dream_symbols ADD COLUMN IF NOT EXISTS embedding vector(1536);
+ALTER TABLE public.dream_symbols ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE public.dream_emotions ADD COLUMN IF NOT EXISTS embedding vector(1536);
+ALTER TABLE public.dream_emotions ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+COMMENT ON COLUMN public.dream_symbols.embedding IS 'Embedding of name, reused for every dream with this symbol';
+COMMENT ON COLUMN public.dream_symbols.embedding_model IS 'Provider/model/dimension tag of embedding';
+COMMENT ON COLUMN public.dream_emotions.embedding IS 'Embedding of name, reused for every dream with this emotion';
+COMMENT ON COLUMN public.dream_emotions.embedding_model IS 'Provider/model/dimension tag of embedding';
+
+-- Vocabulary lookups are by name + model tag
+CREATE INDEX IF NOT EXISTS idx_dream_symbols_name_model ON public.dream_symbols(name, embedding_model);
+CREATE INDEX IF NOT EXISTS idx_dream_emotions_name_model ON public.dream_emotions(name, embedding_model);
+
+-- ============================================================
+-- 2. GET OR CREATE WITH EMBEDDING
+-- ============================================================
+-- Same as 010, plus an optional vector to store on the row. Existing rows
+-- only take it when they have no vector for that model yet. Rows without
+-- a vector are filled the next time a dream uses them.
+
+DROP FUNCTION IF EXISTS get_or_create_symbol(TEXT, TEXT);
+DROP FUNCTION IF EXISTS get_or_create_emotion(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_or_create_symbol(
+  symbol_name TEXT,
+  symbol_category TEXT DEFAULT 'general',
+  symbol_embedding vector(1536) DEFAULT NULL,
+  symbol_embedding_model TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  symbol_id UUID;
+BEGIN
+  -- Try to find existing symbol
+  SELECT id INTO symbol_id FROM dream_symbols WHERE name = symbol_name;
+
+  IF symbol_id IS NULL THEN
+    -- Create new symbol
+    INSERT INTO dream_symbols (name, category, embedding, embedding_model)
+    VALUES (symbol_name, symbol_category, symbol_embedding, symbol_embedding_model)
+    RETURNING id INTO symbol_id;
+  ELSE
+    -- Update frequency (and the vector when it is missing for this model)
+    UPDATE dream_symbols SET
+      frequency = frequency + 1,
+      embedding = CASE
+        WHEN symbol_embedding IS NOT NULL
+         AND (embedding IS NULL OR embedding_model IS DISTINCT FROM symbol_embedding_model)
+        THEN symbol_embedding ELSE embedding END,
+      embedding_model = CASE
+        WHEN symbol_embedding IS NOT NULL
+         AND (embedding IS NULL OR embedding_model IS DISTINCT FROM symbol_embedding_model)
+        THEN symbol_embedding_model ELSE embedding_model END,
+      updated_at = NOW()
+    WHERE id = symbol_id;
+  END IF;
+
+  RETURN symbol_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_or_create_emotion(
+  emotion_name TEXT,
+  intensity INTEGER DEFAULT 5,
+  emotion_embedding vector(1536) DEFAULT NULL,
+  emotion_embedding_model TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  emotion_id UUID;
+BEGIN
+  -- Try to find existing emotion
+  SELECT id INTO emotion_id FROM dream_emotions WHERE name = emotion_name;
+
+  IF emotion_id IS NULL THEN
+    -- Create new emotion
+    INSERT INTO dream_emotions (name, intensity_level, embedding, embedding_model)
+    VALUES (emotion_name, intensity, emotion_embedding, emotion_embedding_model)
+    RETURNING id INTO emotion_id;
+  ELSE
+    -- Update frequency (and the vector when it is missing for this model)
+    UPDATE dream_emotions SET
+      frequency = frequency + 1,
+      embedding = CASE
+        WHEN emotion_embedding IS NOT NULL
+         AND (embedding IS NULL OR embedding_model IS DISTINCT FROM emotion_embedding_model)
+        THEN emotion_embedding ELSE embedding END,
+      embedding_model = CASE
+        WHEN emotion_embedding IS NOT NULL
+         AND (embedding IS NULL OR embedding_model IS DISTINCT FROM emotion_embedding_model)
+        THEN emotion_embedding_model ELSE embedding_model END,
+      updated_at = NOW()
+    WHERE id = emotion_id;
+  END IF;
+
+  RETURN emotion_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_or_create_symbol(TEXT, TEXT, vector, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_or_create_emotion(TEXT, INTEGER, vector, TEXT) TO authenticated;
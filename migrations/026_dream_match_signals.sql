@@ -0,0 +1,65 @@
+-- ============================================================
+-- DREAM MATCH SIGNALS
+-- ============================================================
+-- DreamEmbeddingService.findSimilarDreams fuses content similarity with
+-- symbol and emotion overlap (from dream_post_symbols / dream_post_emotions).
+-- match_dreams_by_embedding now also returns the content-only similarity
+-- so candidates don't have to be re-scored client side.
+
+-- ============================================================
+-- 1. DREAM MATCHING
+-- ============================================================
+-- Same as 023 plus query_content_embedding / content_similarity.
+-- Without a content embedding, content_similarity is the combined similarity.
+
+DROP FUNCTION IF EXISTS match_dreams_by_embedding(vector, float, int, dream_type, scope_type, text);
+
+CREATE OR REPLACE FUNCTION match_dreams_by_embedding(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10,
+  dream_type_filter dream_type DEFAULT NULL,
+  scope_filter scope_type DEFAULT NULL,
+  query_embedding_model text DEFAULT NULL,
+  query_content_embedding vector(1536) DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  dream_type dream_type,
+  emotions dream_emotion[],
+  symbols dream_symbol[],
+  clarity integer,
+  similarity float,
+  content_similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    dp.id,
+    dp.content,
+    dp.dream_type,
+    dp.emotions,
+    dp.symbols,
+    dp.clarity,
+    1 - (dp.combined_embedding <=> query_embedding) as similarity,
+    CASE
+      WHEN query_content_embedding IS NOT NULL AND dp.content_embedding IS NOT NULL
+      THEN 1 - (dp.content_embedding <=> query_content_embedding)
+      ELSE 1 - (dp.combined_embedding <=> query_embedding)
+    END as content_similarity
+  FROM dream_posts dp
+  WHERE 
+    dp.combined_embedding IS NOT NULL
+    AND (query_embedding_model IS NULL OR dp.embedding_model = query_embedding_model)
+    AND 1 - (dp.combined_embedding <=> query_embedding) > match_threshold
+    AND (dream_type_filter IS NULL OR dp.dream_type = dream_type_filter)
+    AND (scope_filter IS NULL OR dp.scope = scope_filter)
+  ORDER BY dp.combined_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_dreams_by_embedding(vector, float, int, dream_type, scope_type, text, vector) TO authenticated;
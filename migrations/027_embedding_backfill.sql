@@ -0,0 +1,416 @@
+-- ============================================================
+-- EMBEDDING BACKFILL
+-- ============================================================
+-- Re-embeds existing posts and dream posts with a new model without taking
+-- search offline:
+--   1. backfill-embeddings writes new vectors into shadow (*_next) columns,
+--      batch by batch, tracking progress in embedding_backfill_jobs
+--   2. once every row has a shadow vector for the target model, one
+--      transaction swaps shadow and live columns (cutover_embedding_backfill)
+--   3. the live app switches EMBEDDING_PROVIDER / _MODEL to the target
+--
+-- Search RPCs pick the live or the shadow column per row by the caller's
+-- model tag, so both the old and the new model can search at every step.
+
+-- ============================================================
+-- 1. SHADOW COLUMNS
+-- ============================================================
+
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS embedding_next vector(1536);
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS embedding_next_model TEXT;
+
+ALTER TABLE public.dream_posts ADD COLUMN IF NOT EXISTS content_embedding_next vector(1536);
+ALTER TABLE public.dream_posts ADD COLUMN IF NOT EXISTS symbol_embedding_next vector(1536);
+ALTER TABLE public.dream_posts ADD COLUMN IF NOT EXISTS emotion_embedding_next vector(1536);
+ALTER TABLE public.dream_posts ADD COLUMN IF NOT EXISTS combined_embedding_next vector(1536);
+ALTER TABLE public.dream_posts ADD COLUMN IF NOT EXISTS embedding_next_model TEXT;
+
+COMMENT ON COLUMN public.posts.embedding_next IS 'Backfilled embedding for embedding_next_model; after cutover, the previous live vector';
+COMMENT ON COLUMN public.dream_posts.combined_embedding_next IS 'Backfilled combined embedding for embedding_next_model; after cutover, the previous live vector';
+
+CREATE INDEX IF NOT EXISTS idx_posts_embedding_next_model ON public.posts(embedding_next_model);
+CREATE INDEX IF NOT EXISTS idx_dream_posts_embedding_next_model ON public.dream_posts(embedding_next_model);
+
+-- ============================================================
+-- 2. JOBS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.embedding_backfill_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  target_model TEXT NOT NULL,          -- Tag from embeddingModelTag
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'ready', 'completed', 'cancelled')),
+  phase TEXT NOT NULL DEFAULT 'posts' CHECK (phase IN ('posts', 'dreams')),
+  posts_cursor UUID,                   -- Last post id handled in this pass
+  dreams_cursor UUID,                  -- Last dream post id handled in this pass
+  passes INTEGER NOT NULL DEFAULT 1,   -- A new pass retries rows that failed or were added meanwhile
+  embedded_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- At most one job in flight
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_backfill_jobs_active
+  ON public.embedding_backfill_jobs((true))
+  WHERE status IN ('running', 'ready');
+
+-- Service role only
+ALTER TABLE public.embedding_backfill_jobs ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 3. BATCH SELECTION
+-- ============================================================
+-- Rows with a vector that is neither live nor shadowed for the target model,
+-- in id order after a cursor
+
+CREATE OR REPLACE FUNCTION get_posts_needing_reembedding(
+  p_target_model text,
+  p_after uuid DEFAULT NULL,
+  p_limit int DEFAULT 100
+)
+RETURNS TABLE (
+  id uuid,
+  content text
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT p.id, p.content
+  FROM public.posts p
+  WHERE p.embedding IS NOT NULL
+    AND p.embedding_model IS DISTINCT FROM p_target_model
+    AND p.embedding_next_model IS DISTINCT FROM p_target_model
+    AND (p_after IS NULL OR p.id > p_after)
+  ORDER BY p.id
+  LIMIT p_limit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_dreams_needing_reembedding(
+  p_target_model text,
+  p_after uuid DEFAULT NULL,
+  p_limit int DEFAULT 100
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  dream_type text,
+  scope text,
+  symbols text[],
+  emotions text[]
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dp.id,
+    dp.content,
+    dp.dream_type::text,
+    dp.scope::text,
+    COALESCE((
+      SELECT array_agg(ds.name)
+      FROM public.dream_post_symbols dps
+      JOIN public.dream_symbols ds ON ds.id = dps.symbol_id
+      WHERE dps.dream_post_id = dp.id
+    ), '{}'),
+    COALESCE((
+      SELECT array_agg(de.name)
+      FROM public.dream_post_emotions dpe
+      JOIN public.dream_emotions de ON de.id = dpe.emotion_id
+      WHERE dpe.dream_post_id = dp.id
+    ), '{}')
+  FROM public.dream_posts dp
+  WHERE dp.combined_embedding IS NOT NULL
+    AND dp.embedding_model IS DISTINCT FROM p_target_model
+    AND dp.embedding_next_model IS DISTINCT FROM p_target_model
+    AND (p_after IS NULL OR dp.id > p_after)
+  ORDER BY dp.id
+  LIMIT p_limit;
+END;
+$$;
+
+-- ============================================================
+-- 4. COVERAGE
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION embedding_backfill_coverage(p_target_model text)
+RETURNS TABLE (
+  posts_total bigint,
+  posts_remaining bigint,
+  dreams_total bigint,
+  dreams_remaining bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (SELECT COUNT(*) FROM public.posts WHERE embedding IS NOT NULL),
+    (SELECT COUNT(*) FROM public.posts
+      WHERE embedding IS NOT NULL
+        AND embedding_model IS DISTINCT FROM p_target_model
+        AND embedding_next_model IS DISTINCT FROM p_target_model),
+    (SELECT COUNT(*) FROM public.dream_posts WHERE combined_embedding IS NOT NULL),
+    (SELECT COUNT(*) FROM public.dream_posts
+      WHERE combined_embedding IS NOT NULL
+        AND embedding_model IS DISTINCT FROM p_target_model
+        AND embedding_next_model IS DISTINCT FROM p_target_model);
+$$;
+
+-- ============================================================
+-- 5. CUTOVER
+-- ============================================================
+-- Swaps shadow and live vectors for every row backfilled to the target
+-- model, in one transaction. Rows added since the job finished send it back
+-- to 'running' instead (swapped = false). Writes to posts / dream_posts wait while it
+-- runs, so no row can appear between the coverage check and the swap.
+-- The previous vectors stay in the shadow columns, which keeps callers
+-- still on the old model working until they are redeployed.
+
+CREATE OR REPLACE FUNCTION cutover_embedding_backfill(p_job_id uuid)
+RETURNS TABLE (
+  swapped boolean,
+  posts_swapped int,
+  dreams_swapped int,
+  rows_remaining bigint
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job public.embedding_backfill_jobs%ROWTYPE;
+  v_remaining bigint;
+  v_posts int;
+  v_dreams int;
+BEGIN
+  SELECT * INTO v_job FROM public.embedding_backfill_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Backfill job not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_job.status <> 'ready' THEN
+    RAISE EXCEPTION 'Backfill job is %, not ready for cutover', v_job.status USING ERRCODE = 'P0001';
+  END IF;
+
+  LOCK TABLE public.posts, public.dream_posts IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT c.posts_remaining + c.dreams_remaining INTO v_remaining
+  FROM embedding_backfill_coverage(v_job.target_model) c;
+
+  IF v_remaining > 0 THEN
+    -- New rows arrived since the job finished; send it back to pick them up
+    UPDATE public.embedding_backfill_jobs
+    SET status = 'running', phase = 'posts', posts_cursor = NULL, dreams_cursor = NULL,
+        passes = passes + 1, updated_at = NOW()
+    WHERE id = p_job_id;
+    RETURN QUERY SELECT false, 0, 0, v_remaining;
+    RETURN;
+  END IF;
+
+  -- SET expressions read the old row, so this swaps the columns
+  UPDATE public.posts SET
+    embedding = embedding_next,
+    embedding_model = embedding_next_model,
+    embedding_next = embedding,
+    embedding_next_model = embedding_model
+  WHERE embedding_next_model = v_job.target_model
+    AND embedding_model IS DISTINCT FROM v_job.target_model;
+  GET DIAGNOSTICS v_posts = ROW_COUNT;
+
+  UPDATE public.dream_posts SET
+    content_embedding = content_embedding_next,
+    symbol_embedding = symbol_embedding_next,
+    emotion_embedding = emotion_embedding_next,
+    combined_embedding = combined_embedding_next,
+    embedding_model = embedding_next_model,
+    content_embedding_next = content_embedding,
+    symbol_embedding_next = symbol_embedding,
+    emotion_embedding_next = emotion_embedding,
+    combined_embedding_next = combined_embedding,
+    embedding_next_model = embedding_model
+  WHERE embedding_next_model = v_job.target_model
+    AND embedding_model IS DISTINCT FROM v_job.target_model;
+  GET DIAGNOSTICS v_dreams = ROW_COUNT;
+
+  -- Rankings were computed in the old vector space; recompute-rankings picks these up first
+  UPDATE public.post_rankings SET computed_at = '-infinity';
+
+  UPDATE public.embedding_backfill_jobs
+  SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+  WHERE id = p_job_id;
+
+  RETURN QUERY SELECT true, v_posts, v_dreams, 0::bigint;
+END;
+$$;
+
+-- ============================================================
+-- 6. SEARCH RPCS
+-- ============================================================
+-- Same as 023 / 026, reading the live column when its tag matches the
+-- caller's and the shadow column when that one does.
+
+DROP FUNCTION IF EXISTS match_posts_by_embedding(vector(1536), float, int, text, text, text, text, boolean, boolean, text);
+
+CREATE OR REPLACE FUNCTION match_posts_by_embedding(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.5,
+  match_limit int DEFAULT 10,
+  scope_filter text DEFAULT 'world',
+  filter_city text DEFAULT NULL,
+  filter_state text DEFAULT NULL,
+  filter_country text DEFAULT NULL,
+  today_only boolean DEFAULT false,
+  query_has_negation boolean DEFAULT false,
+  query_embedding_model text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  input_type post_type,
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  percentile float,
+  tier text,
+  created_at timestamptz,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    p.id,
+    p.content,
+    p.input_type,
+    p.scope::text as scope,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    p.percentile,
+    p.tier::text as tier,
+    p.created_at,
+    1 - (v.embedding <=> query_embedding) as similarity
+  FROM posts p
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN query_embedding_model IS NULL OR p.embedding_model = query_embedding_model THEN p.embedding
+      WHEN p.embedding_next_model = query_embedding_model THEN p.embedding_next
+    END AS embedding
+  ) v
+  WHERE 
+    p.moderation_status = 'approved'
+    AND v.embedding IS NOT NULL
+    AND (1 - (v.embedding <=> query_embedding)) > match_threshold
+    AND (
+      CASE scope_filter
+        WHEN 'city' THEN p.scope = 'city' AND p.location_city = filter_city
+        WHEN 'state' THEN p.scope IN ('city', 'state') AND p.location_state = filter_state
+        WHEN 'country' THEN p.scope IN ('city', 'state', 'country') AND p.location_country = filter_country
+        WHEN 'world' THEN true
+        ELSE true
+      END
+    )
+    AND (
+      CASE 
+        WHEN today_only THEN p.created_at >= CURRENT_DATE
+        ELSE true
+      END
+    )
+    AND (
+      CASE 
+        WHEN query_has_negation THEN p.has_negation = true
+        ELSE true
+      END
+    )
+  ORDER BY v.embedding <=> query_embedding
+  LIMIT match_limit;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS match_dreams_by_embedding(vector, float, int, dream_type, scope_type, text, vector);
+
+CREATE OR REPLACE FUNCTION match_dreams_by_embedding(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10,
+  dream_type_filter dream_type DEFAULT NULL,
+  scope_filter scope_type DEFAULT NULL,
+  query_embedding_model text DEFAULT NULL,
+  query_content_embedding vector(1536) DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  dream_type dream_type,
+  emotions dream_emotion[],
+  symbols dream_symbol[],
+  clarity integer,
+  similarity float,
+  content_similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    dp.id,
+    dp.content,
+    dp.dream_type,
+    dp.emotions,
+    dp.symbols,
+    dp.clarity,
+    1 - (v.combined <=> query_embedding) as similarity,
+    CASE
+      WHEN query_content_embedding IS NOT NULL AND v.content IS NOT NULL
+      THEN 1 - (v.content <=> query_content_embedding)
+      ELSE 1 - (v.combined <=> query_embedding)
+    END as content_similarity
+  FROM dream_posts dp
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE
+        WHEN query_embedding_model IS NULL OR dp.embedding_model = query_embedding_model THEN dp.combined_embedding
+        WHEN dp.embedding_next_model = query_embedding_model THEN dp.combined_embedding_next
+      END AS combined,
+      CASE
+        WHEN query_embedding_model IS NULL OR dp.embedding_model = query_embedding_model THEN dp.content_embedding
+        WHEN dp.embedding_next_model = query_embedding_model THEN dp.content_embedding_next
+      END AS content
+  ) v
+  WHERE 
+    v.combined IS NOT NULL
+    AND 1 - (v.combined <=> query_embedding) > match_threshold
+    AND (dream_type_filter IS NULL OR dp.dream_type = dream_type_filter)
+    AND (scope_filter IS NULL OR dp.scope = scope_filter)
+  ORDER BY v.combined <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_dreams_by_embedding(vector, float, int, dream_type, scope_type, text, vector) TO authenticated;
+
+-- ============================================================
+-- 7. CRON JOB
+-- ============================================================
+-- Keeps a running job moving; a no-op when no job is running
+
+SELECT cron.schedule(
+  'run-embedding-backfill',
+  '* * * * *', -- Every minute
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.settings.supabase_url') || '/functions/v1/backfill-embeddings',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+    ),
+    body := '{"action": "run"}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,227 @@
+-- ============================================================
+-- CONTENT MODIFIERS
+-- ============================================================
+-- Clause-level negation, quantities and times of day extracted from each
+-- post (contentModifiers.ts). Matching drops candidates whose modifiers
+-- contradict the query's ("ran 5km" vs "ran 20km", "didn't eat meat" vs
+-- "ate meat"). has_negation is now set from the same analysis.
+--
+-- Posts created before this migration have NULL modifiers; they are
+-- analysed from their content when compared.
+
+-- ============================================================
+-- 1. COLUMN
+-- ============================================================
+
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS content_modifiers JSONB;
+
+COMMENT ON COLUMN public.posts.content_modifiers IS 'Negation / quantity / time-of-day analysis of content (ContentModifiers, versioned)';
+
+-- ============================================================
+-- 2. SEARCH FUNCTION
+-- ============================================================
+-- Same as 028 plus content_modifiers, so candidates can be checked without
+-- another round trip.
+
+DROP FUNCTION IF EXISTS search_posts_hybrid(text, vector, text, int, text, text, text, text, boolean, float, float, int, int);
+
+CREATE OR REPLACE FUNCTION search_posts_hybrid(
+  query_text text,
+  query_embedding vector(1536) DEFAULT NULL,   -- NULL: lexical signals only
+  query_embedding_model text DEFAULT NULL,
+  match_limit int DEFAULT 20,
+  scope_filter text DEFAULT 'world',
+  filter_city text DEFAULT NULL,
+  filter_state text DEFAULT NULL,
+  filter_country text DEFAULT NULL,
+  query_has_negation boolean DEFAULT false,
+  min_vector_similarity float DEFAULT 0.70,
+  min_trigram_similarity float DEFAULT 0.3,
+  rrf_k int DEFAULT 60,
+  candidate_limit int DEFAULT 100              -- Rows taken from each ranking before fusion
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  input_type post_type,
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  percentile float,
+  tier text,
+  created_at timestamptz,
+  similarity float,          -- Vector similarity, NULL when not a vector match
+  text_rank float,           -- ts_rank_cd, NULL when not a full-text match
+  trigram_similarity float,  -- NULL when below min_trigram_similarity
+  score float,               -- Reciprocal rank fusion score
+  matched_by text[],         -- Subset of {fulltext, trigram, vector}
+  content_modifiers jsonb    -- NULL for posts created before migration 029
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_tsquery tsquery := websearch_to_tsquery('english', COALESCE(query_text, ''));
+BEGIN
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT p.*
+    FROM posts p
+    WHERE
+      p.moderation_status = 'approved'
+      AND (
+        CASE scope_filter
+          WHEN 'city' THEN p.scope = 'city' AND p.location_city = filter_city
+          WHEN 'state' THEN p.scope IN ('city', 'state') AND p.location_state = filter_state
+          WHEN 'country' THEN p.scope IN ('city', 'state', 'country') AND p.location_country = filter_country
+          ELSE true
+        END
+      )
+      AND (NOT query_has_negation OR p.has_negation = true)
+  ),
+  fulltext AS (
+    SELECT s.id, ts_rank_cd(to_tsvector('english', s.content), v_tsquery)::float AS rank_value
+    FROM scoped s
+    WHERE numnode(v_tsquery) > 0
+      AND to_tsvector('english', s.content) @@ v_tsquery
+    ORDER BY rank_value DESC
+    LIMIT candidate_limit
+  ),
+  fulltext_ranked AS (
+    SELECT f.id, f.rank_value, ROW_NUMBER() OVER (ORDER BY f.rank_value DESC) AS position
+    FROM fulltext f
+  ),
+  trigram AS (
+    SELECT s.id, similarity(s.content, query_text)::float AS rank_value
+    FROM scoped s
+    WHERE length(COALESCE(query_text, '')) >= 3
+      AND s.content % query_text
+      AND similarity(s.content, query_text) >= min_trigram_similarity
+    ORDER BY rank_value DESC
+    LIMIT candidate_limit
+  ),
+  trigram_ranked AS (
+    SELECT t.id, t.rank_value, ROW_NUMBER() OVER (ORDER BY t.rank_value DESC) AS position
+    FROM trigram t
+  ),
+  vector_candidates AS (
+    SELECT s.id, (1 - (v.embedding <=> query_embedding))::float AS rank_value
+    FROM scoped s
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN query_embedding_model IS NULL OR s.embedding_model = query_embedding_model THEN s.embedding
+        WHEN s.embedding_next_model = query_embedding_model THEN s.embedding_next
+      END AS embedding
+    ) v
+    WHERE query_embedding IS NOT NULL
+      AND v.embedding IS NOT NULL
+      AND 1 - (v.embedding <=> query_embedding) > min_vector_similarity
+    ORDER BY v.embedding <=> query_embedding
+    LIMIT candidate_limit
+  ),
+  vector_ranked AS (
+    SELECT vc.id, vc.rank_value, ROW_NUMBER() OVER (ORDER BY vc.rank_value DESC) AS position
+    FROM vector_candidates vc
+  ),
+  candidates AS (
+    SELECT f.id FROM fulltext_ranked f
+    UNION
+    SELECT t.id FROM trigram_ranked t
+    UNION
+    SELECT vr.id FROM vector_ranked vr
+  ),
+  fused AS (
+    SELECT
+      c.id,
+      vr.rank_value AS similarity,
+      f.rank_value AS text_rank,
+      t.rank_value AS trigram_similarity,
+      COALESCE(1.0 / (rrf_k + f.position), 0)
+        + COALESCE(1.0 / (rrf_k + t.position), 0)
+        + COALESCE(1.0 / (rrf_k + vr.position), 0) AS score,
+      array_remove(ARRAY[
+        CASE WHEN f.id IS NOT NULL THEN 'fulltext' END,
+        CASE WHEN t.id IS NOT NULL THEN 'trigram' END,
+        CASE WHEN vr.id IS NOT NULL THEN 'vector' END
+      ], NULL) AS matched_by
+    FROM candidates c
+    LEFT JOIN fulltext_ranked f ON f.id = c.id
+    LEFT JOIN trigram_ranked t ON t.id = c.id
+    LEFT JOIN vector_ranked vr ON vr.id = c.id
+  )
+  SELECT
+    p.id,
+    p.content,
+    p.input_type,
+    p.scope::text,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    p.percentile,
+    p.tier::text,
+    p.created_at,
+    fu.similarity,
+    fu.text_rank,
+    fu.trigram_similarity,
+    fu.score::float,
+    fu.matched_by,
+    p.content_modifiers
+  FROM fused fu
+  JOIN posts p ON p.id = fu.id
+  ORDER BY fu.score DESC, p.created_at DESC
+  LIMIT match_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_posts_hybrid(text, vector, text, int, text, text, text, text, boolean, float, float, int, int) TO anon, authenticated;
+
+-- ============================================================
+-- 3. RANKING SELECTION
+-- ============================================================
+-- Same as 028 plus content_modifiers, so rankings reuse the stored analysis.
+
+DROP FUNCTION IF EXISTS get_posts_needing_ranking(int, int);
+
+CREATE OR REPLACE FUNCTION get_posts_needing_ranking(
+  batch_size int DEFAULT 100,
+  max_age_minutes int DEFAULT 15
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  embedding vector(1536),
+  embedding_model text,
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  has_negation boolean,
+  content_modifiers jsonb
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.content,
+    p.embedding,
+    p.embedding_model,
+    p.scope::text,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    COALESCE(p.has_negation, false),
+    p.content_modifiers
+  FROM public.posts p
+  LEFT JOIN public.post_rankings r ON r.post_id = p.id
+  WHERE p.moderation_status = 'approved'
+    AND p.embedding IS NOT NULL
+    AND (r.post_id IS NULL OR r.computed_at < NOW() - make_interval(mins => max_age_minutes))
+  ORDER BY r.computed_at ASC NULLS FIRST, p.created_at DESC
+  LIMIT batch_size;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_posts_needing_ranking(int, int) TO service_role;
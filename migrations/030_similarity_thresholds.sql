@@ -0,0 +1,115 @@
+-- ============================================================
+-- SIMILARITY THRESHOLDS
+-- ============================================================
+-- Matching thresholds per input type, scope and embedding model, replacing
+-- the hard-coded 0.70. '*' in any key column matches every value; the most
+-- specific row wins (input type, then scope, then model).
+-- Values are picked with scripts/calibrate-thresholds.ts from labelled pairs.
+
+-- ============================================================
+-- 1. TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.similarity_thresholds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  input_type TEXT NOT NULL DEFAULT '*',       -- 'action' | 'day' | '*'
+  scope TEXT NOT NULL DEFAULT '*',            -- 'city' | 'state' | 'country' | 'world' | '*'
+  embedding_model TEXT NOT NULL DEFAULT '*',  -- Provider/model tag, see embeddingModelTag
+  vector_threshold FLOAT NOT NULL CHECK (vector_threshold BETWEEN 0 AND 1),
+  trigram_threshold FLOAT NOT NULL CHECK (trigram_threshold BETWEEN 0 AND 1),
+  notes TEXT,                                 -- e.g. calibration run summary
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (input_type, scope, embedding_model)
+);
+
+COMMENT ON TABLE public.similarity_thresholds IS 'Post matching thresholds per input type / scope / model (* = any)';
+
+-- Current behaviour as the catch-all default
+INSERT INTO public.similarity_thresholds (input_type, scope, embedding_model, vector_threshold, trigram_threshold, notes)
+VALUES ('*', '*', '*', 0.70, 0.6, 'Default from before calibration')
+ON CONFLICT (input_type, scope, embedding_model) DO NOTHING;
+
+ALTER TABLE public.similarity_thresholds ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 2. LOOKUP FUNCTION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_similarity_thresholds(
+  p_input_type text,
+  p_scope text,
+  p_embedding_model text
+)
+RETURNS TABLE (
+  vector_threshold float,
+  trigram_threshold float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.vector_threshold, t.trigram_threshold
+  FROM public.similarity_thresholds t
+  WHERE t.input_type IN (p_input_type, '*')
+    AND t.scope IN (p_scope, '*')
+    AND t.embedding_model IN (p_embedding_model, '*')
+  ORDER BY
+    (t.input_type <> '*') DESC,
+    (t.scope <> '*') DESC,
+    (t.embedding_model <> '*') DESC
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_similarity_thresholds(text, text, text) TO service_role;
+
+-- ============================================================
+-- 3. RANKING SELECTION
+-- ============================================================
+-- Same as 029 plus input_type, so rankings use the post's thresholds.
+
+DROP FUNCTION IF EXISTS get_posts_needing_ranking(int, int);
+
+CREATE OR REPLACE FUNCTION get_posts_needing_ranking(
+  batch_size int DEFAULT 100,
+  max_age_minutes int DEFAULT 15
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  input_type text,
+  embedding vector(1536),
+  embedding_model text,
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  has_negation boolean,
+  content_modifiers jsonb
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.content,
+    p.input_type::text,
+    p.embedding,
+    p.embedding_model,
+    p.scope::text,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    COALESCE(p.has_negation, false),
+    p.content_modifiers
+  FROM public.posts p
+  LEFT JOIN public.post_rankings r ON r.post_id = p.id
+  WHERE p.moderation_status = 'approved'
+    AND p.embedding IS NOT NULL
+    AND (r.post_id IS NULL OR r.computed_at < NOW() - make_interval(mins => max_age_minutes))
+  ORDER BY r.computed_at ASC NULLS FIRST, p.created_at DESC
+  LIMIT batch_size;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_posts_needing_ranking(int, int) TO service_role;
@@ -0,0 +1,30 @@
+-- ============================================================
+-- CANONICAL ACTION KEYS
+-- ============================================================
+-- posts.content_hash only lowercases and strips punctuation, so "Went for a
+-- run" and "went running" never share it. action_key (actionKey.ts) is a
+-- lemmatised, synonym-mapped, sorted term key that paraphrases share. It is
+-- used when matching without embeddings and to group temporal_uniqueness.
+--
+-- Posts created before this migration have no action key and are only
+-- found through embeddings.
+
+-- ============================================================
+-- 1. POSTS
+-- ============================================================
+
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS action_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_posts_action_key
+  ON public.posts(action_key, created_at DESC)
+  WHERE action_key IS NOT NULL;
+
+COMMENT ON COLUMN public.posts.action_key IS 'Canonical action key shared by paraphrases (e.g. "run" for "Went for a run" / "went running")';
+
+-- ============================================================
+-- 2. TEMPORAL UNIQUENESS
+-- ============================================================
+
+ALTER TABLE public.temporal_uniqueness ADD COLUMN IF NOT EXISTS action_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_temporal_uniqueness_action_key ON public.temporal_uniqueness(action_key);
@@ -0,0 +1,184 @@
+-- ============================================================
+-- LOCAL TIME WINDOWS
+-- ============================================================
+-- "Today", "this week" and "this month" were computed on the edge runtime's
+-- UTC clock, so "today" rolled over at 5pm in California. Windows are now
+-- computed in the poster's IANA time zone (request, else profile):
+--   - profiles.timezone: the user's zone, updated when a request sends one
+--   - posts.timezone / local_date: the zone and local day of each post
+--   - temporal_uniqueness rows record the zone and local day they describe
+--   - daily_stats holds one row per local day per zone, aggregated shortly
+--     after midnight in each zone
+
+-- ============================================================
+-- 1. PROFILES
+-- ============================================================
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+COMMENT ON COLUMN public.profiles.timezone IS 'IANA time zone for local-day windows (e.g. America/Los_Angeles)';
+
+-- Seed from the zone saved with each user's streak
+UPDATE public.profiles p
+SET timezone = s.timezone
+FROM public.user_streaks s
+WHERE s.user_id = p.id
+  AND s.timezone <> 'UTC'
+  AND s.timezone IN (SELECT name FROM pg_timezone_names);
+
+-- ============================================================
+-- 2. POSTS
+-- ============================================================
+
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS timezone TEXT;
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS local_date DATE;
+
+COMMENT ON COLUMN public.posts.timezone IS 'IANA time zone of the poster when the post was created';
+COMMENT ON COLUMN public.posts.local_date IS 'Calendar day of created_at in timezone';
+
+UPDATE public.posts p
+SET timezone = COALESCE((SELECT pr.timezone FROM public.profiles pr WHERE pr.id = p.user_id), 'UTC')
+WHERE p.timezone IS NULL;
+
+UPDATE public.posts
+SET local_date = (created_at AT TIME ZONE timezone)::date
+WHERE local_date IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_posts_local_date ON public.posts(local_date DESC);
+
+-- ============================================================
+-- 3. TEMPORAL UNIQUENESS
+-- ============================================================
+
+ALTER TABLE public.temporal_uniqueness ADD COLUMN IF NOT EXISTS timezone TEXT;
+ALTER TABLE public.temporal_uniqueness ADD COLUMN IF NOT EXISTS local_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_temporal_uniqueness_local_date
+  ON public.temporal_uniqueness(action_key, local_date DESC);
+
+-- ============================================================
+-- 4. DAILY STATS PER LOCAL DAY
+-- ============================================================
+
+ALTER TABLE public.daily_stats ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE public.daily_stats DROP CONSTRAINT IF EXISTS daily_stats_date_key;
+DO $$ BEGIN
+    ALTER TABLE public.daily_stats ADD CONSTRAINT daily_stats_date_timezone_key UNIQUE (date, timezone);
+EXCEPTION
+    WHEN duplicate_table OR duplicate_object THEN null;
+END $$;
+
+-- Aggregate one local day in one zone (recomputes an existing row)
+CREATE OR REPLACE FUNCTION calculate_daily_stats(p_timezone text, p_date date)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_start timestamptz := p_date::timestamp AT TIME ZONE p_timezone;
+  v_end timestamptz := (p_date + 1)::timestamp AT TIME ZONE p_timezone;
+BEGIN
+  INSERT INTO public.daily_stats (
+    date,
+    timezone,
+    total_posts,
+    action_posts,
+    day_posts,
+    elite_posts,
+    rare_posts,
+    unique_posts,
+    notable_posts,
+    popular_posts,
+    common_posts,
+    world_posts,
+    country_posts,
+    state_posts,
+    city_posts,
+    new_users,
+    active_users,
+    posting_users,
+    total_reactions
+  )
+  SELECT
+    p_date,
+    p_timezone,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE input_type = 'action'),
+    COUNT(*) FILTER (WHERE input_type = 'day'),
+    COUNT(*) FILTER (WHERE tier = 'elite'),
+    COUNT(*) FILTER (WHERE tier = 'rare'),
+    COUNT(*) FILTER (WHERE tier = 'unique'),
+    COUNT(*) FILTER (WHERE tier = 'notable'),
+    COUNT(*) FILTER (WHERE tier = 'popular'),
+    COUNT(*) FILTER (WHERE tier = 'common'),
+    COUNT(*) FILTER (WHERE scope = 'world'),
+    COUNT(*) FILTER (WHERE scope = 'country'),
+    COUNT(*) FILTER (WHERE scope = 'state'),
+    COUNT(*) FILTER (WHERE scope = 'city'),
+    (SELECT COUNT(*) FROM public.profiles WHERE created_at >= v_start AND created_at < v_end),
+    COUNT(DISTINCT user_id),
+    COUNT(DISTINCT user_id) FILTER (WHERE user_id IS NOT NULL),
+    (SELECT COUNT(*) FROM public.reactions WHERE created_at >= v_start AND created_at < v_end)
+  FROM public.posts
+  WHERE created_at >= v_start
+    AND created_at < v_end
+  ON CONFLICT (date, timezone) DO UPDATE SET
+    total_posts = EXCLUDED.total_posts,
+    action_posts = EXCLUDED.action_posts,
+    day_posts = EXCLUDED.day_posts,
+    elite_posts = EXCLUDED.elite_posts,
+    rare_posts = EXCLUDED.rare_posts,
+    unique_posts = EXCLUDED.unique_posts,
+    notable_posts = EXCLUDED.notable_posts,
+    popular_posts = EXCLUDED.popular_posts,
+    common_posts = EXCLUDED.common_posts,
+    world_posts = EXCLUDED.world_posts,
+    country_posts = EXCLUDED.country_posts,
+    state_posts = EXCLUDED.state_posts,
+    city_posts = EXCLUDED.city_posts,
+    new_users = EXCLUDED.new_users,
+    active_users = EXCLUDED.active_users,
+    posting_users = EXCLUDED.posting_users,
+    total_reactions = EXCLUDED.total_reactions;
+END;
+$$;
+
+-- Aggregate yesterday for every zone in use where midnight has just passed.
+-- Runs every 15 minutes so zones with :30 / :45 offsets are covered.
+CREATE OR REPLACE FUNCTION refresh_local_daily_stats()
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_zone text;
+  v_count int := 0;
+BEGIN
+  FOR v_zone IN
+    SELECT z.timezone
+    FROM (SELECT DISTINCT timezone FROM public.profiles UNION SELECT 'UTC') z
+    WHERE z.timezone IN (SELECT name FROM pg_timezone_names)
+      AND (NOW() AT TIME ZONE z.timezone)::time < '00:15'
+  LOOP
+    PERFORM calculate_daily_stats(v_zone, (NOW() AT TIME ZONE v_zone)::date - 1);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_daily_stats(text, date) TO service_role;
+GRANT EXECUTE ON FUNCTION refresh_local_daily_stats() TO service_role;
+
+-- Replaces the UTC-midnight job from 001
+DO $$ BEGIN
+    PERFORM cron.unschedule('calculate-daily-stats');
+EXCEPTION
+    WHEN OTHERS THEN null;
+END $$;
+
+SELECT cron.schedule(
+  'calculate-local-daily-stats',
+  '*/15 * * * *',
+  $$SELECT refresh_local_daily_stats()$$
+);
@@ -0,0 +1,152 @@
+-- ============================================================
+-- MODERATION REVIEW QUEUE
+-- ============================================================
+-- With MODERATION_FAILURE_POLICY=hold_for_review, posts that could not be
+-- moderated (timeouts, provider outages) are stored as 'pending' and queued
+-- here. Admins (profiles.is_admin) list, approve and reject them through the
+-- moderation-queue function; every status change is written to the audit log.
+
+-- ============================================================
+-- 1. ADMINS
+-- ============================================================
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.profiles.is_admin IS 'May use admin endpoints (moderation review)';
+
+-- ============================================================
+-- 2. TABLES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.moderation_review_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL UNIQUE REFERENCES public.posts(id) ON DELETE CASCADE,
+  reason TEXT,                     -- Why the post was held
+  flags TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_review_queue_pending
+  ON public.moderation_review_queue(created_at)
+  WHERE status = 'pending';
+
+-- No foreign key: the trail outlives deleted posts
+CREATE TABLE IF NOT EXISTS public.moderation_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('held', 'approved', 'rejected')),
+  previous_status TEXT,
+  new_status TEXT NOT NULL,
+  actor_id UUID,                   -- NULL for the system
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_audit_log_post
+  ON public.moderation_audit_log(post_id, created_at DESC);
+
+ALTER TABLE public.moderation_review_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.moderation_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 3. HOLD
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION hold_post_for_review(
+  p_post_id uuid,
+  p_reason text,
+  p_flags text[] DEFAULT '{}'
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous text;
+BEGIN
+  SELECT moderation_status::text INTO v_previous
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post % not found', p_post_id;
+  END IF;
+
+  UPDATE public.posts SET moderation_status = 'pending' WHERE id = p_post_id;
+
+  INSERT INTO public.moderation_review_queue (post_id, reason, flags)
+  VALUES (p_post_id, p_reason, COALESCE(p_flags, '{}'))
+  ON CONFLICT (post_id) DO UPDATE SET
+    reason = EXCLUDED.reason,
+    flags = EXCLUDED.flags,
+    status = 'pending',
+    created_at = NOW(),
+    reviewed_at = NULL,
+    reviewed_by = NULL;
+
+  INSERT INTO public.moderation_audit_log (post_id, action, previous_status, new_status, note)
+  VALUES (p_post_id, 'held', v_previous, 'pending', p_reason);
+END;
+$$;
+
+-- ============================================================
+-- 4. REVIEW
+-- ============================================================
+-- Applies one decision to every listed post that is still pending; other
+-- ids are skipped. Returns the reviewed posts (for cache invalidation).
+
+CREATE OR REPLACE FUNCTION review_pending_posts(
+  p_post_ids uuid[],
+  p_decision text,
+  p_reviewer_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content_hash text,
+  scope text,
+  input_type text,
+  location_city text,
+  location_state text,
+  location_country text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid review decision: %', p_decision;
+  END IF;
+
+  RETURN QUERY
+  WITH reviewed AS (
+    UPDATE public.moderation_review_queue q
+    SET status = p_decision, reviewed_at = NOW(), reviewed_by = p_reviewer_id
+    WHERE q.post_id = ANY(p_post_ids)
+      AND q.status = 'pending'
+    RETURNING q.post_id
+  ),
+  updated AS (
+    UPDATE public.posts p
+    SET moderation_status = p_decision::moderation_status
+    FROM reviewed r
+    WHERE p.id = r.post_id
+    RETURNING p.id, p.content_hash, p.scope::text, p.input_type::text, p.location_city,
+      p.location_state, p.location_country, p.created_at
+  ),
+  audited AS (
+    INSERT INTO public.moderation_audit_log (post_id, action, previous_status, new_status, actor_id, note)
+    SELECT u.id, p_decision, 'pending', p_decision, p_reviewer_id, p_note
+    FROM updated u
+  )
+  SELECT u.id, u.content_hash, u.scope, u.input_type, u.location_city, u.location_state,
+    u.location_country, u.created_at
+  FROM updated u;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION hold_post_for_review(uuid, text, text[]) TO service_role;
+GRANT EXECUTE ON FUNCTION review_pending_posts(uuid[], text, uuid, text) TO service_role;
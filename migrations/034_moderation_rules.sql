@@ -0,0 +1,76 @@
+-- ============================================================
+-- MODERATION RULES
+-- ============================================================
+-- Local moderation rules, previously hard-coded in ModerationPipeline, are
+-- now rows that can be edited without a deploy. The rules and blocklist
+-- checkers read the enabled rows (cached for 5 minutes):
+--   - 'regex'     → pattern is a case-insensitive regular expression
+--   - 'lexicon'   → pattern is a word or phrase, matched on word boundaries
+--   - 'blocklist' → like lexicon, but handled by the blocklist checker,
+--                   whose default threshold rejects on any hit
+-- Matching rules add their score to their category (capped at 1); the
+-- checker's weight and threshold (MODERATION_CHECK_SETTINGS) decide what a
+-- category score means. Category is the flag reported to the client, e.g.
+-- 'toxic', 'spam', 'adult_content'.
+
+-- ============================================================
+-- 1. TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.moderation_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('regex', 'lexicon', 'blocklist')),
+  category TEXT NOT NULL,
+  pattern TEXT NOT NULL,
+  score NUMERIC(3,2) NOT NULL DEFAULT 1.0 CHECK (score > 0 AND score <= 1),
+  content_types TEXT[],            -- NULL = every content type ('post', 'dream', 'comment', 'profile')
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (kind, category, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_rules_enabled
+  ON public.moderation_rules(kind)
+  WHERE enabled;
+
+ALTER TABLE public.moderation_rules ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 2. SEED (rules previously hard-coded in ModerationPipeline)
+-- ============================================================
+
+INSERT INTO public.moderation_rules (kind, category, pattern, score, notes) VALUES
+  -- Toxicity: any hit rejects
+  ('regex', 'toxic', '\b(stupid|idiot|moron|dumb|retard|fool)\b', 1.0, 'Direct insults'),
+  ('regex', 'toxic', '\b(hate|despise|loathe)\s+(you|everyone|all)\b', 1.0, 'Direct insults'),
+  ('regex', 'toxic', '\b(kill|murder|destroy)\s+(yourself|you|everyone|all|them|people)\b', 1.0, 'Threats'),
+  ('regex', 'toxic', '\b(all|every)\s+\w+\s+(are|is)\s+(terrible|awful|inferior|stupid)\b', 1.0, 'Hate speech'),
+  ('regex', 'toxic', '\b(wish|hope)\s+\w+\s+(would|could)\s+(die|disappear|vanish)\b', 1.0, 'Hate speech'),
+  ('regex', 'toxic', '\b(discriminat|prejudice|bias)\s+(against|toward)\s+\w+', 1.0, 'Discriminatory language'),
+  -- Spam: two signals reject
+  ('regex', 'spam', '\b(buy|sell|purchase|order|deal|offer|discount|free|limited time)\b', 0.5, 'Promotional'),
+  ('regex', 'spam', '\b(click here|visit|website|link|url|http|www\.)', 0.5, 'Links'),
+  ('regex', 'spam', '\b(get rich|make money|earn cash|profit|investment)\b', 0.5, 'Money'),
+  ('regex', 'spam', '[!]{3,}|[?]{3,}|[.]{3,}', 0.5, 'Excessive punctuation'),
+  ('regex', 'spam', '(.)\1{10,}', 0.5, 'Repeated characters'),
+  -- Adult content
+  ('lexicon', 'adult_content', 'sex', 1.0, NULL),
+  ('lexicon', 'adult_content', 'sexual', 1.0, NULL),
+  ('lexicon', 'adult_content', 'fuck', 1.0, NULL),
+  ('lexicon', 'adult_content', 'fucking', 1.0, NULL),
+  ('lexicon', 'adult_content', 'porn', 1.0, NULL),
+  ('lexicon', 'adult_content', 'pornography', 1.0, NULL),
+  ('lexicon', 'adult_content', 'masturbate', 1.0, NULL),
+  ('lexicon', 'adult_content', 'masturbating', 1.0, NULL),
+  ('lexicon', 'adult_content', 'orgasm', 1.0, NULL),
+  ('lexicon', 'adult_content', 'penis', 1.0, NULL),
+  ('lexicon', 'adult_content', 'vagina', 1.0, NULL),
+  ('lexicon', 'adult_content', 'nude', 1.0, NULL),
+  ('lexicon', 'adult_content', 'naked', 1.0, NULL),
+  ('lexicon', 'adult_content', 'doggy style', 1.0, NULL),
+  ('lexicon', 'adult_content', 'blowjob', 1.0, NULL),
+  ('lexicon', 'adult_content', 'handjob', 1.0, NULL),
+  ('lexicon', 'adult_content', 'anal', 1.0, NULL)
+ON CONFLICT (kind, category, pattern) DO NOTHING;
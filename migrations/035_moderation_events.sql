@@ -0,0 +1,116 @@
+-- ============================================================
+-- MODERATION EVENTS & APPEALS
+-- ============================================================
+-- Every moderation decision is recorded in moderation_events with the scores
+-- each checker reported, so "why was my post blocked" can be answered and
+-- false positives measured. Users can appeal a rejection once; appeals wait
+-- for an admin in the moderation-queue function. An overturned appeal allows
+-- that exact content (sha256, per content type) from then on.
+
+-- ============================================================
+-- 1. EVENTS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.moderation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  content_type TEXT NOT NULL,            -- 'post', 'dream', 'comment', 'profile'
+  content_hash TEXT NOT NULL,            -- sha256 hex of the trimmed content
+  content TEXT,                          -- Kept for rejections only (appeal review)
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected', 'held', 'error')),
+  flags TEXT[] NOT NULL DEFAULT '{}',
+  reason TEXT,
+  scores JSONB NOT NULL DEFAULT '{}',    -- { checker: { category: score } }
+  checkers TEXT[] NOT NULL DEFAULT '{}', -- Checkers that ran
+  failed_checkers TEXT[] NOT NULL DEFAULT '{}',
+  cached BOOLEAN NOT NULL DEFAULT false, -- Decision served from the moderation cache
+  latency_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_events_user
+  ON public.moderation_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_events_decision
+  ON public.moderation_events(decision, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_events_content
+  ON public.moderation_events(content_type, content_hash);
+
+ALTER TABLE public.moderation_events ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 2. APPEALS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.moderation_appeals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL UNIQUE REFERENCES public.moderation_events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message TEXT,                          -- The user's explanation
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'upheld', 'overturned')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewer_note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_appeals_pending
+  ON public.moderation_appeals(created_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.moderation_appeals ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 3. FUNCTIONS
+-- ============================================================
+
+-- Apply one decision to every listed appeal that is still pending; other
+-- ids are skipped. Returns the resolved appeals with their content (the
+-- caller clears cached moderation results for overturned content).
+CREATE OR REPLACE FUNCTION resolve_moderation_appeals(
+  p_appeal_ids uuid[],
+  p_decision text,
+  p_reviewer_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content_type text,
+  content_hash text,
+  content text
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_decision NOT IN ('upheld', 'overturned') THEN
+    RAISE EXCEPTION 'Invalid appeal decision: %', p_decision;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.moderation_appeals a
+  SET status = p_decision, reviewed_at = NOW(), reviewed_by = p_reviewer_id, reviewer_note = p_note
+  FROM public.moderation_events e
+  WHERE a.id = ANY(p_appeal_ids)
+    AND a.status = 'pending'
+    AND e.id = a.event_id
+  RETURNING a.id, e.content_type, e.content_hash, e.content;
+END;
+$$;
+
+-- Whether a rejection of this content was overturned on appeal
+CREATE OR REPLACE FUNCTION is_moderation_overturned(p_content_type text, p_content_hash text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.moderation_appeals a
+    JOIN public.moderation_events e ON e.id = a.event_id
+    WHERE a.status = 'overturned'
+      AND e.content_type = p_content_type
+      AND e.content_hash = p_content_hash
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_moderation_appeals(uuid[], text, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION is_moderation_overturned(text, text) TO service_role;
@@ -0,0 +1,17 @@
+-- ============================================================
+-- MODERATION TEXT NORMALISATION
+-- ============================================================
+-- Moderation checks now run on text with obfuscation undone (NFKC, zero-width
+-- characters, homoglyphs, diacritics, leetspeak, spaced-out letters, long
+-- letter repeats). Each event records which of these steps changed the text,
+-- e.g. {leet, spacing}, to measure evasion attempts.
+
+ALTER TABLE public.moderation_events
+  ADD COLUMN IF NOT EXISTS transformations TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.moderation_events.transformations IS
+  'Normalisation steps that changed the text: nfkc, zero_width, confusables, diacritics, leet, spacing, repeats';
+
+CREATE INDEX IF NOT EXISTS idx_moderation_events_obfuscated
+  ON public.moderation_events(created_at DESC)
+  WHERE transformations <> '{}';
@@ -0,0 +1,36 @@
+-- ============================================================
+-- PII REDACTION
+-- ============================================================
+-- Moderation now detects personal information (emails, phone numbers, card
+-- numbers, SSNs, street addresses, names) and blocks or redacts it per
+-- PII_POLICY. Redacted content is stored with [type] placeholders in place of
+-- the original, which is never saved; redaction_spans records where each
+-- placeholder sits so clients can render it.
+--   [{"type": "phone", "start": 12, "end": 19}]
+
+-- ============================================================
+-- 1. REDACTION SPANS
+-- ============================================================
+
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS redaction_spans JSONB;
+
+ALTER TABLE public.dream_posts
+  ADD COLUMN IF NOT EXISTS redaction_spans JSONB;
+
+ALTER TABLE public.dream_support_messages
+  ADD COLUMN IF NOT EXISTS redaction_spans JSONB;
+
+COMMENT ON COLUMN public.posts.redaction_spans IS
+  'Placeholders for redacted personal information in content: [{type, start, end}]; NULL when nothing was redacted';
+COMMENT ON COLUMN public.dream_posts.redaction_spans IS
+  'Placeholders for redacted personal information in content: [{type, start, end}]; NULL when nothing was redacted';
+COMMENT ON COLUMN public.dream_support_messages.redaction_spans IS
+  'Placeholders for redacted personal information in message: [{type, start, end}]; NULL when nothing was redacted';
+
+-- ============================================================
+-- 2. MODERATION EVENTS
+-- ============================================================
+
+COMMENT ON COLUMN public.moderation_events.content IS
+  'Kept for rejections only (appeal review); PII blocks keep the redacted text';
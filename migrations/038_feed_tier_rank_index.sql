@@ -0,0 +1,102 @@
+-- ============================================================
+-- FEED TIER RANK INDEX
+-- ============================================================
+-- sortBy=tier orders feed_posts by (tier_rank, created_at DESC, id DESC), but
+-- tier_rank was computed from post_rankings joined to posts, so no index
+-- could serve it and every page scanned and sorted all approved posts. The
+-- rank is now stored on posts (kept in sync by triggers on both tables) and
+-- indexed in feed order; the (tier, ...) index from 018 no longer matches any
+-- feed ordering and is dropped.
+
+-- ============================================================
+-- 1. STORED TIER RANK
+-- ============================================================
+
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS tier_rank INTEGER;
+
+UPDATE public.posts p
+SET tier_rank = tier_rank(COALESCE(
+  (SELECT r.tier FROM public.post_rankings r WHERE r.post_id = p.id),
+  p.tier
+));
+
+-- New posts, and tier changes on the post itself (a ranking wins when present)
+CREATE OR REPLACE FUNCTION set_post_tier_rank()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.tier_rank := tier_rank(COALESCE(
+    (SELECT r.tier FROM public.post_rankings r WHERE r.post_id = NEW.id),
+    NEW.tier
+  ));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_post_tier_rank ON public.posts;
+CREATE TRIGGER trigger_set_post_tier_rank
+  BEFORE INSERT OR UPDATE OF tier ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION set_post_tier_rank();
+
+-- Rankings written by the background job
+CREATE OR REPLACE FUNCTION sync_post_tier_rank()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.posts
+  SET tier_rank = tier_rank(NEW.tier)
+  WHERE id = NEW.post_id
+    AND tier_rank IS DISTINCT FROM tier_rank(NEW.tier);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sync_post_tier_rank ON public.post_rankings;
+CREATE TRIGGER trigger_sync_post_tier_rank
+  AFTER INSERT OR UPDATE OF tier ON public.post_rankings
+  FOR EACH ROW EXECUTE FUNCTION sync_post_tier_rank();
+
+-- ============================================================
+-- 2. FEED VIEW
+-- ============================================================
+-- Same columns as 021; tier_rank now reads the stored column.
+
+CREATE OR REPLACE VIEW public.feed_posts
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.content,
+  p.input_type,
+  p.scope,
+  p.location_city,
+  p.location_state,
+  p.location_country,
+  p.user_id,
+  p.is_anonymous,
+  p.created_at,
+  COALESCE(r.match_count, p.match_count) AS match_count,
+  r.total_in_scope,
+  COALESCE(r.percentile, p.percentile) AS percentile,
+  COALESCE(r.tier, p.tier) AS tier,
+  r.display_text,
+  r.comparison,
+  r.computed_at AS ranked_at,
+  p.tier_rank,
+  COALESCE(c.funny_count, 0) AS funny_count,
+  COALESCE(c.creative_count, 0) AS creative_count,
+  COALESCE(c.must_try_count, 0) AS must_try_count,
+  COALESCE(c.total_count, 0) AS total_reactions
+FROM public.posts p
+LEFT JOIN public.post_rankings r ON r.post_id = p.id
+LEFT JOIN public.post_reaction_counts c ON c.post_id = p.id
+WHERE p.moderation_status = 'approved';
+
+-- ============================================================
+-- 3. INDEXES
+-- ============================================================
+
+-- Feed: rarest tier first, then newest
+CREATE INDEX IF NOT EXISTS idx_posts_feed_tier_rank_keyset
+  ON public.posts(tier_rank, created_at DESC, id DESC)
+  WHERE moderation_status = 'approved';
+
+DROP INDEX IF EXISTS public.idx_posts_feed_tier_keyset;
@@ -0,0 +1,172 @@
+-- ============================================================
+-- REQUIRED EMBEDDING MODEL TAG
+-- ============================================================
+-- match_posts_by_embedding and match_dreams_by_embedding compared the query
+-- against every stored vector when query_embedding_model was NULL, so a caller
+-- that forgot the tag mixed vectors from different models. The tag is now a
+-- required argument (no default) and only vectors stored under that model, or
+-- shadowed under it by a running backfill, are compared.
+--
+-- match_dreams_by_embedding also failed with "column reference match_count is
+-- ambiguous" (the argument shares its name with dream_posts.match_count); the
+-- argument now wins.
+
+-- ============================================================
+-- 1. POST MATCHING
+-- ============================================================
+
+DROP FUNCTION IF EXISTS match_posts_by_embedding(vector(1536), float, int, text, text, text, text, boolean, boolean, text);
+
+CREATE OR REPLACE FUNCTION match_posts_by_embedding(
+  query_embedding vector(1536),
+  query_embedding_model text,
+  match_threshold float DEFAULT 0.5,
+  match_limit int DEFAULT 10,
+  scope_filter text DEFAULT 'world',
+  filter_city text DEFAULT NULL,
+  filter_state text DEFAULT NULL,
+  filter_country text DEFAULT NULL,
+  today_only boolean DEFAULT false,
+  query_has_negation boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  input_type post_type,
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  percentile float,
+  tier text,
+  created_at timestamptz,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF query_embedding_model IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_model is required' USING ERRCODE = '22004';
+  END IF;
+
+  RETURN QUERY
+  SELECT 
+    p.id,
+    p.content,
+    p.input_type,
+    p.scope::text as scope,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    p.percentile,
+    p.tier::text as tier,
+    p.created_at,
+    1 - (v.embedding <=> query_embedding) as similarity
+  FROM posts p
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN p.embedding_model = query_embedding_model THEN p.embedding
+      WHEN p.embedding_next_model = query_embedding_model THEN p.embedding_next
+    END AS embedding
+  ) v
+  WHERE 
+    p.moderation_status = 'approved'
+    AND v.embedding IS NOT NULL
+    AND (1 - (v.embedding <=> query_embedding)) > match_threshold
+    AND (
+      CASE scope_filter
+        WHEN 'city' THEN p.scope = 'city' AND p.location_city = filter_city
+        WHEN 'state' THEN p.scope IN ('city', 'state') AND p.location_state = filter_state
+        WHEN 'country' THEN p.scope IN ('city', 'state', 'country') AND p.location_country = filter_country
+        WHEN 'world' THEN true
+        ELSE true
+      END
+    )
+    AND (
+      CASE 
+        WHEN today_only THEN p.created_at >= CURRENT_DATE
+        ELSE true
+      END
+    )
+    AND (
+      CASE 
+        WHEN query_has_negation THEN p.has_negation = true
+        ELSE true
+      END
+    )
+  ORDER BY v.embedding <=> query_embedding
+  LIMIT match_limit;
+END;
+$$;
+
+-- ============================================================
+-- 2. DREAM MATCHING
+-- ============================================================
+
+DROP FUNCTION IF EXISTS match_dreams_by_embedding(vector, float, int, dream_type, scope_type, text, vector);
+
+CREATE OR REPLACE FUNCTION match_dreams_by_embedding(
+  query_embedding vector(1536),
+  query_embedding_model text,
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10,
+  dream_type_filter dream_type DEFAULT NULL,
+  scope_filter scope_type DEFAULT NULL,
+  query_content_embedding vector(1536) DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  dream_type dream_type,
+  emotions dream_emotion[],
+  symbols dream_symbol[],
+  clarity integer,
+  similarity float,
+  content_similarity float
+)
+LANGUAGE plpgsql
+AS $$
+-- match_count is also a dream_posts column; the argument is meant
+#variable_conflict use_variable
+BEGIN
+  IF query_embedding_model IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_model is required' USING ERRCODE = '22004';
+  END IF;
+
+  RETURN QUERY
+  SELECT 
+    dp.id,
+    dp.content,
+    dp.dream_type,
+    dp.emotions,
+    dp.symbols,
+    dp.clarity,
+    1 - (v.combined <=> query_embedding) as similarity,
+    CASE
+      WHEN query_content_embedding IS NOT NULL AND v.content IS NOT NULL
+      THEN 1 - (v.content <=> query_content_embedding)
+      ELSE 1 - (v.combined <=> query_embedding)
+    END as content_similarity
+  FROM dream_posts dp
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE
+        WHEN dp.embedding_model = query_embedding_model THEN dp.combined_embedding
+        WHEN dp.embedding_next_model = query_embedding_model THEN dp.combined_embedding_next
+      END AS combined,
+      CASE
+        WHEN dp.embedding_model = query_embedding_model THEN dp.content_embedding
+        WHEN dp.embedding_next_model = query_embedding_model THEN dp.content_embedding_next
+      END AS content
+  ) v
+  WHERE 
+    v.combined IS NOT NULL
+    AND 1 - (v.combined <=> query_embedding) > match_threshold
+    AND (dream_type_filter IS NULL OR dp.dream_type = dream_type_filter)
+    AND (scope_filter IS NULL OR dp.scope = scope_filter)
+  ORDER BY v.combined <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_dreams_by_embedding(vector, text, float, int, dream_type, scope_type, vector) TO authenticated;
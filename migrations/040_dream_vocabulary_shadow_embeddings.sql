@@ -0,0 +1,119 @@
+-- ============================================================
+-- DREAM VOCABULARY SHADOW EMBEDDINGS
+-- ============================================================
+-- The backfill's dream pass embedded each dream's symbols and emotions for
+-- the target model and threw the vectors away, so every term was embedded
+-- again for every dream using it. dream_symbols / dream_emotions now have
+-- shadow columns like posts and dream_posts (027): the dream pass stores new
+-- term vectors there, later dreams reuse them, and cutover swaps them in.
+
+-- ============================================================
+-- 1. SHADOW COLUMNS
+-- ============================================================
+
+ALTER TABLE public.dream_symbols ADD COLUMN IF NOT EXISTS embedding_next vector(1536);
+ALTER TABLE public.dream_symbols ADD COLUMN IF NOT EXISTS embedding_next_model TEXT;
+ALTER TABLE public.dream_emotions ADD COLUMN IF NOT EXISTS embedding_next vector(1536);
+ALTER TABLE public.dream_emotions ADD COLUMN IF NOT EXISTS embedding_next_model TEXT;
+
+COMMENT ON COLUMN public.dream_symbols.embedding_next IS 'Backfilled embedding of name for embedding_next_model; after cutover, the previous live vector';
+COMMENT ON COLUMN public.dream_emotions.embedding_next IS 'Backfilled embedding of name for embedding_next_model; after cutover, the previous live vector';
+
+-- ============================================================
+-- 2. CUTOVER
+-- ============================================================
+-- Same as 027, also swapping the vocabulary columns
+
+CREATE OR REPLACE FUNCTION cutover_embedding_backfill(p_job_id uuid)
+RETURNS TABLE (
+  swapped boolean,
+  posts_swapped int,
+  dreams_swapped int,
+  rows_remaining bigint
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job public.embedding_backfill_jobs%ROWTYPE;
+  v_remaining bigint;
+  v_posts int;
+  v_dreams int;
+BEGIN
+  SELECT * INTO v_job FROM public.embedding_backfill_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Backfill job not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_job.status <> 'ready' THEN
+    RAISE EXCEPTION 'Backfill job is %, not ready for cutover', v_job.status USING ERRCODE = 'P0001';
+  END IF;
+
+  LOCK TABLE public.posts, public.dream_posts IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT c.posts_remaining + c.dreams_remaining INTO v_remaining
+  FROM embedding_backfill_coverage(v_job.target_model) c;
+
+  IF v_remaining > 0 THEN
+    -- New rows arrived since the job finished; send it back to pick them up
+    UPDATE public.embedding_backfill_jobs
+    SET status = 'running', phase = 'posts', posts_cursor = NULL, dreams_cursor = NULL,
+        passes = passes + 1, updated_at = NOW()
+    WHERE id = p_job_id;
+    RETURN QUERY SELECT false, 0, 0, v_remaining;
+    RETURN;
+  END IF;
+
+  -- SET expressions read the old row, so this swaps the columns
+  UPDATE public.posts SET
+    embedding = embedding_next,
+    embedding_model = embedding_next_model,
+    embedding_next = embedding,
+    embedding_next_model = embedding_model
+  WHERE embedding_next_model = v_job.target_model
+    AND embedding_model IS DISTINCT FROM v_job.target_model;
+  GET DIAGNOSTICS v_posts = ROW_COUNT;
+
+  UPDATE public.dream_posts SET
+    content_embedding = content_embedding_next,
+    symbol_embedding = symbol_embedding_next,
+    emotion_embedding = emotion_embedding_next,
+    combined_embedding = combined_embedding_next,
+    embedding_model = embedding_next_model,
+    content_embedding_next = content_embedding,
+    symbol_embedding_next = symbol_embedding,
+    emotion_embedding_next = emotion_embedding,
+    combined_embedding_next = combined_embedding,
+    embedding_next_model = embedding_model
+  WHERE embedding_next_model = v_job.target_model
+    AND embedding_model IS DISTINCT FROM v_job.target_model;
+  GET DIAGNOSTICS v_dreams = ROW_COUNT;
+
+  -- Vocabulary rows the dream pass embedded; rows without a shadow vector
+  -- are filled again as dreams use them
+  UPDATE public.dream_symbols SET
+    embedding = embedding_next,
+    embedding_model = embedding_next_model,
+    embedding_next = embedding,
+    embedding_next_model = embedding_model
+  WHERE embedding_next_model = v_job.target_model
+    AND embedding_model IS DISTINCT FROM v_job.target_model;
+
+  UPDATE public.dream_emotions SET
+    embedding = embedding_next,
+    embedding_model = embedding_next_model,
+    embedding_next = embedding,
+    embedding_next_model = embedding_model
+  WHERE embedding_next_model = v_job.target_model
+    AND embedding_model IS DISTINCT FROM v_job.target_model;
+
+  -- Rankings were computed in the old vector space; recompute-rankings picks these up first
+  UPDATE public.post_rankings SET computed_at = '-infinity';
+
+  UPDATE public.embedding_backfill_jobs
+  SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+  WHERE id = p_job_id;
+
+  RETURN QUERY SELECT true, v_posts, v_dreams, 0::bigint;
+END;
+$$;
@@ -0,0 +1,223 @@
+-- ============================================================
+-- HYBRID SEARCH INDEX USE
+-- ============================================================
+-- search_posts_hybrid (028 / 029) selected every in-scope post into one
+-- CTE and ranked that three times. A CTE referenced more than once is
+-- materialized, so none of the rankings could use its index (full-text GIN,
+-- trigram GIN, HNSW), and the vector ranking ordered by a CASE expression
+-- HNSW cannot serve either. Each ranking now scans posts itself with the
+-- scope filters inlined, and vector candidates are ordered by a plain
+-- embedding <=> query_embedding per column.
+--
+-- Matching also counted posts found by full-text search alone, with no
+-- threshold: websearch_to_tsquery ANDs the query's words, so any post that
+-- contains them counted. require_similarity drops those hits; full-text
+-- still adds to the score of posts that pass a vector or trigram threshold.
+--
+-- query_embedding_model is required whenever query_embedding is given, as
+-- in the match RPCs (039).
+
+-- ============================================================
+-- 1. SCOPE FILTER
+-- ============================================================
+-- Posts visible from a scope: city posts match city posts, state posts match
+-- city + state, and so on. A plain SQL expression, inlined into callers.
+
+CREATE OR REPLACE FUNCTION post_in_search_scope(
+  post_scope text,
+  post_city text,
+  post_state text,
+  post_country text,
+  scope_filter text,
+  filter_city text,
+  filter_state text,
+  filter_country text
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE scope_filter
+    WHEN 'city' THEN post_scope = 'city' AND post_city = filter_city
+    WHEN 'state' THEN post_scope IN ('city', 'state') AND post_state = filter_state
+    WHEN 'country' THEN post_scope IN ('city', 'state', 'country') AND post_country = filter_country
+    ELSE true
+  END
+$$;
+
+-- ============================================================
+-- 2. SEARCH FUNCTION
+-- ============================================================
+-- Same results as 029, plus require_similarity.
+
+DROP FUNCTION IF EXISTS search_posts_hybrid(text, vector, text, int, text, text, text, text, boolean, float, float, int, int);
+
+CREATE OR REPLACE FUNCTION search_posts_hybrid(
+  query_text text,
+  query_embedding vector(1536) DEFAULT NULL,   -- NULL: lexical signals only
+  query_embedding_model text DEFAULT NULL,     -- Required with query_embedding
+  match_limit int DEFAULT 20,
+  scope_filter text DEFAULT 'world',
+  filter_city text DEFAULT NULL,
+  filter_state text DEFAULT NULL,
+  filter_country text DEFAULT NULL,
+  query_has_negation boolean DEFAULT false,
+  min_vector_similarity float DEFAULT 0.70,
+  min_trigram_similarity float DEFAULT 0.3,
+  rrf_k int DEFAULT 60,
+  candidate_limit int DEFAULT 100,             -- Rows taken from each ranking before fusion
+  require_similarity boolean DEFAULT false     -- Drop posts found by full-text alone
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  input_type post_type,
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  percentile float,
+  tier text,
+  created_at timestamptz,
+  similarity float,          -- Vector similarity, NULL when not a vector match
+  text_rank float,           -- ts_rank_cd, NULL when not a full-text match
+  trigram_similarity float,  -- NULL when below min_trigram_similarity
+  score float,               -- Reciprocal rank fusion score
+  matched_by text[],         -- Subset of {fulltext, trigram, vector}
+  content_modifiers jsonb    -- NULL for posts created before migration 029
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_tsquery tsquery := websearch_to_tsquery('english', COALESCE(query_text, ''));
+BEGIN
+  IF query_embedding IS NOT NULL AND query_embedding_model IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_model is required with query_embedding' USING ERRCODE = '22004';
+  END IF;
+
+  RETURN QUERY
+  WITH fulltext AS (
+    SELECT p.id, ts_rank_cd(to_tsvector('english', p.content), v_tsquery)::float AS rank_value
+    FROM posts p
+    WHERE numnode(v_tsquery) > 0
+      AND to_tsvector('english', p.content) @@ v_tsquery
+      AND p.moderation_status = 'approved'
+      AND post_in_search_scope(p.scope::text, p.location_city, p.location_state, p.location_country,
+                               scope_filter, filter_city, filter_state, filter_country)
+      AND (NOT query_has_negation OR p.has_negation = true)
+    ORDER BY rank_value DESC
+    LIMIT candidate_limit
+  ),
+  fulltext_ranked AS (
+    SELECT f.id, f.rank_value, ROW_NUMBER() OVER (ORDER BY f.rank_value DESC) AS position
+    FROM fulltext f
+  ),
+  trigram AS (
+    SELECT p.id, similarity(p.content, query_text)::float AS rank_value
+    FROM posts p
+    WHERE length(COALESCE(query_text, '')) >= 3
+      AND p.content % query_text
+      AND similarity(p.content, query_text) >= min_trigram_similarity
+      AND p.moderation_status = 'approved'
+      AND post_in_search_scope(p.scope::text, p.location_city, p.location_state, p.location_country,
+                               scope_filter, filter_city, filter_state, filter_country)
+      AND (NOT query_has_negation OR p.has_negation = true)
+    ORDER BY rank_value DESC
+    LIMIT candidate_limit
+  ),
+  trigram_ranked AS (
+    SELECT t.id, t.rank_value, ROW_NUMBER() OVER (ORDER BY t.rank_value DESC) AS position
+    FROM trigram t
+  ),
+  -- Live vectors in the caller's model (idx_posts_embedding_hnsw)
+  vector_live AS (
+    SELECT p.id, p.embedding <=> query_embedding AS distance
+    FROM posts p
+    WHERE query_embedding IS NOT NULL
+      AND p.embedding_model = query_embedding_model
+      AND p.embedding <=> query_embedding < 1 - min_vector_similarity
+      AND p.moderation_status = 'approved'
+      AND post_in_search_scope(p.scope::text, p.location_city, p.location_state, p.location_country,
+                               scope_filter, filter_city, filter_state, filter_country)
+      AND (NOT query_has_negation OR p.has_negation = true)
+    ORDER BY p.embedding <=> query_embedding
+    LIMIT candidate_limit
+  ),
+  -- Shadow vectors written by a running backfill (027) in the caller's model
+  vector_shadow AS (
+    SELECT p.id, p.embedding_next <=> query_embedding AS distance
+    FROM posts p
+    WHERE query_embedding IS NOT NULL
+      AND p.embedding_next_model = query_embedding_model
+      AND p.embedding_model IS DISTINCT FROM query_embedding_model
+      AND p.embedding_next <=> query_embedding < 1 - min_vector_similarity
+      AND p.moderation_status = 'approved'
+      AND post_in_search_scope(p.scope::text, p.location_city, p.location_state, p.location_country,
+                               scope_filter, filter_city, filter_state, filter_country)
+      AND (NOT query_has_negation OR p.has_negation = true)
+    ORDER BY p.embedding_next <=> query_embedding
+    LIMIT candidate_limit
+  ),
+  vector_ranked AS (
+    SELECT vc.id, (1 - vc.distance)::float AS rank_value, ROW_NUMBER() OVER (ORDER BY vc.distance) AS position
+    FROM (
+      SELECT * FROM vector_live
+      UNION ALL
+      SELECT * FROM vector_shadow
+    ) vc
+    ORDER BY vc.distance
+    LIMIT candidate_limit
+  ),
+  candidates AS (
+    SELECT f.id FROM fulltext_ranked f
+    UNION
+    SELECT t.id FROM trigram_ranked t
+    UNION
+    SELECT vr.id FROM vector_ranked vr
+  ),
+  fused AS (
+    SELECT
+      c.id,
+      vr.rank_value AS similarity,
+      f.rank_value AS text_rank,
+      t.rank_value AS trigram_similarity,
+      COALESCE(1.0 / (rrf_k + f.position), 0)
+        + COALESCE(1.0 / (rrf_k + t.position), 0)
+        + COALESCE(1.0 / (rrf_k + vr.position), 0) AS score,
+      array_remove(ARRAY[
+        CASE WHEN f.id IS NOT NULL THEN 'fulltext' END,
+        CASE WHEN t.id IS NOT NULL THEN 'trigram' END,
+        CASE WHEN vr.id IS NOT NULL THEN 'vector' END
+      ], NULL) AS matched_by
+    FROM candidates c
+    LEFT JOIN fulltext_ranked f ON f.id = c.id
+    LEFT JOIN trigram_ranked t ON t.id = c.id
+    LEFT JOIN vector_ranked vr ON vr.id = c.id
+    WHERE NOT require_similarity OR t.id IS NOT NULL OR vr.id IS NOT NULL
+  )
+  SELECT
+    p.id,
+    p.content,
+    p.input_type,
+    p.scope::text,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    p.percentile,
+    p.tier::text,
+    p.created_at,
+    fu.similarity,
+    fu.text_rank,
+    fu.trigram_similarity,
+    fu.score::float,
+    fu.matched_by,
+    p.content_modifiers
+  FROM fused fu
+  JOIN posts p ON p.id = fu.id
+  ORDER BY fu.score DESC, p.created_at DESC
+  LIMIT match_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_posts_hybrid(text, vector, text, int, text, text, text, text, boolean, float, float, int, int, boolean) TO anon, authenticated;
@@ -0,0 +1,148 @@
+-- ============================================================
+-- REVIEW QUEUE: TEMPORAL ROWS AND HOLD AUDIT
+-- ============================================================
+-- Held posts skip the temporal_uniqueness row written for published posts,
+-- and approving them through review_pending_posts (033) never wrote it. The
+-- row is now computed when the post is held, kept on its queue entry, and
+-- inserted when the post is approved.
+--
+-- hold_post_for_review also logged previous_status 'pending' for posts that
+-- were created pending; a post without a queue entry is new, so its hold is
+-- logged with no previous status.
+
+-- ============================================================
+-- 1. QUEUE COLUMN
+-- ============================================================
+
+ALTER TABLE public.moderation_review_queue
+  ADD COLUMN IF NOT EXISTS temporal_uniqueness JSONB;
+
+COMMENT ON COLUMN public.moderation_review_queue.temporal_uniqueness IS
+  'temporal_uniqueness row written when the post is approved (NULL: none)';
+
+-- ============================================================
+-- 2. HOLD
+-- ============================================================
+
+DROP FUNCTION IF EXISTS hold_post_for_review(uuid, text, text[]);
+
+CREATE OR REPLACE FUNCTION hold_post_for_review(
+  p_post_id uuid,
+  p_reason text,
+  p_flags text[] DEFAULT '{}',
+  p_temporal jsonb DEFAULT NULL    -- temporal_uniqueness row for approval
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous text;
+BEGIN
+  SELECT moderation_status::text INTO v_previous
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post % not found', p_post_id;
+  END IF;
+
+  -- Created pending: no earlier status to record
+  IF v_previous = 'pending' AND NOT EXISTS (
+    SELECT 1 FROM public.moderation_review_queue WHERE post_id = p_post_id
+  ) THEN
+    v_previous := NULL;
+  END IF;
+
+  UPDATE public.posts SET moderation_status = 'pending' WHERE id = p_post_id;
+
+  INSERT INTO public.moderation_review_queue (post_id, reason, flags, temporal_uniqueness)
+  VALUES (p_post_id, p_reason, COALESCE(p_flags, '{}'), p_temporal)
+  ON CONFLICT (post_id) DO UPDATE SET
+    reason = EXCLUDED.reason,
+    flags = EXCLUDED.flags,
+    temporal_uniqueness = COALESCE(EXCLUDED.temporal_uniqueness, moderation_review_queue.temporal_uniqueness),
+    status = 'pending',
+    created_at = NOW(),
+    reviewed_at = NULL,
+    reviewed_by = NULL;
+
+  INSERT INTO public.moderation_audit_log (post_id, action, previous_status, new_status, note)
+  VALUES (p_post_id, 'held', v_previous, 'pending', p_reason);
+END;
+$$;
+
+-- ============================================================
+-- 3. REVIEW
+-- ============================================================
+-- Same as 033, plus the temporal_uniqueness row of approved posts.
+
+CREATE OR REPLACE FUNCTION review_pending_posts(
+  p_post_ids uuid[],
+  p_decision text,
+  p_reviewer_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content_hash text,
+  scope text,
+  input_type text,
+  location_city text,
+  location_state text,
+  location_country text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid review decision: %', p_decision;
+  END IF;
+
+  RETURN QUERY
+  WITH reviewed AS (
+    UPDATE public.moderation_review_queue q
+    SET status = p_decision, reviewed_at = NOW(), reviewed_by = p_reviewer_id
+    WHERE q.post_id = ANY(p_post_ids)
+      AND q.status = 'pending'
+    RETURNING q.post_id, q.temporal_uniqueness
+  ),
+  updated AS (
+    UPDATE public.posts p
+    SET moderation_status = p_decision::moderation_status
+    FROM reviewed r
+    WHERE p.id = r.post_id
+    RETURNING p.id, p.content_hash, p.scope::text, p.input_type::text, p.location_city,
+      p.location_state, p.location_country, p.created_at
+  ),
+  audited AS (
+    INSERT INTO public.moderation_audit_log (post_id, action, previous_status, new_status, actor_id, note)
+    SELECT u.id, p_decision, 'pending', p_decision, p_reviewer_id, p_note
+    FROM updated u
+  ),
+  temporal AS (
+    INSERT INTO public.temporal_uniqueness (
+      post_id, content_hash, action_key, timezone, local_date,
+      today_total, today_unique, today_percentile,
+      this_week_total, this_week_unique, this_week_percentile,
+      this_month_total, this_month_unique, this_month_percentile
+    )
+    SELECT u.id, u.content_hash, t.action_key, t.timezone, t.local_date,
+      t.today_total, t.today_unique, t.today_percentile,
+      t.this_week_total, t.this_week_unique, t.this_week_percentile,
+      t.this_month_total, t.this_month_unique, t.this_month_percentile
+    FROM updated u
+    JOIN reviewed r ON r.post_id = u.id
+    CROSS JOIN LATERAL jsonb_populate_record(NULL::public.temporal_uniqueness, r.temporal_uniqueness) t
+    WHERE p_decision = 'approved'
+      AND r.temporal_uniqueness IS NOT NULL
+  )
+  SELECT u.id, u.content_hash, u.scope, u.input_type, u.location_city, u.location_state,
+    u.location_country, u.created_at
+  FROM updated u;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION hold_post_for_review(uuid, text, text[], jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION review_pending_posts(uuid[], text, uuid, text) TO service_role;
@@ -0,0 +1,16 @@
+-- ============================================================
+-- CASE-SENSITIVE MODERATION RULES
+-- ============================================================
+-- Rules compile case-insensitively (034), so the excessive-caps spam pattern
+-- [A-Z]{10,} could not be stored and was left out of the seed. Rules with
+-- case_sensitive compile without the i flag; like other regex rules they are
+-- tested against the text as submitted as well as the normalised text.
+
+ALTER TABLE public.moderation_rules
+  ADD COLUMN IF NOT EXISTS case_sensitive BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.moderation_rules.case_sensitive IS 'Regex compiled without the i flag';
+
+INSERT INTO public.moderation_rules (kind, category, pattern, score, case_sensitive, notes) VALUES
+  ('regex', 'spam', '[A-Z]{10,}', 0.5, true, 'Excessive caps')
+ON CONFLICT (kind, category, pattern) DO NOTHING;
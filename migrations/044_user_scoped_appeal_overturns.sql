@@ -0,0 +1,41 @@
+-- ============================================================
+-- USER-SCOPED APPEAL OVERTURNS
+-- ============================================================
+-- An overturned appeal allowed the same content (035) for every user. It now
+-- allows it only for the user who appealed, as the same content type.
+
+-- ============================================================
+-- 1. INDEX
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_moderation_appeals_overturned_user
+  ON public.moderation_appeals(user_id)
+  WHERE status = 'overturned';
+
+-- ============================================================
+-- 2. OVERTURN LOOKUP
+-- ============================================================
+
+DROP FUNCTION IF EXISTS is_moderation_overturned(text, text);
+
+CREATE OR REPLACE FUNCTION is_moderation_overturned(
+  p_user_id uuid,
+  p_content_type text,
+  p_content_hash text
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.moderation_appeals a
+    JOIN public.moderation_events e ON e.id = a.event_id
+    WHERE a.status = 'overturned'
+      AND a.user_id = p_user_id
+      AND e.content_type = p_content_type
+      AND e.content_hash = p_content_hash
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_moderation_overturned(uuid, text, text) TO service_role;
@@ -0,0 +1,13 @@
+-- ============================================================
+-- SHORT SUPPORT MESSAGES
+-- ============================================================
+-- Support messages had to be at least 10 characters (006), which refused
+-- replies like "hugs!" or "same here". The minimum is now 2 characters,
+-- matching DreamCommunityService.
+
+ALTER TABLE public.dream_support_messages
+  DROP CONSTRAINT IF EXISTS dream_support_messages_message_check;
+
+ALTER TABLE public.dream_support_messages
+  ADD CONSTRAINT dream_support_messages_message_check
+  CHECK (length(message) >= 2 AND length(message) <= 500);
@@ -0,0 +1,191 @@
+-- ============================================================
+-- EMBEDDING MATCH INDEX USE
+-- ============================================================
+-- match_posts_by_embedding and match_dreams_by_embedding (039) picked the
+-- live or shadow vector with a CASE in a lateral join and ordered by that
+-- expression, which neither idx_posts_embedding_hnsw nor the ivfflat index
+-- on dream_posts.combined_embedding can serve, so every call scanned and
+-- sorted the whole table. As in search_posts_hybrid (041), live and shadow
+-- vectors are now two branches, each filtered on its own model column and
+-- ordered by a plain column <=> query_embedding, combined with UNION ALL.
+--
+-- Arguments and results are unchanged from 039.
+
+-- ============================================================
+-- 1. POST MATCHING
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION match_posts_by_embedding(
+  query_embedding vector(1536),
+  query_embedding_model text,
+  match_threshold float DEFAULT 0.5,
+  match_limit int DEFAULT 10,
+  scope_filter text DEFAULT 'world',
+  filter_city text DEFAULT NULL,
+  filter_state text DEFAULT NULL,
+  filter_country text DEFAULT NULL,
+  today_only boolean DEFAULT false,
+  query_has_negation boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  input_type post_type,
+  scope text,
+  location_city text,
+  location_state text,
+  location_country text,
+  percentile float,
+  tier text,
+  created_at timestamptz,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF query_embedding_model IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_model is required' USING ERRCODE = '22004';
+  END IF;
+
+  RETURN QUERY
+  WITH
+  -- Live vectors in the caller's model (idx_posts_embedding_hnsw)
+  live AS (
+    SELECT p.id, p.embedding <=> query_embedding AS distance
+    FROM posts p
+    WHERE p.embedding_model = query_embedding_model
+      AND p.embedding <=> query_embedding < 1 - match_threshold
+      AND p.moderation_status = 'approved'
+      AND post_in_search_scope(p.scope::text, p.location_city, p.location_state, p.location_country,
+                               scope_filter, filter_city, filter_state, filter_country)
+      AND (NOT today_only OR p.created_at >= CURRENT_DATE)
+      AND (NOT query_has_negation OR p.has_negation = true)
+    ORDER BY p.embedding <=> query_embedding
+    LIMIT match_limit
+  ),
+  -- Shadow vectors written by a running backfill (027) in the caller's model
+  shadow AS (
+    SELECT p.id, p.embedding_next <=> query_embedding AS distance
+    FROM posts p
+    WHERE p.embedding_next_model = query_embedding_model
+      AND p.embedding_model IS DISTINCT FROM query_embedding_model
+      AND p.embedding_next <=> query_embedding < 1 - match_threshold
+      AND p.moderation_status = 'approved'
+      AND post_in_search_scope(p.scope::text, p.location_city, p.location_state, p.location_country,
+                               scope_filter, filter_city, filter_state, filter_country)
+      AND (NOT today_only OR p.created_at >= CURRENT_DATE)
+      AND (NOT query_has_negation OR p.has_negation = true)
+    ORDER BY p.embedding_next <=> query_embedding
+    LIMIT match_limit
+  ),
+  matched AS (
+    SELECT * FROM live
+    UNION ALL
+    SELECT * FROM shadow
+  )
+  SELECT
+    p.id,
+    p.content,
+    p.input_type,
+    p.scope::text as scope,
+    p.location_city,
+    p.location_state,
+    p.location_country,
+    p.percentile,
+    p.tier::text as tier,
+    p.created_at,
+    (1 - m.distance)::float as similarity
+  FROM matched m
+  JOIN posts p ON p.id = m.id
+  ORDER BY m.distance
+  LIMIT match_limit;
+END;
+$$;
+
+-- ============================================================
+-- 2. DREAM MATCHING
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION match_dreams_by_embedding(
+  query_embedding vector(1536),
+  query_embedding_model text,
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10,
+  dream_type_filter dream_type DEFAULT NULL,
+  scope_filter scope_type DEFAULT NULL,
+  query_content_embedding vector(1536) DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  dream_type dream_type,
+  emotions dream_emotion[],
+  symbols dream_symbol[],
+  clarity integer,
+  similarity float,
+  content_similarity float
+)
+LANGUAGE plpgsql
+AS $$
+-- match_count is also a dream_posts column; the argument is meant
+#variable_conflict use_variable
+BEGIN
+  IF query_embedding_model IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_model is required' USING ERRCODE = '22004';
+  END IF;
+
+  RETURN QUERY
+  WITH
+  -- Live vectors in the caller's model (ivfflat on combined_embedding)
+  live AS (
+    SELECT
+      dp.id,
+      dp.combined_embedding <=> query_embedding AS distance,
+      dp.content_embedding AS content_vector
+    FROM dream_posts dp
+    WHERE dp.embedding_model = query_embedding_model
+      AND dp.combined_embedding <=> query_embedding < 1 - match_threshold
+      AND (dream_type_filter IS NULL OR dp.dream_type = dream_type_filter)
+      AND (scope_filter IS NULL OR dp.scope = scope_filter)
+    ORDER BY dp.combined_embedding <=> query_embedding
+    LIMIT match_count
+  ),
+  -- Shadow vectors written by a running backfill (027) in the caller's model
+  shadow AS (
+    SELECT
+      dp.id,
+      dp.combined_embedding_next <=> query_embedding AS distance,
+      dp.content_embedding_next AS content_vector
+    FROM dream_posts dp
+    WHERE dp.embedding_next_model = query_embedding_model
+      AND dp.embedding_model IS DISTINCT FROM query_embedding_model
+      AND dp.combined_embedding_next <=> query_embedding < 1 - match_threshold
+      AND (dream_type_filter IS NULL OR dp.dream_type = dream_type_filter)
+      AND (scope_filter IS NULL OR dp.scope = scope_filter)
+    ORDER BY dp.combined_embedding_next <=> query_embedding
+    LIMIT match_count
+  ),
+  matched AS (
+    SELECT * FROM live
+    UNION ALL
+    SELECT * FROM shadow
+  )
+  SELECT
+    dp.id,
+    dp.content,
+    dp.dream_type,
+    dp.emotions,
+    dp.symbols,
+    dp.clarity,
+    (1 - m.distance)::float as similarity,
+    CASE
+      WHEN query_content_embedding IS NOT NULL AND m.content_vector IS NOT NULL
+      THEN (1 - (m.content_vector <=> query_content_embedding))::float
+      ELSE (1 - m.distance)::float
+    END as content_similarity
+  FROM matched m
+  JOIN dream_posts dp ON dp.id = m.id
+  ORDER BY m.distance
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,42 @@
+-- ============================================================
+-- HASH FALLBACK EMBEDDING TAGS
+-- ============================================================
+-- 023 tagged every stored vector 'openai:text-embedding-3-small:1536',
+-- including those written by the removed hash fallback of EmbeddingService
+-- (an OpenAI outage used to store a pseudo-random vector instead). Matching
+-- compared them with real OpenAI vectors. The fallback only produced
+-- non-negative components, which OpenAI vectors never have, so those rows
+-- are retagged 'legacy:hash-fallback:1536': vector search skips them and
+-- an embedding backfill (027) re-embeds them like any other model.
+--
+-- Databases that ran the corrected 023 are already tagged; this is a no-op.
+
+-- ============================================================
+-- 1. DETECTION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION is_hash_fallback_embedding(v vector)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT v IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM unnest(v::real[]) AS c WHERE c < 0)
+$$;
+
+-- ============================================================
+-- 2. RETAG
+-- ============================================================
+
+UPDATE public.posts
+SET embedding_model = 'legacy:hash-fallback:1536'
+WHERE embedding_model = 'openai:text-embedding-3-small:1536'
+  AND is_hash_fallback_embedding(embedding);
+
+-- A dream's combined vector mixes all three, so one fallback part spoils it
+UPDATE public.dream_posts
+SET embedding_model = 'legacy:hash-fallback:1536'
+WHERE embedding_model = 'openai:text-embedding-3-small:1536'
+  AND (is_hash_fallback_embedding(content_embedding)
+    OR is_hash_fallback_embedding(symbol_embedding)
+    OR is_hash_fallback_embedding(emotion_embedding));
@@ -0,0 +1,241 @@
+/**
+ * Similarity Threshold Calibration
+ *
+ * Reads labelled text pairs (JSONL, one per line):
+ *   {"a": "Ate pizza", "b": "Had pizza for lunch", "match": true, "input_type": "action", "scope": "world"}
+ * (input_type and scope are optional and default to '*'), embeds both sides
+ * with the configured EMBEDDING_* provider and reports precision / recall / F1
+ * per vector and trigram threshold, grouped by input type and scope. Prints
+ * an upsert for similarity_thresholds (migration 030) with the best pair.
+ *
+ * A pair is predicted to match when its vector OR trigram similarity reaches
+ * the threshold and its content modifiers do not conflict - as in hybrid
+ * matching, where a full-text hit alone never counts (require_similarity,
+ * migration 041) and full-text only reorders candidates.
+ *
+ * Embeddings are cached in memory for the run only: no Supabase credentials
+ * are needed and the shared embedding_cache is never written.
+ *
+ * Usage:
+ *   deno run --allow-env --allow-net --allow-read scripts/calibrate-thresholds.ts pairs.jsonl [--step 0.05]
+ */
+
+import { EmbeddingService } from '../functions/shared/services/EmbeddingService.ts';
+import { MemoryEmbeddingCache } from '../functions/shared/services/EmbeddingCache.ts';
+import { createEmbeddingProvider } from '../functions/shared/utils/embeddingProviders.ts';
+import { analyzeContent, compareModifiers } from '../functions/shared/utils/contentModifiers.ts';
+
+interface LabelledPair {
+  a: string;
+  b: string;
+  match: boolean;
+  input_type?: string;
+  scope?: string;
+}
+
+interface ScoredPair {
+  match: boolean;
+  vector: number;
+  trigram: number;
+  compatible: boolean;
+}
+
+interface Metrics {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+const EMBED_BATCH_SIZE = 50;
+const DISABLED = 2; // Threshold no similarity can reach
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SCORING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * pg_trgm similarity(): shared trigrams over all trigrams of the padded words
+ */
+function trigramSimilarity(a: string, b: string): number {
+  const trigrams = (text: string): Set<string> => {
+    const set = new Set<string>();
+    for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+      const padded = `  ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        set.add(padded.slice(i, i + 3));
+      }
+    }
+    return set;
+  };
+
+  const setA = trigrams(a);
+  const setB = trigrams(b);
+  const shared = [...setA].filter(trigram => setB.has(trigram)).length;
+  const total = setA.size + setB.size - shared;
+  return total === 0 ? 0 : shared / total;
+}
+
+function evaluate(pairs: ScoredPair[], vectorThreshold: number, trigramThreshold: number): Metrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  for (const pair of pairs) {
+    const predicted = pair.compatible &&
+      (pair.vector >= vectorThreshold || pair.trigram >= trigramThreshold);
+    if (predicted && pair.match) truePositives++;
+    else if (predicted) falsePositives++;
+    else if (pair.match) falseNegatives++;
+  }
+
+  const precision = truePositives + falsePositives === 0 ? 1 : truePositives / (truePositives + falsePositives);
+  const recall = truePositives + falseNegatives === 0 ? 1 : truePositives / (truePositives + falseNegatives);
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { precision, recall, f1 };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// INPUT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function parsePairs(text: string): LabelledPair[] {
+  return text
+    .split('\n')
+    .map((line, i) => ({ line: line.trim(), lineNumber: i + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNumber }) => {
+      const pair = JSON.parse(line);
+      if (typeof pair.a !== 'string' || typeof pair.b !== 'string' || typeof pair.match !== 'boolean') {
+        throw new Error(`Line ${lineNumber}: expected string "a", string "b" and boolean "match"`);
+      }
+      return pair as LabelledPair;
+    });
+}
+
+async function embedAll(service: EmbeddingService, texts: string[]): Promise<Map<string, number[]>> {
+  const unique = [...new Set(texts)];
+  const embeddings = new Map<string, number[]>();
+
+  for (let i = 0; i < unique.length; i += EMBED_BATCH_SIZE) {
+    const batch = unique.slice(i, i + EMBED_BATCH_SIZE);
+    const result = await service.generateBatchEmbeddings(batch);
+    if (!result.success) {
+      throw new Error(`Embedding failed: ${result.errors?.join(', ')}`);
+    }
+    batch.forEach((text, j) => embeddings.set(text, result.embeddings[j]));
+  }
+
+  return embeddings;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// REPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function formatRow(threshold: number, metrics: Metrics): string {
+  return [
+    threshold.toFixed(2),
+    metrics.precision.toFixed(3),
+    metrics.recall.toFixed(3),
+    metrics.f1.toFixed(3)
+  ].map(cell => cell.padStart(9)).join('');
+}
+
+function reportGroup(
+  inputType: string,
+  scope: string,
+  model: string,
+  pairs: ScoredPair[],
+  steps: number[]
+): void {
+  const positives = pairs.filter(pair => pair.match).length;
+  console.log(`\n📊 input_type=${inputType} scope=${scope} (${pairs.length} pairs, ${positives} matches)`);
+
+  const header = ['threshold', 'precision', 'recall', 'f1'].map(cell => cell.padStart(9)).join('');
+  console.log('\n  Vector only');
+  console.log(header);
+  steps.forEach(step => console.log(formatRow(step, evaluate(pairs, step, DISABLED))));
+
+  console.log('\n  Trigram only');
+  console.log(header);
+  steps.forEach(step => console.log(formatRow(step, evaluate(pairs, DISABLED, step))));
+
+  // Best combination; ties go to the stricter pair (fewer false matches)
+  let best = { vector: steps[0], trigram: steps[0], metrics: evaluate(pairs, steps[0], steps[0]) };
+  for (const vector of steps) {
+    for (const trigram of steps) {
+      const metrics = evaluate(pairs, vector, trigram);
+      if (metrics.f1 > best.metrics.f1 ||
+          (metrics.f1 === best.metrics.f1 && metrics.precision > best.metrics.precision)) {
+        best = { vector, trigram, metrics };
+      }
+    }
+  }
+
+  console.log(
+    `\n  ✅ Best: vector ${best.vector.toFixed(2)}, trigram ${best.trigram.toFixed(2)} ` +
+    `(precision ${best.metrics.precision.toFixed(3)}, recall ${best.metrics.recall.toFixed(3)}, ` +
+    `f1 ${best.metrics.f1.toFixed(3)})`
+  );
+  console.log(
+    `\n  INSERT INTO similarity_thresholds (input_type, scope, embedding_model, vector_threshold, trigram_threshold, notes)\n` +
+    `  VALUES ('${inputType}', '${scope}', '${model}', ${best.vector.toFixed(2)}, ${best.trigram.toFixed(2)}, ` +
+    `'Calibrated on ${pairs.length} pairs, f1 ${best.metrics.f1.toFixed(3)}')\n` +
+    `  ON CONFLICT (input_type, scope, embedding_model) DO UPDATE SET\n` +
+    `    vector_threshold = EXCLUDED.vector_threshold, trigram_threshold = EXCLUDED.trigram_threshold,\n` +
+    `    notes = EXCLUDED.notes, updated_at = NOW();`
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MAIN
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+async function main(): Promise<void> {
+  const [path, ...flags] = Deno.args;
+  if (!path) {
+    console.error('Usage: calibrate-thresholds.ts <pairs.jsonl> [--step 0.05]');
+    Deno.exit(1);
+  }
+
+  const stepFlag = flags.indexOf('--step');
+  const step = stepFlag >= 0 ? Number(flags[stepFlag + 1]) : 0.05;
+  if (!(step > 0 && step <= 0.5)) {
+    console.error('--step must be between 0 and 0.5');
+    Deno.exit(1);
+  }
+
+  const steps: number[] = [];
+  for (let threshold = 0.3; threshold <= 0.95 + 1e-9; threshold += step) {
+    steps.push(Math.round(threshold * 100) / 100);
+  }
+
+  const pairs = parsePairs(await Deno.readTextFile(path));
+  if (pairs.length === 0) {
+    console.error('No pairs found');
+    Deno.exit(1);
+  }
+
+  const embeddingService = new EmbeddingService(createEmbeddingProvider(), new MemoryEmbeddingCache());
+  console.log(`🔮 Embedding ${pairs.length} pairs with ${embeddingService.modelTag}...`);
+  const embeddings = await embedAll(embeddingService, pairs.flatMap(pair => [pair.a, pair.b]));
+
+  const groups = new Map<string, ScoredPair[]>();
+  for (const pair of pairs) {
+    const key = `${pair.input_type ?? '*'}|${pair.scope ?? '*'}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push({
+      match: pair.match,
+      vector: embeddingService.calculateSimilarity(embeddings.get(pair.a)!, embeddings.get(pair.b)!),
+      trigram: trigramSimilarity(pair.a, pair.b),
+      compatible: compareModifiers(analyzeContent(pair.a), analyzeContent(pair.b)).compatible
+    });
+  }
+
+  for (const [key, scored] of groups) {
+    const [inputType, scope] = key.split('|');
+    reportGroup(inputType, scope, embeddingService.modelTag, scored, steps);
+  }
+}
+
+await main();